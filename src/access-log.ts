@@ -0,0 +1,218 @@
+/**
+ * Production access logs (`pruny --access-log <file> routes`): requests
+ * seen at runtime count as route usage that static analysis can't find
+ * (mobile apps, third-party callers). Reads nginx/Apache combined logs,
+ * Vercel JSON log exports and `method,path,count` CSV files.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { ApiRoute, Config } from './types.js';
+import { report } from './utils.js';
+
+/** Requests for one method + path, summed across log lines */
+export interface RouteTraffic {
+  method: string;
+  /** Request path without query string */
+  path: string;
+  count: number;
+  /** ISO timestamp of the latest request, when the log records one */
+  lastSeen?: string;
+}
+
+/** 127.0.0.1 - - [10/Oct/2026:13:55:36 +0000] "GET /api/users?page=2 HTTP/1.1" 200 ... */
+const COMBINED_LOG_LINE = /\[([^\]]+)\]\s+"([A-Z]+)\s+(\S+)[^"]*"/;
+
+/** Request methods; a CSV whose first cell is something else starts with a header row */
+const HTTP_METHOD = /^(?:GET|HEAD|POST|PUT|PATCH|DELETE|OPTIONS|CONNECT|TRACE)$/i;
+
+/** Date of a combined log timestamp (10/Oct/2026:13:55:36 +0000) */
+function parseLogTimestamp(value: string): string | undefined {
+  const match = value.match(/^(\d{1,2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2})\s*([+-]\d{4})?$/);
+  const time = match ? Date.parse(`${match[1]} ${match[2]} ${match[3]} ${match[4]} ${match[5] ?? '+0000'}`) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  const time = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/** Path part of a request target: drops scheme/host, query string and hash */
+function requestPath(target: string): string {
+  const path = target.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/[?#].*$/, '');
+  return path.length > 1 ? path.replace(/\/+$/, '') : path || '/';
+}
+
+/** Vercel log exports: a JSON array or one object per line (request data may sit under `proxy`) */
+function parseJsonLog(content: string): Omit<RouteTraffic, 'count'>[] {
+  const trimmed = content.trim();
+  const records: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+  const requests: Omit<RouteTraffic, 'count'>[] = [];
+  for (const record of records) {
+    if (!record || typeof record !== 'object') continue;
+    const entry = record as Record<string, unknown>;
+    const proxy = (entry.proxy ?? {}) as Record<string, unknown>;
+    const method = proxy.method ?? entry.requestMethod ?? entry.method;
+    const path = proxy.path ?? entry.requestPath ?? entry.path;
+    if (typeof method !== 'string' || typeof path !== 'string') continue;
+    requests.push({
+      method: method.toUpperCase(),
+      path: requestPath(path),
+      lastSeen: toIsoTimestamp(proxy.timestamp ?? entry.timestamp ?? entry.timestampInMs),
+    });
+  }
+  return requests;
+}
+
+/** `method,path,count[,last_seen]` with an optional header row naming the columns */
+function parseCsvLog(lines: string[]): RouteTraffic[] {
+  let columns = ['method', 'path', 'count', 'last_seen'];
+  const firstCell = lines[0].split(',')[0].trim().replace(/^"(.*)"$/, '$1');
+  if (!HTTP_METHOD.test(firstCell)) {
+    columns = lines[0].split(',').map(name => name.trim().toLowerCase().replace(/^lastseen$/, 'last_seen'));
+    lines = lines.slice(1);
+  }
+
+  const traffic: RouteTraffic[] = [];
+  for (const line of lines) {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    const cell = (name: string) => cells[columns.indexOf(name)];
+    const method = cell('method');
+    const path = cell('path');
+    if (!method || !path?.startsWith('/')) continue;
+    const count = cell('count') ? parseInt(cell('count'), 10) : 1;
+    traffic.push({
+      method: method.toUpperCase(),
+      path: requestPath(path),
+      count: Number.isNaN(count) ? 1 : count,
+      lastSeen: toIsoTimestamp(cell('last_seen')),
+    });
+  }
+  return traffic;
+}
+
+/** Sum requests by method + path, keeping the latest timestamp */
+function aggregate(requests: (Omit<RouteTraffic, 'count'> & { count?: number })[]): RouteTraffic[] {
+  const byKey = new Map<string, RouteTraffic>();
+  for (const request of requests) {
+    const key = `${request.method} ${request.path}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { method: request.method, path: request.path, count: request.count ?? 1, lastSeen: request.lastSeen });
+      continue;
+    }
+    existing.count += request.count ?? 1;
+    if (request.lastSeen && (!existing.lastSeen || request.lastSeen > existing.lastSeen)) existing.lastSeen = request.lastSeen;
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Requests in one access log, detecting the format from its content:
+ * JSON (Vercel export), combined log lines (nginx/Apache) or CSV.
+ */
+export function parseAccessLog(content: string): RouteTraffic[] {
+  if (/^\s*[[{]/.test(content)) return aggregate(parseJsonLog(content));
+
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+  if (!COMBINED_LOG_LINE.test(lines[0])) return aggregate(parseCsvLog(lines));
+
+  const requests: Omit<RouteTraffic, 'count'>[] = [];
+  for (const line of lines) {
+    const match = line.match(COMBINED_LOG_LINE);
+    if (match) requests.push({ method: match[2], path: requestPath(match[3]), lastSeen: parseLogTimestamp(match[1]) });
+  }
+  return aggregate(requests);
+}
+
+/**
+ * Traffic from every file in `config.accessLogs`. Unreadable files are
+ * reported and skipped.
+ */
+export function loadAccessLogs(config: Config): RouteTraffic[] {
+  const traffic: RouteTraffic[] = [];
+  for (const file of config.accessLogs ?? []) {
+    try {
+      traffic.push(...parseAccessLog(readFileSync(file, 'utf-8')));
+    } catch {
+      report(config, `   ⚠️  Could not read access log ${file}\n`);
+    }
+  }
+  report(config, `   📈 ${traffic.reduce((sum, t) => sum + t.count, 0)} requests in access logs\n`);
+  return aggregate(traffic);
+}
+
+/**
+ * How well a route path matches a concrete request path: the number of
+ * static segments, or -1 when it doesn't match. Dynamic segments (`[id]`,
+ * `:id`) match one segment, catch-alls (`[...slug]`, `*`) the rest.
+ */
+function matchScore(routePath: string, path: string): number {
+  const route = routePath.split('/').filter(Boolean);
+  const request = path.split('/').filter(Boolean);
+  let score = 0;
+  for (let i = 0; i < route.length; i++) {
+    const segment = route[i];
+    if (segment.startsWith('[[...')) return score;
+    if (segment.startsWith('[...') || segment === '*') return request.length > i ? score : -1;
+    if (i >= request.length) return -1;
+    if (/^\[[^\]]+\]$|^:|^\{[^}]+\}$/.test(segment)) continue;
+    if (segment.toLowerCase() !== request[i].toLowerCase()) return -1;
+    score++;
+  }
+  return route.length === request.length ? score : -1;
+}
+
+/** Methods a route serves for a request method (HEAD falls back to GET) */
+function servedMethod(route: ApiRoute, method: string): string | undefined {
+  if (route.methods.includes(method)) return method;
+  if (method === 'HEAD' && route.methods.includes('GET')) return 'GET';
+  return undefined;
+}
+
+/**
+ * Annotate HTTP routes with their request count and last-seen time, and mark
+ * the methods that received traffic as used (`(access log)` reference). Each
+ * request is credited to the most specific matching route(s).
+ */
+export function applyAccessLogTraffic(routes: ApiRoute[], traffic: RouteTraffic[]): void {
+  const httpRoutes = routes.filter(route => route.type !== 'trpc');
+  for (const route of httpRoutes) route.hits = 0;
+
+  const usedMethods = new Map<ApiRoute, Set<string>>();
+  for (const request of traffic) {
+    let best = -1;
+    let matches: ApiRoute[] = [];
+    for (const route of httpRoutes) {
+      const score = matchScore(route.path, request.path);
+      if (score < 0 || score < best) continue;
+      if (score > best) matches = [];
+      best = score;
+      matches.push(route);
+    }
+
+    for (const route of matches) {
+      route.hits = (route.hits ?? 0) + request.count;
+      if (request.lastSeen && (!route.lastSeen || request.lastSeen > route.lastSeen)) route.lastSeen = request.lastSeen;
+      // Method-agnostic Pages Router handlers serve every method
+      const method = route.router === 'pages' && route.methods.length === 0 ? request.method : servedMethod(route, request.method);
+      if (!method) continue;
+      if (!usedMethods.has(route)) usedMethods.set(route, new Set());
+      usedMethods.get(route)!.add(method);
+    }
+  }
+
+  for (const [route, methods] of usedMethods) {
+    if (!route.used) {
+      route.used = true;
+      route.unusedMethods = [...route.methods];
+    }
+    route.unusedMethods = route.unusedMethods.filter(m => !methods.has(m));
+    route.references.push('(access log)');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Baseline support: snapshot the current findings so that later runs
+ * (`--baseline <file>`) only report and count newly introduced ones.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import type { Config, ScanResult } from './types.js';
+import { filterFindings, type Finding } from './findings.js';
+
+export const BASELINE_FILE = '.pruny-baseline.json';
+
+interface BaselineFile {
+  version: 1;
+  generatedAt: string;
+  findings: string[];
+}
+
+/**
+ * Write the keys of the given findings to a baseline file.
+ * Keys are sorted and deduplicated so the file diffs cleanly.
+ */
+export function writeBaseline(filePath: string, findings: Finding[]): number {
+  const keys = [...new Set(findings.map(f => f.key))].sort();
+  const baseline: BaselineFile = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    findings: keys,
+  };
+  writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n');
+  return keys.length;
+}
+
+/**
+ * Read the finding keys stored in a baseline file.
+ */
+export function readBaseline(filePath: string): Set<string> {
+  if (!existsSync(filePath)) {
+    throw new Error(`Baseline file not found: ${filePath}`);
+  }
+  const content = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<BaselineFile>;
+  if (!Array.isArray(content.findings)) {
+    throw new Error(`Invalid baseline file (missing "findings" array): ${filePath}`);
+  }
+  return new Set(content.findings);
+}
+
+/**
+ * Hide findings already recorded in the baseline. Mutates the result in
+ * place and returns how many known findings were hidden.
+ */
+export function applyBaseline(result: ScanResult, config: Config, baseline: Set<string>): number {
+  return filterFindings(result, config, finding => !baseline.has(finding.key));
+}
@@ -0,0 +1,176 @@
+/**
+ * Persistent extraction cache in `node_modules/.cache/pruny`.
+ *
+ * Per-file extraction results (API references, exports, import specifiers,
+ * link matches) are stored under a hash of the file content, so on the next
+ * run only files whose content changed are parsed again. The whole cache is
+ * discarded when the pruny version changes, and each kind's entry key carries
+ * its extractor version, since extraction logic may differ.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const CACHE_DIR = 'node_modules/.cache/pruny';
+const CACHE_FILE = 'extractions.json';
+
+/** Entries not used for this long are dropped when the cache is saved */
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Refresh an entry's last-used time at most once a day, so unchanged runs don't rewrite the file */
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extractor version of each cache kind (the part before any `:`), part of
+ * every entry key. Bump a kind whenever its extractor's logic or result shape
+ * changes, so entries an older build of the same pruny version wrote are not
+ * served. Kinds not listed are at 1.
+ */
+export const EXTRACTOR_VERSIONS: Record<string, number> = {
+  'api-refs': 2,
+  exports: 2,
+  imports: 2,
+  links: 2,
+  'member-chains': 2,
+  'server-actions': 2,
+  'server-routes': 2,
+  'trpc-clients': 2,
+  'trpc-routers': 2,
+};
+
+interface CacheEntry {
+  /** Last time the entry was used (ms since epoch) */
+  t: number;
+  v: unknown;
+}
+
+interface CacheFile {
+  version: string;
+  entries: Record<string, CacheEntry>;
+}
+
+let prunyPackage: { version?: unknown; repository?: unknown } | undefined;
+
+/** The running pruny's own package.json (empty when it can't be found) */
+function readPrunyPackage(): { version?: unknown; repository?: unknown } {
+  if (prunyPackage) return prunyPackage;
+  prunyPackage = {};
+  let dir = dirname(fileURLToPath(import.meta.url));
+  while (dir !== dirname(dir)) {
+    const pkgPath = join(dir, 'package.json');
+    if (existsSync(pkgPath)) {
+      try {
+        const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+        if (pkg.name === 'pruny') {
+          prunyPackage = pkg;
+          break;
+        }
+      } catch {
+        // Keep walking up
+      }
+    }
+    dir = dirname(dir);
+  }
+  return prunyPackage!;
+}
+
+/**
+ * Version of the running pruny, read from its own package.json.
+ */
+export function getPrunyVersion(): string {
+  const { version } = readPrunyPackage();
+  return version === undefined ? '0.0.0' : String(version);
+}
+
+/**
+ * Web URL of pruny's repository from its package.json `repository`
+ * (`git+https://…/pruny.git` and `github:owner/repo` forms included).
+ */
+export function getPrunyRepositoryUrl(): string | undefined {
+  const { repository } = readPrunyPackage();
+  const url = typeof repository === 'string'
+    ? repository
+    : (repository as { url?: unknown } | undefined)?.url;
+  if (typeof url !== 'string' || !url) return undefined;
+  const shorthand = url.match(/^(?:github:)?([\w.-]+\/[\w.-]+)$/);
+  if (shorthand) return `https://github.com/${shorthand[1]}`;
+  return url.replace(/^git\+/, '').replace(/^git:\/\//, 'https://').replace(/\.git$/, '');
+}
+
+/**
+ * Open (or start) the extraction cache stored under `rootDir`.
+ * A missing, corrupt or outdated cache file is treated as empty.
+ */
+export function openExtractionCache(rootDir: string) {
+  const filePath = join(rootDir, CACHE_DIR, CACHE_FILE);
+  const version = getPrunyVersion();
+  const now = Date.now();
+  const hashes = new Map<string, string>();
+  let entries: Record<string, CacheEntry> = {};
+  let dirty = false;
+  let hits = 0;
+  let misses = 0;
+
+  try {
+    const cached = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<CacheFile>;
+    if (cached.version === version && cached.entries) entries = cached.entries;
+  } catch {
+    // No usable cache yet
+  }
+
+  const keyOf = (kind: string, content: string) => {
+    let hash = hashes.get(content);
+    if (!hash) {
+      hash = createHash('sha1').update(content).digest('hex');
+      hashes.set(content, hash);
+    }
+    return `${kind}@${EXTRACTOR_VERSIONS[kind.split(':')[0]] ?? 1}:${hash}`;
+  };
+
+  return {
+    /** Cached result of `kind` extraction for this exact content, if any */
+    get<T>(kind: string, content: string): T | undefined {
+      const entry = entries[keyOf(kind, content)];
+      if (!entry) {
+        misses++;
+        return undefined;
+      }
+      hits++;
+      if (now - entry.t > TOUCH_INTERVAL_MS) {
+        entry.t = now;
+        dirty = true;
+      }
+      return entry.v as T;
+    },
+
+    set(kind: string, content: string, value: unknown) {
+      entries[keyOf(kind, content)] = { t: now, v: value };
+      dirty = true;
+    },
+
+    /** Lookups served from the cache vs. extractions that had to run */
+    stats() {
+      return { hits, misses };
+    },
+
+    /** Write the cache back to disk if anything changed. Failures are ignored. */
+    save() {
+      if (!dirty) return;
+      const kept: Record<string, CacheEntry> = {};
+      for (const [key, entry] of Object.entries(entries)) {
+        if (now - entry.t <= MAX_ENTRY_AGE_MS) kept[key] = entry;
+      }
+      try {
+        mkdirSync(dirname(filePath), { recursive: true });
+        const data: CacheFile = { version, entries: kept };
+        writeFileSync(filePath, JSON.stringify(data));
+        dirty = false;
+      } catch {
+        // Read-only checkout etc. — the cache is only an optimization
+      }
+    },
+  };
+}
+
+export type ExtractionCache = ReturnType<typeof openExtractionCache>;
@@ -0,0 +1,184 @@
+/**
+ * Changed-files mode (`--changed-since <ref>`, `--staged`): the whole project
+ * is still scanned, but only findings that touch the change are reported —
+ * those declared in or referenced from a changed file, and those a removed
+ * line used (e.g. an import dropped from a changed file that leaves an
+ * export in an untouched file unused).
+ */
+
+import { execFileSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import type { ApiRoute, Config, ScanResult } from './types.js';
+import { collectFindings, filterFindings, type Finding } from './findings.js';
+import { buildHttpClientPatterns, extractApiReferences } from './patterns.js';
+import { isRouteReferenced } from './scanner.js';
+import { escapeRegExp } from './utils.js';
+
+export interface GitChanges {
+  /** Absolute paths of added, modified and deleted files */
+  files: Set<string>;
+  /** Lines removed by the changes, joined with newlines, by absolute file path */
+  removed: Map<string, string>;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Import specifiers: `from 'x'`, `import 'x'`, `import('x')`, `require('x')` */
+const SPECIFIER = /(?:\bfrom|\bimport|\brequire\s*\()\s*\(?\s*['"]([^'"]+)['"]/g;
+
+/** Script extensions an import may leave out */
+const SCRIPT_EXTENSION = /\.(?:[cm]?[jt]sx?|json)$/;
+
+/** Rules whose symbol is a package name, used by name from any file */
+const PACKAGE_RULES = new Set(['unused-dependency', 'unlisted-dependency']);
+
+/** Rules whose symbol is a full asset or page path */
+const PATH_RULES = new Set(['missing-asset', 'broken-link', 'unused-public-asset']);
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 512 * 1024 * 1024,
+    });
+  } catch (err) {
+    const stderr = String((err as { stderr?: unknown }).stderr ?? '').trim();
+    throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`, { cause: err });
+  }
+}
+
+/**
+ * Ask git what changed. With `staged`, that's the index against HEAD.
+ * Otherwise it's everything since the merge base of `since` and HEAD,
+ * including uncommitted and untracked files.
+ */
+export function getGitChanges(cwd: string, options: { since?: string; staged?: boolean }): GitChanges {
+  const root = git(cwd, ['rev-parse', '--show-toplevel']).trim();
+
+  const diffArgs = ['--no-renames', '--no-ext-diff', '--no-color'];
+  if (options.staged) {
+    diffArgs.push('--cached');
+  } else if (options.since) {
+    diffArgs.push(git(root, ['merge-base', options.since, 'HEAD']).trim());
+  } else {
+    throw new Error('Either a git ref or staged mode is required');
+  }
+
+  const names = git(root, ['diff', '--name-only', '-z', ...diffArgs]).split('\0');
+  if (!options.staged) {
+    names.push(...git(root, ['ls-files', '--others', '--exclude-standard', '-z']).split('\0'));
+  }
+  const files = new Set(names.filter(Boolean).map(name => resolve(root, name)));
+
+  // Removed lines by file: `--- a/<path>` in the header after `diff --git`
+  // names it (`/dev/null` for new files, whose `+++ b/<path>` is used
+  // instead). Prefixes are passed explicitly, since diff.noprefix and
+  // diff.mnemonicPrefix change them, and only header lines are read as paths:
+  // a removed `-- comment` line also starts with `--- `.
+  const removed = new Map<string, string>();
+  let file: string | undefined;
+  let oldPath: string | undefined;
+  let inHeader = false;
+  for (const line of git(root, ['diff', '-U0', '--src-prefix=a/', '--dst-prefix=b/', ...diffArgs]).split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+      file = undefined;
+      oldPath = undefined;
+    } else if (inHeader && line.startsWith('--- ')) {
+      oldPath = line === '--- /dev/null' ? undefined : line.slice('--- a/'.length);
+    } else if (inHeader && line.startsWith('+++ ')) {
+      file = resolve(root, oldPath ?? line.slice('+++ b/'.length));
+    } else if (line.startsWith('@@')) {
+      inHeader = false;
+    } else if (!inHeader && line.startsWith('-') && file) {
+      const text = removed.get(file);
+      removed.set(file, text === undefined ? line.slice(1) : `${text}\n${line.slice(1)}`);
+    }
+  }
+
+  return { files, removed };
+}
+
+/** An import path without the extension or `/index` it may leave out */
+function modulePath(path: string): string {
+  return path.replace(SCRIPT_EXTENSION, '').replace(/\/index$/, '');
+}
+
+/**
+ * Whether a specifier written in `fromFile` may load `file`: relative ones
+ * are resolved, aliases and packages (`@/lib/utils`) compared by their last segment
+ */
+function mayImport(fromFile: string, specifier: string, file: string): boolean {
+  const target = modulePath(file);
+  if (specifier.startsWith('.')) return modulePath(resolve(dirname(fromFile), specifier)) === target;
+  return basename(modulePath(specifier)) === basename(target);
+}
+
+/**
+ * Hide findings unrelated to the changes. Mutates the result in place and
+ * returns how many findings were hidden.
+ *
+ * A removed line only counts for findings it could have used: an export,
+ * file or method named on it when its file imports (or imported) the
+ * declaring file, a route whose full path a request on it matches, and
+ * packages, asset and page paths named on it.
+ */
+export function applyChangedFilter(result: ScanResult, config: Config, changes: GitChanges): number {
+  const removedTexts = [...changes.removed.values()];
+
+  // Import specifiers of each file with removed lines, current and removed
+  const specifiers = new Map<string, string[]>();
+  for (const [file, text] of changes.removed) {
+    let content = text;
+    try {
+      content += `\n${readFileSync(file, 'utf-8')}`;
+    } catch {
+      // Deleted file
+    }
+    specifiers.set(file, [...content.matchAll(SPECIFIER)].map(match => match[1]));
+  }
+
+  // Routes requested on removed lines, and tRPC procedures reached by a
+  // removed member chain through their router path (`.user.getById`), by
+  // the keys of their findings
+  const httpClientPatterns = buildHttpClientPatterns(config.httpClients ?? []);
+  const removedReferences = removedTexts.flatMap(text => extractApiReferences(text, httpClientPatterns));
+  const removedRoutes: ApiRoute[] = [];
+  for (const route of result.routes) {
+    if (route.type !== 'trpc') {
+      if (isRouteReferenced(route, removedReferences, config)) removedRoutes.push(route);
+      continue;
+    }
+    const routerPath = route.path.split('.').slice(1).map(segment => `.${segment}`).join('');
+    const procedures = route.unusedMethods.filter(procedure => removedTexts.some(text => text.includes(`${routerPath}.${procedure}`)));
+    if (procedures.length > 0) removedRoutes.push({ ...route, unusedMethods: procedures });
+  }
+  const removedRouteKeys = new Set(collectFindings({ total: 0, used: 0, unused: 0, routes: removedRoutes }, config).map(f => f.key));
+
+  const named = (text: string, symbol: string) => IDENTIFIER.test(symbol)
+    ? new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`).test(text)
+    : text.includes(symbol);
+
+  const usedOnRemovedLine = (finding: Finding): boolean => {
+    if (finding.rule === 'unused-route') return removedRouteKeys.has(finding.key);
+    if (!finding.symbol) return false;
+    if (finding.rule === 'undocumented-route' || finding.rule === 'openapi-missing-handler') return false;
+    if (PACKAGE_RULES.has(finding.rule) || PATH_RULES.has(finding.rule)) {
+      return removedTexts.some(text => named(text, finding.symbol!));
+    }
+    for (const [file, text] of changes.removed) {
+      if (!named(text, finding.symbol)) continue;
+      if (specifiers.get(file)!.some(specifier => mayImport(file, specifier, finding.file))) return true;
+    }
+    return false;
+  };
+
+  return filterFindings(result, config, finding => {
+    if (changes.files.has(finding.file)) return true;
+    if (finding.related?.some(file => changes.files.has(file))) return true;
+    return usedOnRemovedLine(finding);
+  });
+}
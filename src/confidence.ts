@@ -0,0 +1,107 @@
+/**
+ * Confidence scoring: how safe it is to delete each finding. Scanners record
+ * the reasons a verdict might be wrong (or is confirmed) on the items they
+ * return, and `applyConfidence()` turns those reasons into a level once the
+ * scan is complete. `--min-confidence` hides findings below a level.
+ */
+
+import { isAbsolute, join } from 'node:path';
+import type { ApiRoute, Confidence, Config, ScanResult } from './types.js';
+import { GENERIC_METHOD_NAMES } from './constants.js';
+
+export const CONFIDENCE_LEVELS: Confidence[] = ['low', 'medium', 'high'];
+
+/** Items that carry a confidence level */
+export interface ConfidenceScored {
+  confidence?: Confidence;
+  confidenceReasons?: string[];
+}
+
+/** Every reason and how many levels it moves the confidence (starting from high) */
+export const CONFIDENCE_REASONS = {
+  firstMethodKept: { text: 'The path is called with another method; the first handler was kept as used', weight: -2 },
+  templateReference: { text: 'Only a template literal with a dynamic part could reach this path', weight: -1 },
+  genericName: { text: 'Generic method name that collides with ORM calls', weight: -1 },
+  dynamicImport: { text: 'A dynamic import() with a variable path may load files in this folder', weight: -2 },
+  keptByIgnoredFile: { text: 'The file is only reachable through a file in ignore.files', weight: -1 },
+  ranInTests: { text: 'Ran during the tests', weight: -2 },
+  neverRan: { text: 'Never ran during the tests', weight: 1 },
+} satisfies Record<string, { text: string; weight: number }>;
+
+export type ConfidenceReason = keyof typeof CONFIDENCE_REASONS;
+
+const WEIGHTS = new Map<string, number>(Object.values(CONFIDENCE_REASONS).map(r => [r.text, r.weight]));
+
+/** Record a reason on an item (once) */
+export function addConfidenceReason(item: ConfidenceScored, reason: ConfidenceReason): void {
+  const text = CONFIDENCE_REASONS[reason].text;
+  item.confidenceReasons ??= [];
+  if (!item.confidenceReasons.includes(text)) item.confidenceReasons.push(text);
+}
+
+/** Level for a set of reasons: high, lowered (or raised back) by each reason's weight */
+export function scoreConfidence(reasons: string[] = []): Confidence {
+  const score = reasons.reduce((sum, reason) => sum + (WEIGHTS.get(reason) ?? 0), CONFIDENCE_LEVELS.length - 1);
+  return CONFIDENCE_LEVELS[Math.max(0, Math.min(CONFIDENCE_LEVELS.length - 1, score))];
+}
+
+/** Whether `level` is at least `min` (items without a level always pass) */
+export function meetsConfidence(level: Confidence | undefined, min: Confidence): boolean {
+  return level === undefined || CONFIDENCE_LEVELS.indexOf(level) >= CONFIDENCE_LEVELS.indexOf(min);
+}
+
+export function isConfidence(value: string): value is Confidence {
+  return (CONFIDENCE_LEVELS as string[]).includes(value);
+}
+
+function coverageReason(item: ConfidenceScored, covered: boolean | undefined): void {
+  if (covered !== undefined) addConfidenceReason(item, covered ? 'ranInTests' : 'neverRan');
+}
+
+/**
+ * Confidence of one unused route handler: the route's reasons, with test
+ * coverage taken from that handler alone
+ */
+export function handlerConfidence(route: ApiRoute, method: string): Pick<ConfidenceScored, 'confidence' | 'confidenceReasons'> {
+  if (!route.confidence) return {};
+  const coverageTexts = [CONFIDENCE_REASONS.ranInTests.text, CONFIDENCE_REASONS.neverRan.text];
+  const handler: ConfidenceScored = { confidenceReasons: (route.confidenceReasons ?? []).filter(r => !coverageTexts.includes(r)) };
+  coverageReason(handler, route.methodCoverage?.[method]);
+  return { confidence: scoreConfidence(handler.confidenceReasons), confidenceReasons: handler.confidenceReasons };
+}
+
+/**
+ * Add the reasons that only depend on the finished result (names, coverage,
+ * files kept alive by `ignore.files`) and set `confidence` on every unused
+ * route, export, file and service method.
+ */
+export function applyConfidence(result: ScanResult, config: Config): void {
+  const keptByIgnored = new Set(result.unusedFiles?.keptByIgnoredFiles ?? []);
+  const inKeptFile = (file: string) => keptByIgnored.has(isAbsolute(file) ? file : join(config.dir, file));
+
+  for (const route of result.routes) {
+    if (route.type === 'trpc' || (route.used && route.unusedMethods.length === 0)) continue;
+    const unusedMethods = route.used ? route.unusedMethods : route.methods;
+    const coverage = unusedMethods.map(m => route.methodCoverage?.[m]).filter((c): c is boolean => c !== undefined);
+    if (coverage.length > 0) coverageReason(route, coverage.some(Boolean));
+    route.confidence = scoreConfidence(route.confidenceReasons);
+  }
+
+  for (const exp of result.unusedExports?.exports ?? []) {
+    if (GENERIC_METHOD_NAMES.has(exp.name)) addConfidenceReason(exp, 'genericName');
+    if (inKeptFile(exp.file)) addConfidenceReason(exp, 'keptByIgnoredFile');
+    coverageReason(exp, exp.covered);
+    exp.confidence = scoreConfidence(exp.confidenceReasons);
+  }
+
+  for (const method of result.unusedServices?.methods ?? []) {
+    if (GENERIC_METHOD_NAMES.has(method.name)) addConfidenceReason(method, 'genericName');
+    if (inKeptFile(method.file)) addConfidenceReason(method, 'keptByIgnoredFile');
+    coverageReason(method, method.covered);
+    method.confidence = scoreConfidence(method.confidenceReasons);
+  }
+
+  for (const file of result.unusedFiles?.files ?? []) {
+    file.confidence = scoreConfidence(file.confidenceReasons);
+  }
+}
@@ -1,7 +1,7 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { join, resolve, relative, dirname } from 'node:path';
 import fg from 'fast-glob';
-import type { Config, IgnoreConfig } from './types.js';
+import type { Config, HttpClientConfig, IgnoreConfig, OpenApiConfig } from './types.js';
 
 export const DEFAULT_CONFIG: Config = {
   dir: './',
@@ -27,13 +27,15 @@ export const DEFAULT_CONFIG: Config = {
     ],
     files: [],
     links: [],
+    cycles: [],
+    dependencies: [],
   },
   extensions: ['.ts', '.tsx', '.js', '.jsx'],
   nestGlobalPrefix: '',
   extraRoutePatterns: [],
 };
 
-interface CLIOptions {
+export interface CLIOptions {
   dir?: string;
   config?: string;
   excludePublic?: boolean;
@@ -65,17 +67,22 @@ export function loadConfig(options: CLIOptions): Config {
   }
 
   // 2. Merge all found configs
-  const mergedIgnore: IgnoreConfig = {
+  const mergedIgnore: Required<IgnoreConfig> = {
     routes: [...(DEFAULT_CONFIG.ignore.routes || [])],
     folders: [...(DEFAULT_CONFIG.ignore.folders || [])],
     files: [...(DEFAULT_CONFIG.ignore.files || [])],
     links: [...(DEFAULT_CONFIG.ignore.links || [])],
+    cycles: [...(DEFAULT_CONFIG.ignore.cycles || [])],
+    dependencies: [...(DEFAULT_CONFIG.ignore.dependencies || [])],
   };
   
   let mergedExtensions = [...DEFAULT_CONFIG.extensions];
   let nestGlobalPrefix = DEFAULT_CONFIG.nestGlobalPrefix;
   const extraRoutePatterns = [...(DEFAULT_CONFIG.extraRoutePatterns || [])];
+  const httpClients: HttpClientConfig[] = [];
+  let openapi: OpenApiConfig | undefined;
   let excludePublic = options.excludePublic ?? false;
+  let cache: boolean | undefined;
 
   for (const configPath of configFiles) {
     try {
@@ -95,11 +102,22 @@ export function loadConfig(options: CLIOptions): Config {
       if (config.ignore?.folders) mergedIgnore.folders.push(...config.ignore.folders.map(prefixPattern));
       if (config.ignore?.files) mergedIgnore.files.push(...config.ignore.files.map(prefixPattern));
       if (config.ignore?.links) mergedIgnore.links.push(...config.ignore.links);
+      if (config.ignore?.cycles) mergedIgnore.cycles.push(...config.ignore.cycles.map(prefixPattern));
+      if (config.ignore?.dependencies) mergedIgnore.dependencies.push(...config.ignore.dependencies);
       
       if (config.extensions) mergedExtensions = [...new Set([...mergedExtensions, ...config.extensions])];
       if (config.nestGlobalPrefix) nestGlobalPrefix = config.nestGlobalPrefix;
       if (config.extraRoutePatterns) extraRoutePatterns.push(...config.extraRoutePatterns);
+      if (Array.isArray(config.httpClients)) httpClients.push(...config.httpClients);
+      if (Array.isArray(config.openapi?.specs)) {
+        // Specs are files next to the config that lists them
+        openapi = {
+          specs: [...(openapi?.specs ?? []), ...config.openapi.specs.map(spec => resolve(configDir, spec))],
+          mode: config.openapi.mode ?? openapi?.mode,
+        };
+      }
       if (config.excludePublic !== undefined) excludePublic = config.excludePublic;
+      if (config.cache !== undefined) cache = config.cache;
     } catch {
       // Ignore parse errors
     }
@@ -117,6 +135,8 @@ export function loadConfig(options: CLIOptions): Config {
   mergedIgnore.folders = [...new Set(mergedIgnore.folders)];
   mergedIgnore.files = [...new Set(mergedIgnore.files)];
   mergedIgnore.links = [...new Set(mergedIgnore.links)];
+  mergedIgnore.cycles = [...new Set(mergedIgnore.cycles)];
+  mergedIgnore.dependencies = [...new Set(mergedIgnore.dependencies)];
 
   return {
     dir: cwd,
@@ -125,6 +145,9 @@ export function loadConfig(options: CLIOptions): Config {
     excludePublic,
     nestGlobalPrefix,
     extraRoutePatterns,
+    ...(httpClients.length > 0 ? { httpClients } : {}),
+    ...(openapi ? { openapi } : {}),
+    ...(cache !== undefined ? { cache } : {}),
   };
 }
 
@@ -68,6 +68,11 @@ export const GENERIC_METHOD_NAMES = new Set([
   'update', 'create', 'delete', 'remove', 'find', 'findOne', 'findAll', 'save', 'count'
 ]);
 
+/** Dependencies loaded by the compiler, the JSX runtime or the framework without an import */
+export const IMPLICIT_DEPENDENCIES = new Set([
+  'typescript', 'react', 'react-dom', 'tslib',
+]);
+
 /** Default glob ignore patterns for scanning */
 export const DEFAULT_IGNORE = [
   '**/node_modules/**', '**/dist/**', '**/build/**', '**/coverage/**',
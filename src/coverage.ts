@@ -0,0 +1,224 @@
+/**
+ * Test coverage (`--coverage <lcov.info|coverage-final.json>`): findings are
+ * annotated with whether their code ran during the test suite. Dead code
+ * that also never ran is the safest to delete; code that ran is called by
+ * something static analysis missed (or only by tests).
+ */
+
+import { readFileSync } from 'node:fs';
+import { isAbsolute, join, relative } from 'node:path';
+import type { Config, ScanResult, UnexecutedExport } from './types.js';
+import { DEFAULT_IGNORE } from './constants.js';
+import { getFileIndex } from './file-index.js';
+import { escapeRegExp, report, resolveFilePath } from './utils.js';
+
+export interface FunctionCoverage {
+  name: string;
+  /** 1-based line of the declaration */
+  line: number;
+  hits: number;
+}
+
+export interface FileCoverage {
+  functions: FunctionCoverage[];
+  /** Execution count per 1-based line */
+  lines: Record<number, number>;
+}
+
+/** Coverage per source file, keyed by the path as written in the report (forward slashes) */
+export type CoverageData = Map<string, FileCoverage>;
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function fileEntry(data: CoverageData, path: string): FileCoverage {
+  const key = normalizePath(path);
+  let entry = data.get(key);
+  if (!entry) {
+    entry = { functions: [], lines: {} };
+    data.set(key, entry);
+  }
+  return entry;
+}
+
+/** lcov tracefile (`SF:`, `FN:`, `FNDA:`, `DA:` records; `end_of_record` ends a file) */
+export function parseLcov(content: string): CoverageData {
+  const data: CoverageData = new Map();
+  let current: FileCoverage | undefined;
+  let fnLines = new Map<string, number>();
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    const colon = line.indexOf(':');
+    const tag = colon === -1 ? line : line.slice(0, colon);
+    const value = line.slice(colon + 1);
+
+    if (tag === 'SF') {
+      current = fileEntry(data, value);
+      fnLines = new Map();
+    } else if (tag === 'end_of_record') {
+      current = undefined;
+    } else if (!current) {
+      continue;
+    } else if (tag === 'FN') {
+      // FN:<line>,<name> or FN:<start>,<end>,<name>
+      const parts = value.split(',');
+      fnLines.set(parts[parts.length - 1], parseInt(parts[0], 10));
+    } else if (tag === 'FNDA') {
+      const comma = value.indexOf(',');
+      const name = value.slice(comma + 1);
+      const hits = parseInt(value.slice(0, comma), 10);
+      const fnLine = fnLines.get(name);
+      if (fnLine !== undefined && !Number.isNaN(hits)) current.functions.push({ name, line: fnLine, hits });
+    } else if (tag === 'DA') {
+      const [lineNo, hits] = value.split(',').map(n => parseInt(n, 10));
+      if (!Number.isNaN(lineNo) && !Number.isNaN(hits)) current.lines[lineNo] = Math.max(current.lines[lineNo] ?? 0, hits);
+    }
+  }
+  return data;
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  fnMap?: Record<string, { name: string; decl?: { start: { line: number } }; loc?: { start: { line: number } } }>;
+  f?: Record<string, number>;
+  statementMap?: Record<string, { start: { line: number } }>;
+  s?: Record<string, number>;
+}
+
+/** Istanbul / nyc / Jest / Vitest `coverage-final.json` */
+export function parseIstanbulJson(content: string): CoverageData {
+  const data: CoverageData = new Map();
+  const files = JSON.parse(content) as Record<string, IstanbulFileCoverage>;
+
+  for (const [key, file] of Object.entries(files)) {
+    if (!file || typeof file !== 'object') continue;
+    const entry = fileEntry(data, file.path ?? key);
+    for (const [id, fn] of Object.entries(file.fnMap ?? {})) {
+      const line = fn.decl?.start.line ?? fn.loc?.start.line;
+      if (line !== undefined) entry.functions.push({ name: fn.name, line, hits: file.f?.[id] ?? 0 });
+    }
+    for (const [id, statement] of Object.entries(file.statementMap ?? {})) {
+      const line = statement.start.line;
+      entry.lines[line] = Math.max(entry.lines[line] ?? 0, file.s?.[id] ?? 0);
+    }
+  }
+  return data;
+}
+
+/** Parse a coverage report, detecting Istanbul JSON or lcov from its content */
+export function parseCoverage(content: string): CoverageData {
+  return /^\s*\{/.test(content) ? parseIstanbulJson(content) : parseLcov(content);
+}
+
+/** Coverage from `config.coverage.file`, or undefined (reported) when it can't be read */
+export function loadCoverage(config: Config): CoverageData | undefined {
+  if (!config.coverage) return undefined;
+  try {
+    const data = parseCoverage(readFileSync(config.coverage.file, 'utf-8'));
+    report(config, `   🧪 Coverage for ${data.size} files\n`);
+    return data;
+  } catch {
+    report(config, `   ⚠️  Could not read coverage report ${config.coverage.file}\n`);
+    return undefined;
+  }
+}
+
+/**
+ * Coverage of an absolute file. Reports written with relative paths are
+ * matched on the path's tail, since they are relative to wherever the test
+ * runner was started.
+ */
+export function findFileCoverage(data: CoverageData, absFile: string): FileCoverage | undefined {
+  const target = normalizePath(absFile);
+  const exact = data.get(target);
+  if (exact) return exact;
+  for (const [path, entry] of data) {
+    if (!isAbsolute(path) && target.endsWith(`/${path}`)) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Whether the function `name` declared at `line` ran. Falls back to the
+ * function declared on that line, then to the line's own count. Undefined
+ * when the report has nothing for it.
+ */
+export function wasExecuted(file: FileCoverage | undefined, name: string, line?: number): boolean | undefined {
+  if (!file) return undefined;
+  const named = file.functions.filter(fn => fn.name === name);
+  const fn = named.find(f => f.line === line) ?? (named.length > 0 ? named.reduce((a, b) => (b.hits > a.hits ? b : a)) : undefined)
+    ?? file.functions.find(f => line !== undefined && f.line === line);
+  if (fn) return fn.hits > 0;
+  if (line !== undefined && file.lines[line] !== undefined) return file.lines[line] > 0;
+  return undefined;
+}
+
+/**
+ * Record on unused exports, service methods and route handlers whether they
+ * ran during the tests (`covered`, `methodCoverage`).
+ */
+export function applyCoverage(result: ScanResult, config: Config, data: CoverageData): void {
+  const forFile = (file: string) => findFileCoverage(data, isAbsolute(file) ? file : join(config.dir, file));
+
+  for (const route of result.routes) {
+    if (route.type === 'trpc') continue;
+    const file = findFileCoverage(data, resolveFilePath(route.filePath, config));
+    const methodCoverage: { [method: string]: boolean } = {};
+    for (const method of route.methods) {
+      const covered = wasExecuted(file, route.methodNames?.[method] ?? method, route.methodLines[method]);
+      if (covered !== undefined) methodCoverage[method] = covered;
+    }
+    if (Object.keys(methodCoverage).length > 0) route.methodCoverage = methodCoverage;
+  }
+
+  for (const exp of result.unusedExports?.exports ?? []) {
+    exp.covered = wasExecuted(forFile(exp.file), exp.name, exp.line);
+  }
+  for (const method of result.unusedServices?.methods ?? []) {
+    method.covered = wasExecuted(forFile(method.file), method.name, method.line);
+  }
+}
+
+/** `export function name`, `export const name =`, `export { name }` (default exports are entry points, not imports) */
+function isNamedExport(code: string, name: string): boolean {
+  const id = escapeRegExp(name);
+  return new RegExp(`^\\s*export\\s+(?:async\\s+)?(?:function\\s*\\*?\\s*|(?:const|let|var)\\s+)${id}\\b`, 'm').test(code)
+    || new RegExp(`\\bexport\\s*\\{[^}]*(?<![\\w$])${id}(?![\\w$])`).test(code);
+}
+
+/**
+ * Exported functions that are imported somewhere (not in `unusedExports`)
+ * but never ran during the tests. Only files the report covers are checked;
+ * route handler files are left to the route annotations.
+ */
+export async function findUnexecutedExports(config: Config, data: CoverageData, result: ScanResult): Promise<UnexecutedExport[]> {
+  const fileIndex = getFileIndex(config);
+  const cwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  const files = await fileIndex.glob(`**/*{${config.extensions.join(',')}}`, {
+    cwd,
+    ignore: [...DEFAULT_IGNORE, ...config.ignore.files],
+    absolute: true,
+  });
+  const unused = new Set((result.unusedExports?.exports ?? []).map(exp => `${isAbsolute(exp.file) ? exp.file : join(config.dir, exp.file)}:${exp.name}`));
+  const routeFiles = new Set(result.routes.map(route => resolveFilePath(route.filePath, config)));
+
+  const unexecuted: UnexecutedExport[] = [];
+  for (const file of files) {
+    const coverage = routeFiles.has(file) ? undefined : findFileCoverage(data, file);
+    if (!coverage) continue;
+    const neverRan = coverage.functions.filter(fn => fn.hits === 0 && /^[A-Za-z_$][\w$]*$/.test(fn.name));
+    if (neverRan.length === 0) continue;
+    try {
+      const code = fileIndex.readStripped(file);
+      for (const fn of neverRan) {
+        if (unused.has(`${file}:${fn.name}`) || !isNamedExport(code, fn.name)) continue;
+        unexecuted.push({ name: fn.name, file: relative(config.dir, file), line: fn.line });
+      }
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  return unexecuted;
+}
@@ -0,0 +1,105 @@
+/**
+ * Export declarations of one source file: `export const|function|class ...`,
+ * `export { a, b as c }` and, in service-like files, class methods that no
+ * framework decorator manages. Kept out of the scanner so the worker threads
+ * (`workers/file-processor.ts`, bundled on their own) run the same code.
+ */
+
+import {
+  IGNORED_EXPORT_NAMES, FRAMEWORK_METHOD_DECORATORS, NEST_LIFECYCLE_METHODS,
+  JS_KEYWORDS, CLASS_METHOD_REGEX, INLINE_EXPORT_REGEX, BLOCK_EXPORT_REGEX,
+  isServiceLikeFile,
+} from './constants.js';
+
+/** Cache kind for extracted exports; service-like files also yield class methods */
+export function exportsCacheKind(file: string): string {
+  return isServiceLikeFile(file) ? 'exports:service' : 'exports';
+}
+
+/**
+ * Find the exports declared in one file (plus class methods for service-like
+ * files). Used by the unused-exports scanner and its worker threads alike,
+ * which share the cache entries.
+ */
+export function extractExports(content: string, file: string): { name: string; line: number }[] {
+  const found: { name: string; line: number }[] = [];
+  const add = (name: string, line: number) => {
+    if (name && !IGNORED_EXPORT_NAMES.has(name)) found.push({ name, line });
+  };
+
+  // Patterns to find exports (fresh instances since RegExp with /g is stateful)
+  const inlineExportRegex = new RegExp(INLINE_EXPORT_REGEX.source, INLINE_EXPORT_REGEX.flags);
+  const blockExportRegex = new RegExp(BLOCK_EXPORT_REGEX.source, BLOCK_EXPORT_REGEX.flags);
+
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // 1. Regular exports
+    inlineExportRegex.lastIndex = 0;
+    let match;
+    while ((match = inlineExportRegex.exec(line)) !== null) {
+      add(match[1], i + 1);
+    }
+
+    blockExportRegex.lastIndex = 0;
+    while ((match = blockExportRegex.exec(line)) !== null) {
+      const names = match[1].split(',').map((n: string) => {
+         const parts = n.trim().split(/\s+as\s+/);
+         return parts[parts.length - 1];
+      });
+      for (const name of names) {
+        add(name, i + 1);
+      }
+    }
+
+  } // End of line-by-line loop
+
+  // 2. Class methods in services (Cascading fix)
+  if (isServiceLikeFile(file)) {
+    const classMethodRegex = new RegExp(CLASS_METHOD_REGEX.source, CLASS_METHOD_REGEX.flags);
+    let match;
+    while ((match = classMethodRegex.exec(content)) !== null) {
+      const name = match[1];
+      if (name && !NEST_LIFECYCLE_METHODS.has(name) && !IGNORED_EXPORT_NAMES.has(name) && !JS_KEYWORDS.has(name)) {
+        // Calculate line number from the NAME index, not the match start (to avoid including preceding newlines)
+        const nameIndex = match.index + match[0].indexOf(name);
+        const lineNum = content.substring(0, nameIndex).split('\n').length;
+
+        if (process.env.DEBUG_PRUNY) {
+          console.log(`[DEBUG] Found candidate method: ${name} in ${file} at line ${lineNum}`);
+        }
+
+        // Framework awareness: Check for decorators that imply framework usage
+        let isFrameworkManaged = false;
+        for (let k = 1; k <= 15; k++) {
+          if (lineNum - 1 - k >= 0) {
+            const prevLine = lines[lineNum - 1 - k].trim();
+            if (prevLine.startsWith('@') && Array.from(FRAMEWORK_METHOD_DECORATORS).some(d => prevLine.startsWith(d))) {
+              isFrameworkManaged = true;
+              if (process.env.DEBUG_PRUNY) {
+                console.log(`[DEBUG] Method ${name} is framework managed by ${prevLine}`);
+              }
+              break;
+            }
+            if (prevLine.startsWith('export class') || prevLine.includes(' constructor(') || (prevLine.includes(') {') && !prevLine.startsWith('@') && !prevLine.endsWith(')'))) {
+              break;
+            }
+          }
+        }
+
+        if (isFrameworkManaged) continue;
+
+        if (!found.some(e => e.name === name)) {
+          add(name, lineNum);
+          if (process.env.DEBUG_PRUNY) {
+            console.log(`[DEBUG] Added unused candidate: ${name}`);
+          }
+        }
+      }
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,172 @@
+/**
+ * Shared file index for one scan run. Every scanner needs the same source
+ * files, so each root is globbed once (honoring `ignore.folders`) and each
+ * file is read once; scanners then filter the cached listing with their own
+ * patterns and ignores instead of walking and reading the disk again.
+ * Per-file extraction results are also persisted across runs (see cache.ts)
+ * unless `config.cache` is false.
+ */
+
+import fg from 'fast-glob';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Minimatch } from 'minimatch';
+import type { Config } from './types.js';
+import { stripComments } from './utils.js';
+import { openExtractionCache } from './cache.js';
+
+export interface FileGlobOptions {
+  /** Root to list files under (the listing is cached per root) */
+  cwd: string;
+  /** Extra ignore patterns, on top of `ignore.folders` */
+  ignore?: string[];
+  /** Let `*` and `**` match dot files and folders (default false, like fast-glob) */
+  dot?: boolean;
+  /** Return absolute paths instead of paths relative to `cwd` */
+  absolute?: boolean;
+  /** Also list these extensions when `config.extensions` lacks them (each is globbed once per root) */
+  extensions?: string[];
+}
+
+/**
+ * Create an index for one scan run. Listings and contents are never
+ * invalidated, so create a new index after files change (e.g. after --fix).
+ */
+export function createFileIndex(config: Config) {
+  const cache = config.cache === false
+    ? undefined
+    : openExtractionCache(config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir);
+  const listings = new Map<string, Promise<string[]>>();
+  const contents = new Map<string, string>();
+  const stripped = new Map<string, string>();
+  const matchers = new Map<string, Minimatch>();
+
+  const matcher = (pattern: string, dot: boolean) => {
+    const key = `${dot}:${pattern}`;
+    let compiled = matchers.get(key);
+    if (!compiled) {
+      compiled = new Minimatch(pattern, { dot });
+      matchers.set(key, compiled);
+    }
+    return compiled;
+  };
+
+  const list = (cwd: string, extensions = config.extensions) => {
+    const key = `${extensions.join(',')}:${cwd}`;
+    let listing = listings.get(key);
+    if (!listing) {
+      // A brace list of one isn't expanded
+      const pattern = extensions.length === 1 ? `**/*${extensions[0]}` : `**/*{${extensions.join(',')}}`;
+      listing = fg(pattern, {
+        cwd,
+        ignore: config.ignore.folders,
+        dot: true,
+      });
+      listings.set(key, listing);
+    }
+    return listing;
+  };
+
+  return {
+    /** The persistent extraction cache, when enabled */
+    cache,
+
+    /**
+     * Source files under `options.cwd` matching any of `patterns`.
+     * Only files with one of `config.extensions` (or `options.extensions`)
+     * are indexed.
+     */
+    async glob(patterns: string | string[], options: FileGlobOptions): Promise<string[]> {
+      const include = (Array.isArray(patterns) ? patterns : [patterns]).map(p => matcher(p, options.dot ?? false));
+      const ignore = (options.ignore ?? []).map(p => matcher(p, true));
+
+      // Like fast-glob, an ignored directory hides everything below it
+      const ignoredDirs = new Map<string, boolean>();
+      const isIgnoredDir = (dir: string): boolean => {
+        let ignored = ignoredDirs.get(dir);
+        if (ignored === undefined) {
+          const slash = dir.lastIndexOf('/');
+          ignored = (slash !== -1 && isIgnoredDir(dir.slice(0, slash))) || ignore.some(m => m.match(dir));
+          ignoredDirs.set(dir, ignored);
+        }
+        return ignored;
+      };
+      const isIgnored = (file: string) => {
+        if (ignore.length === 0) return false;
+        const slash = file.lastIndexOf('/');
+        return (slash !== -1 && isIgnoredDir(file.slice(0, slash))) || ignore.some(m => m.match(file));
+      };
+
+      const extra = (options.extensions ?? []).filter(ext => !config.extensions.includes(ext));
+      const listed = (await Promise.all([list(options.cwd), ...extra.map(ext => list(options.cwd, [ext]))])).flat();
+      const files = listed.filter(file =>
+        include.some(m => m.match(file)) && !isIgnored(file)
+      );
+      return options.absolute ? files.map(f => resolve(options.cwd, f)) : files;
+    },
+
+    /** Raw file content. Throws like readFileSync if the file can't be read. */
+    read(file: string): string {
+      const absFile = resolve(file);
+      let content = contents.get(absFile);
+      if (content === undefined) {
+        content = readFileSync(absFile, 'utf-8');
+        contents.set(absFile, content);
+      }
+      return content;
+    },
+
+    /** File content with comments removed (see stripComments) */
+    readStripped(file: string): string {
+      const absFile = resolve(file);
+      let content = stripped.get(absFile);
+      if (content === undefined) {
+        content = stripComments(this.read(absFile));
+        stripped.set(absFile, content);
+      }
+      return content;
+    },
+
+    /** Content already read in this run, without touching the disk */
+    cached(file: string): string | undefined {
+      return contents.get(resolve(file));
+    },
+
+    /** Record content read elsewhere (e.g. by a worker thread) */
+    remember(file: string, content: string) {
+      contents.set(resolve(file), content);
+    },
+
+    /**
+     * Run a per-file extraction, or reuse its result from a previous run when
+     * the file content is unchanged. `kind` names the extraction (and anything
+     * else its result depends on). Results must be JSON-serializable.
+     */
+    extract<T>(kind: string, file: string, extractor: (content: string) => T, options: { stripped?: boolean } = {}): T {
+      const content = this.read(file);
+      const input = () => options.stripped ? this.readStripped(file) : content;
+      if (!cache) return extractor(input());
+
+      const cached = cache.get<T>(kind, content);
+      if (cached !== undefined) return cached;
+      const value = extractor(input());
+      cache.set(kind, content, value);
+      return value;
+    },
+
+    /** Persist new extraction results (no-op when the cache is disabled) */
+    save() {
+      cache?.save();
+    },
+  };
+}
+
+export type FileIndex = ReturnType<typeof createFileIndex>;
+
+/**
+ * The index shared by the current scan run, or a fresh one when a scanner is
+ * called on its own.
+ */
+export function getFileIndex(config: Config): FileIndex {
+  return config.fileIndex ?? createFileIndex(config);
+}
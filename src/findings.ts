@@ -0,0 +1,458 @@
+/**
+ * Flattens a ScanResult into a list of individual findings (one per
+ * reportable item, with a file and line where known). Machine-readable
+ * output formats and baselines build on this instead of walking every
+ * ScanResult field themselves.
+ */
+
+import { basename, dirname, extname, isAbsolute, join, relative, sep } from 'node:path';
+import type { ApiRoute, BrokenLink, Confidence, Config, ImportCycle, MissingAsset, OpenApiOperation, PublicAsset, ScanResult, UndocumentedRoute, UnexecutedExport, UnlistedDependency, UnusedDependency, UnusedExport, UnusedFile, UnusedServerAction, UnusedServiceMethod } from './types.js';
+import { resolveFilePath } from './utils.js';
+import { handlerConfidence, type ConfidenceScored } from './confidence.js';
+
+export type FindingRule =
+  | 'unused-route'
+  | 'unused-public-asset'
+  | 'unused-file'
+  | 'unused-export'
+  | 'circular-import'
+  | 'unused-dependency'
+  | 'unlisted-dependency'
+  | 'unused-service-method'
+  | 'unused-server-action'
+  | 'missing-asset'
+  | 'broken-link'
+  | 'openapi-missing-handler'
+  | 'undocumented-route'
+  | 'unexecuted-export';
+
+export interface FindingRuleInfo {
+  id: FindingRule;
+  name: string;
+  description: string;
+  level: 'error' | 'warning' | 'note';
+}
+
+/** One rule per scanner, in report order */
+export const FINDING_RULES: FindingRuleInfo[] = [
+  { id: 'unused-route', name: 'UnusedApiRoute', description: 'API route handler is never called', level: 'warning' },
+  { id: 'unused-public-asset', name: 'UnusedPublicAsset', description: 'File in public/ is never referenced', level: 'warning' },
+  { id: 'unused-file', name: 'UnusedFile', description: 'Source file is not reachable from any entry point', level: 'warning' },
+  { id: 'unused-export', name: 'UnusedExport', description: 'Export is never imported', level: 'warning' },
+  { id: 'circular-import', name: 'CircularImport', description: 'Files import each other in a cycle', level: 'warning' },
+  { id: 'unused-dependency', name: 'UnusedDependency', description: 'package.json dependency is never imported or run', level: 'warning' },
+  { id: 'unlisted-dependency', name: 'UnlistedDependency', description: 'Imported package is missing from package.json', level: 'error' },
+  { id: 'unused-service-method', name: 'UnusedServiceMethod', description: 'NestJS service method is never called', level: 'warning' },
+  { id: 'unused-server-action', name: 'UnusedServerAction', description: 'Next.js Server Action is never bound to a form or called', level: 'warning' },
+  { id: 'missing-asset', name: 'MissingAsset', description: 'Referenced public asset does not exist', level: 'error' },
+  { id: 'broken-link', name: 'BrokenLink', description: 'Internal link points to a page that does not exist', level: 'error' },
+  { id: 'openapi-missing-handler', name: 'OpenApiMissingHandler', description: 'OpenAPI operation has no route handler', level: 'error' },
+  { id: 'undocumented-route', name: 'UndocumentedApiRoute', description: 'API route handler is not listed in the OpenAPI spec', level: 'warning' },
+  { id: 'unexecuted-export', name: 'UnexecutedExport', description: 'Export is imported but never ran during the tests', level: 'note' },
+];
+
+export interface Finding {
+  rule: FindingRule;
+  message: string;
+  /** Absolute path of the file the finding is reported in */
+  file: string;
+  /** 1-based line number, when the scanner recorded one */
+  line?: number;
+  /**
+   * Stable identity of the finding. Built from names and root-relative paths
+   * only (never line numbers), so it survives unrelated edits.
+   */
+  key: string;
+  /** What other code would mention to use it: export/method name, route or asset path */
+  symbol?: string;
+  /** Absolute paths of other files involved (files referencing a partially used route) */
+  related?: string[];
+  /** How safe the deletion is (routes, exports, files and service methods) */
+  confidence?: Confidence;
+  /** Why the confidence is below (or confirmed at) high */
+  confidenceReasons?: string[];
+}
+
+/**
+ * Collect every reportable item in a scan result as a flat list of findings.
+ * `config` must be the config the result was produced with, so relative
+ * paths can be resolved against the right root.
+ */
+export function collectFindings(result: ScanResult, config: Config): Finding[] {
+  const ctx = createContext(config);
+  const findings: Finding[] = [];
+
+  for (const route of result.routes) findings.push(...routeFindings(route, ctx));
+  if (result.publicAssets) {
+    for (const asset of result.publicAssets.assets) {
+      if (!asset.used) findings.push(publicAssetFinding(asset, ctx));
+    }
+  }
+  if (result.unusedFiles) {
+    for (const file of result.unusedFiles.files) findings.push(unusedFileFinding(file, ctx));
+  }
+  if (result.unusedExports) {
+    for (const exp of result.unusedExports.exports) findings.push(unusedExportFinding(exp, ctx));
+  }
+  if (result.circularImports) {
+    for (const cycle of result.circularImports.cycles) findings.push(circularImportFinding(cycle, ctx));
+  }
+  if (result.unusedDependencies) {
+    for (const dep of result.unusedDependencies.dependencies) findings.push(unusedDependencyFinding(dep, ctx));
+  }
+  if (result.unlistedDependencies) {
+    for (const dep of result.unlistedDependencies.dependencies) findings.push(...unlistedDependencyFindings(dep, ctx));
+  }
+  if (result.unusedServices) {
+    for (const method of result.unusedServices.methods) findings.push(serviceMethodFinding(method, ctx));
+  }
+  if (result.unusedServerActions) {
+    for (const action of result.unusedServerActions.actions) findings.push(serverActionFinding(action, ctx));
+  }
+  if (result.missingAssets) {
+    for (const asset of result.missingAssets.assets) findings.push(...missingAssetFindings(asset, ctx));
+  }
+  if (result.brokenLinks) {
+    for (const link of result.brokenLinks.links) findings.push(...brokenLinkFindings(link, ctx));
+  }
+  if (result.openapi) {
+    for (const operation of result.openapi.missingHandlers) findings.push(missingHandlerFinding(operation, ctx));
+    for (const route of result.openapi.undocumentedRoutes) findings.push(undocumentedRouteFinding(route, ctx));
+  }
+  if (result.unexecutedExports) {
+    for (const exp of result.unexecutedExports.exports) findings.push(unexecutedExportFinding(exp, ctx));
+  }
+
+  return findings;
+}
+
+/**
+ * Remove findings from a scan result in place. Items are dropped when none of
+ * their findings are kept; routes keep only their remaining unused methods.
+ * Counts are recalculated. Returns the number of findings removed.
+ */
+export function filterFindings(result: ScanResult, config: Config, keep: (finding: Finding) => boolean): number {
+  const ctx = createContext(config);
+  let removed = 0;
+  const keepAll = (findings: Finding[]) => {
+    const kept = findings.filter(keep);
+    removed += findings.length - kept.length;
+    return kept;
+  };
+
+  // 1. Routes
+  result.routes = result.routes.filter(route => {
+    const findings = routeFindings(route, ctx);
+    if (findings.length === 0) return true;
+    const kept = keepAll(findings);
+    if (kept.length === 0) {
+      // A used route only loses its unused-method findings; an unused one is hidden entirely
+      if (!route.used) return false;
+      route.unusedMethods = [];
+      return true;
+    }
+    const keptMethods = new Set(kept.map(f => f.key));
+    if (route.used) {
+      route.unusedMethods = route.unusedMethods.filter(m => keptMethods.has(routeKey(route, ctx, m)));
+    } else if (kept.length < findings.length) {
+      // Only some handlers of an unused route remain: report them as unused
+      // methods of a used route, so --fix removes those handlers, not the route
+      route.used = true;
+      route.unusedMethods = route.methods.filter(m => keptMethods.has(routeKey(route, ctx, m)));
+    }
+    return true;
+  });
+  result.total = result.routes.length;
+  result.used = result.routes.filter(r => r.used).length;
+  result.unused = result.routes.filter(r => !r.used).length;
+
+  // 2. Public assets
+  if (result.publicAssets) {
+    result.publicAssets.assets = result.publicAssets.assets.filter(a => a.used || keepAll([publicAssetFinding(a, ctx)]).length > 0);
+    result.publicAssets.total = result.publicAssets.assets.length;
+    result.publicAssets.unused = result.publicAssets.assets.filter(a => !a.used).length;
+  }
+
+  // 3. Source files
+  if (result.unusedFiles) {
+    result.unusedFiles.files = result.unusedFiles.files.filter(f => keepAll([unusedFileFinding(f, ctx)]).length > 0);
+    result.unusedFiles.unused = result.unusedFiles.files.length;
+    result.unusedFiles.total = result.unusedFiles.used + result.unusedFiles.unused;
+  }
+
+  // 4. Named exports
+  if (result.unusedExports) {
+    result.unusedExports.exports = result.unusedExports.exports.filter(e => keepAll([unusedExportFinding(e, ctx)]).length > 0);
+    result.unusedExports.unused = result.unusedExports.exports.length;
+    result.unusedExports.total = result.unusedExports.used + result.unusedExports.unused;
+  }
+
+  // 4.5 Import cycles
+  if (result.circularImports) {
+    result.circularImports.cycles = result.circularImports.cycles.filter(c => keepAll([circularImportFinding(c, ctx)]).length > 0);
+    result.circularImports.total = result.circularImports.cycles.length;
+  }
+
+  // 4.6 Dependencies — unlisted ones filter individual imports
+  if (result.unusedDependencies) {
+    result.unusedDependencies.dependencies = result.unusedDependencies.dependencies.filter(d => keepAll([unusedDependencyFinding(d, ctx)]).length > 0);
+    result.unusedDependencies.unused = result.unusedDependencies.dependencies.length;
+    result.unusedDependencies.total = result.unusedDependencies.used + result.unusedDependencies.unused;
+  }
+  if (result.unlistedDependencies) {
+    result.unlistedDependencies.dependencies = result.unlistedDependencies.dependencies.filter(dep => {
+      const findings = unlistedDependencyFindings(dep, ctx);
+      const keptKeys = new Set(keepAll(findings).map(f => f.key));
+      dep.references = dep.references.filter((_ref, i) => keptKeys.has(findings[i].key));
+      return dep.references.length > 0;
+    });
+    result.unlistedDependencies.total = result.unlistedDependencies.dependencies.length;
+  }
+
+  // 5. Service methods
+  if (result.unusedServices) {
+    result.unusedServices.methods = result.unusedServices.methods.filter(m => keepAll([serviceMethodFinding(m, ctx)]).length > 0);
+    result.unusedServices.total = result.unusedServices.methods.length;
+  }
+
+  // 5.5 Server actions
+  if (result.unusedServerActions) {
+    result.unusedServerActions.actions = result.unusedServerActions.actions.filter(a => keepAll([serverActionFinding(a, ctx)]).length > 0);
+    result.unusedServerActions.unused = result.unusedServerActions.actions.length;
+    result.unusedServerActions.total = result.unusedServerActions.used + result.unusedServerActions.unused;
+  }
+
+  // 6. Missing assets — filter individual references
+  if (result.missingAssets) {
+    result.missingAssets.assets = result.missingAssets.assets.filter(asset => {
+      const findings = missingAssetFindings(asset, ctx);
+      const keptKeys = new Set(keepAll(findings).map(f => f.key));
+      asset.references = asset.references.filter((_ref, i) => keptKeys.has(findings[i].key));
+      return asset.references.length > 0;
+    });
+    result.missingAssets.total = result.missingAssets.assets.length;
+  }
+
+  // 7. Broken links — filter individual references
+  if (result.brokenLinks) {
+    result.brokenLinks.links = result.brokenLinks.links.filter(link => {
+      const findings = brokenLinkFindings(link, ctx);
+      const keptKeys = new Set(keepAll(findings).map(f => f.key));
+      link.references = link.references.filter((_ref, i) => keptKeys.has(findings[i].key));
+      return link.references.length > 0;
+    });
+    result.brokenLinks.total = result.brokenLinks.links.length;
+  }
+
+  // 8. OpenAPI contract drift
+  if (result.openapi) {
+    result.openapi.missingHandlers = result.openapi.missingHandlers.filter(op => keepAll([missingHandlerFinding(op, ctx)]).length > 0);
+    result.openapi.undocumentedRoutes = result.openapi.undocumentedRoutes.filter(r => keepAll([undocumentedRouteFinding(r, ctx)]).length > 0);
+  }
+
+  // 9. Imported exports that never ran
+  if (result.unexecutedExports) {
+    result.unexecutedExports.exports = result.unexecutedExports.exports.filter(e => keepAll([unexecutedExportFinding(e, ctx)]).length > 0);
+    result.unexecutedExports.total = result.unexecutedExports.exports.length;
+  }
+
+  return removed;
+}
+
+/**
+ * Split a "file:line" reference as produced by the missing-asset and
+ * broken-link scanners. References without a line are returned as-is.
+ */
+export function parseReference(ref: string): { file: string; line?: number } {
+  const match = ref.match(/^(.*):(\d+)$/);
+  if (!match) return { file: ref };
+  return { file: match[1], line: parseInt(match[2], 10) };
+}
+
+// --- Per-item findings ---
+
+interface FindingContext {
+  config: Config;
+  /** Root that keys are made relative to (monorepo root in app scans) */
+  rootDir: string;
+  toAbsolute(file: string): string;
+  toKeyPath(absFile: string): string;
+}
+
+function createContext(config: Config): FindingContext {
+  const rootDir = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+  return {
+    config,
+    rootDir,
+    toAbsolute: (file) => isAbsolute(file) ? file : join(config.dir, file),
+    toKeyPath: (absFile) => relative(rootDir, absFile).split(sep).join('/'),
+  };
+}
+
+/** Keyed by file as well as path: apps in one monorepo often serve the same paths */
+function routeKey(route: ApiRoute, ctx: FindingContext, method?: string): string {
+  const prefix = `unused-route:${ctx.toKeyPath(resolveFilePath(route.filePath, ctx.config))}:${route.path}`;
+  return method ? `${prefix}:${method}` : prefix;
+}
+
+/** Confidence fields of a result item, when it has been scored */
+function confidenceOf(item: ConfidenceScored): Pick<Finding, 'confidence' | 'confidenceReasons'> {
+  if (!item.confidence) return {};
+  return { confidence: item.confidence, confidenceReasons: item.confidenceReasons ?? [] };
+}
+
+/** Callers spell dynamic segments differently, so only the static prefix is a reliable symbol */
+function routeSymbol(path: string): string {
+  return path.split(/[[:*{]/)[0].replace(/\/$/, '');
+}
+
+function routeFindings(route: ApiRoute, ctx: FindingContext): Finding[] {
+  const file = resolveFilePath(route.filePath, ctx.config);
+  if (route.type === 'trpc') {
+    return route.unusedMethods.map(procedure => ({
+      rule: 'unused-route',
+      message: `Unused tRPC procedure ${route.path}.${procedure}`,
+      file,
+      line: route.methodLines[procedure],
+      key: routeKey(route, ctx, procedure),
+      symbol: procedure,
+    }));
+  }
+  const symbol = routeSymbol(route.path);
+  if (!route.used && route.methods.length === 0) {
+    return [{ rule: 'unused-route', message: `Unused API route ${route.path}`, file, key: routeKey(route, ctx), symbol, ...confidenceOf(route) }];
+  }
+  const methods = route.used ? route.unusedMethods : route.methods;
+  // References are relative to the reference root; markers like '(suppressed)' never match a file
+  const related = route.references.map(ref => isAbsolute(ref) ? ref : join(ctx.rootDir, ref));
+  return methods.map(method => ({
+    rule: 'unused-route',
+    message: `Unused API route handler ${method} ${route.path}`,
+    file,
+    line: route.methodLines[method],
+    key: routeKey(route, ctx, method),
+    symbol,
+    related,
+    ...handlerConfidence(route, method),
+  }));
+}
+
+function publicAssetFinding(asset: PublicAsset, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(asset.path);
+  return { rule: 'unused-public-asset', message: `Unused public asset ${asset.relativePath}`, file, key: `unused-public-asset:${ctx.toKeyPath(file)}`, symbol: asset.relativePath };
+}
+
+function unusedFileFinding(unusedFile: UnusedFile, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(unusedFile.path);
+  // Import specifiers end with the file name, or with the folder name for index files
+  const name = basename(file, extname(file));
+  const symbol = name === 'index' ? basename(dirname(file)) : name;
+  return { rule: 'unused-file', message: `Unused file ${unusedFile.path}`, file, key: `unused-file:${ctx.toKeyPath(file)}`, symbol, ...confidenceOf(unusedFile) };
+}
+
+function unusedExportFinding(exp: UnusedExport, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(exp.file);
+  return { rule: 'unused-export', message: `Unused export ${exp.name}`, file, line: exp.line, key: `unused-export:${ctx.toKeyPath(file)}:${exp.name}`, symbol: exp.name, ...confidenceOf(exp) };
+}
+
+function circularImportFinding(cycle: ImportCycle, ctx: FindingContext): Finding {
+  const files = cycle.files.map(ctx.toAbsolute);
+  return {
+    rule: 'circular-import',
+    message: `Circular import ${[...cycle.files, cycle.files[0]].join(' → ')}`,
+    file: files[0],
+    line: cycle.lines[0],
+    // Cycles start with their alphabetically first file, so the order is stable
+    key: `circular-import:${files.map(ctx.toKeyPath).join('>')}`,
+    related: files.slice(1),
+  };
+}
+
+function unusedDependencyFinding(dep: UnusedDependency, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(dep.packageJson);
+  const kind = dep.dev ? 'devDependency' : 'dependency';
+  return { rule: 'unused-dependency', message: `Unused ${kind} ${dep.name}`, file, line: dep.line, key: `unused-dependency:${ctx.toKeyPath(file)}:${dep.name}`, symbol: dep.name };
+}
+
+/** One finding per importing file, keyed by package name + importing file */
+function unlistedDependencyFindings(dep: UnlistedDependency, ctx: FindingContext): Finding[] {
+  const packageJson = ctx.toAbsolute(dep.packageJson);
+  return dep.references.map(ref => {
+    const { file, line } = parseReference(ref);
+    const absFile = ctx.toAbsolute(file);
+    return {
+      rule: 'unlisted-dependency',
+      message: `Package ${dep.name} is imported but not listed in ${dep.packageJson}`,
+      file: absFile,
+      line,
+      key: `unlisted-dependency:${dep.name}:${ctx.toKeyPath(absFile)}`,
+      symbol: dep.name,
+      related: [packageJson],
+    };
+  });
+}
+
+function unexecutedExportFinding(exp: UnexecutedExport, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(exp.file);
+  return { rule: 'unexecuted-export', message: `Export ${exp.name} never ran during the tests`, file, line: exp.line, key: `unexecuted-export:${ctx.toKeyPath(file)}:${exp.name}`, symbol: exp.name };
+}
+
+function serviceMethodFinding(method: UnusedServiceMethod, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(method.file);
+  return {
+    rule: 'unused-service-method',
+    message: `Unused service method ${method.serviceClassName}.${method.name}`,
+    file,
+    line: method.line,
+    key: `unused-service-method:${ctx.toKeyPath(file)}:${method.serviceClassName}.${method.name}`,
+    symbol: method.name,
+    ...confidenceOf(method),
+  };
+}
+
+function serverActionFinding(action: UnusedServerAction, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(action.file);
+  return { rule: 'unused-server-action', message: `Unused server action ${action.name}`, file, line: action.line, key: `unused-server-action:${ctx.toKeyPath(file)}:${action.name}`, symbol: action.name };
+}
+
+/** One finding per referencing line, keyed by asset path + referencing file */
+function missingAssetFindings(asset: MissingAsset, ctx: FindingContext): Finding[] {
+  return asset.references.map(ref => {
+    const { file, line } = parseReference(ref);
+    const absFile = ctx.toAbsolute(file);
+    return { rule: 'missing-asset', message: `Missing public asset ${asset.path}`, file: absFile, line, key: `missing-asset:${asset.path}:${ctx.toKeyPath(absFile)}`, symbol: asset.path };
+  });
+}
+
+/** One finding per referencing line, keyed by link path + referencing file */
+function brokenLinkFindings(link: BrokenLink, ctx: FindingContext): Finding[] {
+  return link.references.map(ref => {
+    const { file, line } = parseReference(ref);
+    const absFile = ctx.toAbsolute(file);
+    return { rule: 'broken-link', message: `Broken internal link ${link.path}`, file: absFile, line, key: `broken-link:${link.path}:${ctx.toKeyPath(absFile)}`, symbol: link.path };
+  });
+}
+
+function missingHandlerFinding(operation: OpenApiOperation, ctx: FindingContext): Finding {
+  const file = ctx.toAbsolute(operation.file);
+  return {
+    rule: 'openapi-missing-handler',
+    message: `OpenAPI operation ${operation.method} ${operation.path} has no route handler`,
+    file,
+    line: operation.line,
+    key: `openapi-missing-handler:${ctx.toKeyPath(file)}:${operation.method} ${operation.path}`,
+    symbol: routeSymbol(operation.path),
+  };
+}
+
+function undocumentedRouteFinding(route: UndocumentedRoute, ctx: FindingContext): Finding {
+  const file = resolveFilePath(route.filePath, ctx.config);
+  return {
+    rule: 'undocumented-route',
+    message: `API route handler ${route.method} ${route.path} is not in the OpenAPI spec`,
+    file,
+    line: route.line,
+    key: `undocumented-route:${ctx.toKeyPath(file)}:${route.path}:${route.method}`,
+    symbol: routeSymbol(route.path),
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * `pruny graph`: the import graph the unused-files scanner walks, exported
+ * as Graphviz DOT, Mermaid or JSON. Files are grouped by folder and marked
+ * with whether an entry point reaches them.
+ */
+
+import { dirname, relative } from 'node:path';
+import type { Config } from './types.js';
+import { buildImportGraph, traceImports } from './scanners/unused-files.js';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as string[]).includes(value);
+}
+
+export interface ModuleNode {
+  /** Path relative to the scanned root */
+  id: string;
+  /** Entry pattern the file matches */
+  entry?: string;
+  /** Whether the file matches `ignore.files` */
+  ignored?: boolean;
+  /** Reached from an entry point or an `ignore.files` file */
+  reachable: boolean;
+}
+
+export interface ModuleGraph {
+  nodes: ModuleNode[];
+  edges: { from: string; to: string }[];
+}
+
+export interface GraphOptions {
+  /** Only keep files in this folder (relative to the scanned root or the app) */
+  folder?: string;
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Module graph of one app. Reachability is computed on the whole app, so
+ * filtering to a folder doesn't make its files look orphaned.
+ */
+export async function createModuleGraph(config: Config, options: GraphOptions = {}): Promise<ModuleGraph> {
+  const graph = await buildImportGraph(config);
+  const reached = traceImports(graph, graph.entries.keys());
+  traceImports(graph, graph.ignored, reached);
+
+  const folder = options.folder ? normalizeFolder(options.folder) : undefined;
+  const inFolder = (file: string) => !folder || [config.dir, graph.root].some(root => {
+    const path = relative(root, file).replace(/\\/g, '/');
+    return path === folder || path.startsWith(`${folder}/`);
+  });
+  const id = (file: string) => relative(config.dir, file).replace(/\\/g, '/');
+
+  const files = graph.files.filter(inFolder);
+  const kept = new Set(files);
+  return {
+    nodes: files.map(file => ({
+      id: id(file),
+      ...(graph.entries.has(file) && { entry: graph.entries.get(file) }),
+      ...(graph.ignored.has(file) && { ignored: true }),
+      reachable: reached.has(file),
+    })),
+    edges: files.flatMap(file => graph.imports.get(file)!.filter(to => kept.has(to)).map(to => ({ from: id(file), to: id(to) }))),
+  };
+}
+
+/** Merge the graphs of several apps (node ids are already relative to the shared root) */
+export function mergeModuleGraphs(graphs: ModuleGraph[]): ModuleGraph {
+  return { nodes: graphs.flatMap(g => g.nodes), edges: graphs.flatMap(g => g.edges) };
+}
+
+function groupByFolder(nodes: ModuleNode[]): Map<string, ModuleNode[]> {
+  const folders = new Map<string, ModuleNode[]>();
+  for (const node of nodes) {
+    const folder = dirname(node.id);
+    if (!folders.has(folder)) folders.set(folder, []);
+    folders.get(folder)!.push(node);
+  }
+  return new Map([...folders].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Graphviz DOT: one cluster per folder, entry points as bold boxes and, with
+ * `highlightUnreachable`, unreachable files filled red
+ */
+export function toDot(graph: ModuleGraph, highlightUnreachable = false): string {
+  const lines = ['digraph pruny {', '  rankdir=LR;', '  node [shape=box, style=rounded, fontsize=10];'];
+
+  let cluster = 0;
+  for (const [folder, nodes] of groupByFolder(graph.nodes)) {
+    lines.push(`  subgraph cluster_${cluster++} {`, `    label=${quote(folder)};`);
+    for (const node of nodes) {
+      const attributes = [`label=${quote(node.id.slice(folder === '.' ? 0 : folder.length + 1))}`];
+      const style = ['rounded'];
+      if (node.entry) style.push('bold');
+      if (highlightUnreachable && !node.reachable) {
+        style.push('filled');
+        attributes.push('fillcolor="#fdd"', 'color="#c00"');
+      }
+      if (style.length > 1) attributes.push(`style=${quote(style.join(','))}`);
+      lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart: one subgraph per folder and, with
+ * `highlightUnreachable`, an `unreachable` class on orphaned files
+ */
+export function toMermaid(graph: ModuleGraph, highlightUnreachable = false): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+
+  let folderIndex = 0;
+  for (const [folder, nodes] of groupByFolder(graph.nodes)) {
+    lines.push(`  subgraph f${folderIndex++}[${label(folder)}]`);
+    for (const node of nodes) {
+      const text = label(node.id.slice(folder === '.' ? 0 : folder.length + 1));
+      lines.push(`    ${ids.get(node.id)}${node.entry ? `[[${text}]]` : `[${text}]`}`);
+    }
+    lines.push('  end');
+  }
+
+  for (const edge of graph.edges) lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+
+  const unreachable = graph.nodes.filter(node => !node.reachable).map(node => ids.get(node.id));
+  if (highlightUnreachable && unreachable.length > 0) {
+    lines.push('  classDef unreachable fill:#fdd,stroke:#c00', `  class ${unreachable.join(',')} unreachable`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Render a module graph in one of the `GRAPH_FORMATS` */
+export function formatModuleGraph(graph: ModuleGraph, format: GraphFormat, highlightUnreachable = false): string {
+  if (format === 'dot') return toDot(graph, highlightUnreachable);
+  if (format === 'mermaid') return toMermaid(graph, highlightUnreachable);
+  return JSON.stringify(graph, null, 2) + '\n';
+}
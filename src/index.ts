@@ -3,16 +3,24 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import prompts from 'prompts';
-import { rmSync, existsSync, readdirSync, lstatSync, writeFileSync } from 'node:fs';
+import { rmSync, existsSync, writeFileSync } from 'node:fs';
 import { dirname, join, relative, resolve } from 'node:path';
 import { scan, scanUnusedExports } from './scanner.js';
 import { scanUnusedServices } from './scanners/unused-services.js';
 import { loadConfig } from './config.js';
 import { removeExportFromLine, removeMethodFromRoute, findServiceMethodCall, findMethodLine } from './fixer.js';
 import { init } from './init.js';
-import type { ApiRoute, Config, ScanResult, PrunyOptions, UnusedExport } from './types.js';
+import type { ApiRoute, Confidence, Config, ImportCycle, ScanResult, PrunyOptions, Reporter, UnusedExport } from './types.js';
 import { INVALID_METHOD_NAMES } from './constants.js';
 import { getAppName, matchesFilter, resolveFilePath } from './utils.js';
+import { collectFindings, filterFindings, type Finding } from './findings.js';
+import { applyConfidence, isConfidence, meetsConfidence } from './confidence.js';
+import { toSarif } from './sarif.js';
+import { BASELINE_FILE, applyBaseline, readBaseline, writeBaseline } from './baseline.js';
+import { applyChangedFilter, getGitChanges } from './changed.js';
+import { explain, type Explanation } from './why.js';
+import { createModuleGraph, formatModuleGraph, isGraphFormat, mergeModuleGraphs, type ModuleGraph } from './graph.js';
+import { detectWorkspaces, findWorkspace, workspaceAt, type Workspace } from './workspaces.js';
 
 // --- Types ---
 
@@ -21,6 +29,16 @@ interface SummaryItem {
   [key: string]: string | number;
 }
 
+/** Summary table label per route type, in display order */
+const ROUTE_TYPE_LABELS: Record<ApiRoute['type'], string> = {
+  nextjs: 'API Routes (Next.js)',
+  nestjs: 'API Routes (NestJS)',
+  express: 'API Routes (Express)',
+  fastify: 'API Routes (Fastify)',
+  hono: 'API Routes (Hono)',
+  trpc: 'tRPC Routers',
+};
+
 // --- Main CLI Action ---
 
 const program = new Command();
@@ -34,6 +52,7 @@ program
   .option('--dry-run', 'Run a simulation and output a JSON report')
   .option('-c, --config <path>', 'Path to config file')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json or sarif (graph: dot, mermaid or json)', 'text')
   .option('--no-public', 'Disable public assets scanning')
   .option('-v, --verbose', 'Show detailed info')
   .option('-f, --filter <pattern>', 'Filter results by file path or app name')
@@ -41,7 +60,15 @@ program
   .option('--app <name>', 'Specific app to scan')
   .option('--cleanup <items>', 'Comma-separated list of items to clean (routes, assets, files, exports)')
   .option('--folder <path>', 'Specific folder within an app or project to scan')
-  .option('--all', 'Scan all apps (CI mode: exits with error if issues found)');
+  .option('--all', 'Scan all apps (CI mode: exits with error if issues found)')
+  .option('--baseline <file>', 'Hide findings recorded by `pruny baseline`; only new ones are reported')
+  .option('--no-cache', 'Re-parse every file instead of using node_modules/.cache/pruny')
+  .option('--changed-since <ref>', 'Only report findings touching files changed since a git ref')
+  .option('--staged', 'Only report findings touching staged files (pre-commit)')
+  .option('--access-log <file>', 'Access log (nginx/combined, Vercel JSON, CSV) whose requests count as route usage; repeat for several', (file: string, files: string[] = []) => [...files, file])
+  .option('--coverage <file>', 'Test coverage report (lcov.info or coverage-final.json) to mark findings that never ran')
+  .option('--unexecuted', 'With --coverage: also report imported exports that never ran during the tests')
+  .option('--min-confidence <level>', 'Only report and fix findings at or above a confidence level: low, medium or high');
 
 program
   .command('init')
@@ -56,46 +83,50 @@ program.action(async (options: PrunyOptions) => {
   // Auto-detect non-interactive environment (piped stdin, CI, etc.)
   const isNonInteractive = !process.stdin.isTTY || !!process.env.CI;
 
+  // --json is shorthand for --format json
+  const format = options.json ? 'json' : options.format || 'text';
+  if (!['text', 'json', 'sarif'].includes(format)) {
+    console.error(chalk.red(`Unknown format "${format}". Use text, json or sarif.`));
+    process.exit(1);
+  }
+  options.json = format === 'json';
+  const isSarif = format === 'sarif';
+  // The log would list findings --fix already removed
+  if (isSarif && options.fix) {
+    console.error(chalk.red('--fix can\'t be combined with --format sarif. Run --fix first, then --format sarif.'));
+    process.exit(1);
+  }
+
+  if (options.minConfidence && !isConfidence(options.minConfidence)) {
+    console.error(chalk.red(`Unknown confidence "${options.minConfidence}". Use low, medium or high.`));
+    process.exit(1);
+  }
+  const minConfidence = options.minConfidence as Confidence | undefined;
+  // Machine-readable output must not be mixed with banners and timings
+  const isMachineOutput = options.json || isSarif;
+
   try {
     // 1. Setup Configuration
-    // 1. Setup Configuration
-    const baseConfig = loadConfig({
-      dir: options.dir,
-      config: options.config,
-      excludePublic: !options.public,
-    });
-
-    const absoluteDir = baseConfig.dir.startsWith('/')
-      ? baseConfig.dir
-      : join(process.cwd(), baseConfig.dir);
-    baseConfig.dir = absoluteDir;
+    // Progress goes to stderr when stdout carries the serialized result
+    const baseConfig = loadBaseConfig(options, isMachineOutput ? process.stderr : process.stdout);
+    const absoluteDir = baseConfig.dir;
 
     if (options.verbose) console.log('');
-    console.log(chalk.bold('\n🔍 Scanning for unused API routes...\n'));
+    if (!isMachineOutput) console.log(chalk.bold('\n🔍 Scanning for unused API routes...\n'));
 
     // 2. Monorepo Detection (Auto-find root if we are inside an app)
-    let monorepoRoot = absoluteDir;
-    let appsDir = join(monorepoRoot, 'apps');
-    let isMonorepo = existsSync(appsDir) && lstatSync(appsDir).isDirectory();
-
-    // If not direct monorepo, try going up to find the root
-    if (!isMonorepo) {
-      let current = absoluteDir;
-      while (current !== dirname(current)) {
-        const potentialApps = join(current, 'apps');
-        if (existsSync(potentialApps) && lstatSync(potentialApps).isDirectory()) {
-          monorepoRoot = current;
-          appsDir = potentialApps;
-          isMonorepo = true;
-          break;
-        }
-        current = dirname(current);
-      }
-    }
+    const { monorepoRoot, workspaces, isMonorepo } = detectMonorepo(absoluteDir);
+
+    // Known findings to hide (--baseline)
+    const baseline = options.baseline ? readBaseline(resolve(options.baseline)) : null;
 
-    if (isMonorepo && monorepoRoot !== absoluteDir) {
+    // Only report findings touching these changes (--changed-since / --staged)
+    const changes = options.changedSince || options.staged
+      ? getGitChanges(monorepoRoot, { since: options.changedSince, staged: options.staged })
+      : null;
+
+    if (isMonorepo && monorepoRoot !== absoluteDir && !isMachineOutput) {
       // We are scanning an app inside a monorepo
-      const _appName = absoluteDir.split('/').pop() || '';
       console.log(chalk.dim(`📦 Detected monorepo root: ${monorepoRoot}`));
 
       // If we were pointed at a specific app, we should only scan that app's routes
@@ -104,44 +135,29 @@ program.action(async (options: PrunyOptions) => {
 
     // Start Main Navigation Loop
     while (true) {
-      const appsToScan: string[] = [];
-      const ignoredApps = options.ignoreApps ? options.ignoreApps.split(',').map(a => a.trim()) : [];
+      const appsToScan: (Workspace | null)[] = [];
+      const isIgnoredApp = ignoredAppsMatcher(options, monorepoRoot);
+      const currentApp = workspaceOfDir(workspaces, monorepoRoot, absoluteDir, options);
 
       if (isMonorepo) {
-        if (monorepoRoot !== absoluteDir) {
+        if (monorepoRoot !== absoluteDir && currentApp) {
           // Direct App Scan (Run from inside an app)
-          const appName = relative(join(monorepoRoot, 'apps'), absoluteDir);
-          appsToScan.push(appName);
+          appsToScan.push(currentApp);
         } else {
-          const apps = readdirSync(appsDir);
-          const availableApps: string[] = [];
-
-          for (const app of apps) {
-            const appPath = join(appsDir, app);
-            if (lstatSync(appPath).isDirectory()) {
-              availableApps.push(app);
-            }
-          }
-
           // Interactive Mode: If no specific ignored apps/filter/json provided
           if (options.app) {
-            if (availableApps.includes(options.app)) {
-              appsToScan.push(options.app);
-            } else {
-              console.log(chalk.red(`App "${options.app}" not found in ${appsDir}`));
-              process.exit(1);
-            }
+            appsToScan.push(requireWorkspace(workspaces, monorepoRoot, options.app));
           } else if (options.all) {
-            appsToScan.push(...availableApps.filter(app => !ignoredApps.includes(app)));
+            appsToScan.push(...workspaces.filter(app => !isIgnoredApp(app)));
           } else if (options.folder) {
-            appsToScan.push(...availableApps);
-          } else if (!isNonInteractive && !options.ignoreApps && !options.filter && !options.json) {
+            appsToScan.push(...workspaces);
+          } else if (!isNonInteractive && !options.ignoreApps && !options.filter && !isMachineOutput) {
             const response = await prompts({
               type: 'select',
               name: 'selected',
               message: 'Select app to scan:',
               choices: [
-                ...availableApps.map(app => ({ title: app, value: app })),
+                ...workspaces.map(app => ({ title: app.name, description: relative(monorepoRoot, app.dir), value: app.dir })),
                 { title: chalk.bold('Scan All Apps'), value: 'ALL' },
                 { title: chalk.gray('Exit'), value: 'EXIT' }
               ],
@@ -154,56 +170,39 @@ program.action(async (options: PrunyOptions) => {
             }
 
             if (response.selected === 'ALL') {
-              appsToScan.push(...availableApps);
+              appsToScan.push(...workspaces);
             } else {
-              appsToScan.push(response.selected);
+              appsToScan.push(...workspaces.filter(app => app.dir === response.selected));
             }
           } else {
             // Non-interactive or filtered
-            for (const app of availableApps) {
-              if (!ignoredApps.includes(app)) {
-                appsToScan.push(app);
-              }
-            }
+            appsToScan.push(...workspaces.filter(app => !isIgnoredApp(app)));
             if (appsToScan.length === 0) break; // Exit loop if nothing to scan
           }
         }
-
-        // Deduplicate just in case
-        const uniqueApps = [...new Set(appsToScan)];
-        appsToScan.length = 0;
-        appsToScan.push(...uniqueApps);
       } else {
-        appsToScan.push('root');
+        appsToScan.push(null);
       }
 
       let requestedBack = false;
       const isScanAll = isMonorepo && appsToScan.length > 1;
       const allAppResults: { appName: string; result: ScanResult }[] = [];
+      const sarifFindings: Finding[] = [];
+      let sarifIssues = 0;
 
       // 3. Scan & Fix Loop (Per App)
-      for (const appName of appsToScan) {
+      for (const app of appsToScan) {
         // Clone config to modify per app
-        const currentConfig = { ...baseConfig };
-
-        // Define app-specific context
-        let appLabel = 'Root App';
-        let appDir = monorepoRoot;
-
-        if (isMonorepo) {
-          appLabel = `App: ${appName}`;
-          appDir = join(monorepoRoot, 'apps', appName);
-
-          currentConfig.appSpecificScan = {
-            appDir: appDir, // Scan routes ONLY here
-            rootDir: monorepoRoot // Scan references EVERYWHERE
-          };
-        }
+        const currentConfig = createAppConfig(baseConfig, monorepoRoot, app);
+        const appName = app?.name ?? 'root';
+        const appLabel = app ? `App: ${appName}` : 'Root App';
 
         currentConfig.folder = options.folder;
 
         // For "Scan All" non-fix mode, show compact inline status
-        if (isScanAll && !options.fix && !options.json) {
+        if (isMachineOutput) {
+          // Keep stdout clean for the serialized result
+        } else if (isScanAll && !options.fix) {
           process.stdout.write(chalk.bold.magenta(`\n👉 Scanning ${appLabel}...`));
         } else {
           console.log(chalk.bold.magenta(`\n👉 Scanning ${appLabel}...`));
@@ -217,8 +216,35 @@ program.action(async (options: PrunyOptions) => {
           filterResults(result, options.filter);
         }
 
-        // Output JSON or Report
-        if (options.json) {
+        // Hide known findings so only new ones are reported and counted
+        if (baseline) {
+          const hidden = applyBaseline(result, currentConfig, baseline);
+          if (hidden > 0 && !isMachineOutput) {
+            console.log(chalk.dim(`   ${hidden} known finding${hidden > 1 ? 's' : ''} hidden by baseline`));
+          }
+        }
+
+        if (changes) {
+          const hidden = applyChangedFilter(result, currentConfig, changes);
+          if (hidden > 0 && !isMachineOutput) {
+            console.log(chalk.dim(`   ${hidden} finding${hidden > 1 ? 's' : ''} outside the changed files hidden`));
+          }
+        }
+
+        // Hide less certain findings, so they are neither reported nor fixed
+        if (minConfidence) {
+          const hidden = filterFindings(result, currentConfig, finding => meetsConfidence(finding.confidence, minConfidence));
+          if (hidden > 0 && !isMachineOutput) {
+            console.log(chalk.dim(`   ${hidden} finding${hidden > 1 ? 's' : ''} below ${minConfidence} confidence hidden`));
+          }
+        }
+
+        // Output SARIF, JSON or Report
+        if (isSarif) {
+          // Collected across apps and written once as a single SARIF run
+          sarifFindings.push(...collectFindings(result, currentConfig));
+          sarifIssues += countIssues(result);
+        } else if (options.json) {
           console.log(JSON.stringify(result, null, 2));
         } else if (options.fix) {
           // In "scan-all + fix" mode, skip apps with no issues — otherwise the
@@ -272,8 +298,15 @@ program.action(async (options: PrunyOptions) => {
         }
       }
 
+      if (isSarif) {
+        console.log(JSON.stringify(toSarif(sarifFindings, monorepoRoot), null, 2));
+        if (options.all && sarifIssues > 0) {
+          process.exit(1);
+        }
+      }
+
       // Print consolidated output for "Scan All" mode
-      if (isScanAll && allAppResults.length > 0 && !options.json && !options.fix) {
+      if (isScanAll && allAppResults.length > 0 && !isMachineOutput && !options.fix) {
         // Show detailed issues for apps that have problems
         const appsWithIssues = allAppResults.filter(a => hasUnusedItems(a.result));
         if (appsWithIssues.length > 0) {
@@ -283,6 +316,10 @@ program.action(async (options: PrunyOptions) => {
           }
         }
 
+        for (const { result } of allAppResults) {
+          printStaleSuppressions(result);
+        }
+
         if (!options.all) {
           console.log(chalk.dim('\n💡 Run with --fix to clean up.\n'));
         }
@@ -297,7 +334,7 @@ program.action(async (options: PrunyOptions) => {
       }
 
       // If we are not in a monorepo OR we finished all apps without "Back" OR non-interactive
-      if (!isMonorepo || (!requestedBack && appsToScan.length > 0) || options.json || options.filter || options.all || isNonInteractive) {
+      if (!isMonorepo || (!requestedBack && appsToScan.length > 0) || isMachineOutput || options.filter || options.all || isNonInteractive) {
         break;
       }
 
@@ -310,14 +347,256 @@ program.action(async (options: PrunyOptions) => {
     process.exit(1);
   }
 
-  const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
-  console.log(chalk.dim(`\n⏱️  Completed in ${elapsed}s`));
+  if (!isMachineOutput) {
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(chalk.dim(`\n⏱️  Completed in ${elapsed}s`));
+  }
 });
 
+program
+  .command('baseline')
+  .description(`Write current findings to ${BASELINE_FILE} so later runs only report new ones`)
+  .option('-o, --output <path>', `Baseline file to write (default: ${BASELINE_FILE} in the project root)`)
+  .action(async (cmdOptions: { output?: string }) => {
+    const options = program.opts<PrunyOptions>();
+
+    try {
+      const baseConfig = loadBaseConfig(options, process.stdout);
+      const { monorepoRoot, workspaces, isMonorepo } = detectMonorepo(baseConfig.dir);
+      const isIgnoredApp = ignoredAppsMatcher(options, monorepoRoot);
+
+      // The baseline covers the whole repository, even when run from inside an app
+      const appsToScan = isMonorepo
+        ? workspaces.filter(app => !isIgnoredApp(app))
+        : [null];
+
+      console.log(chalk.bold('\n📸 Recording baseline...\n'));
+      const findings: Finding[] = [];
+      for (const app of appsToScan) {
+        console.log(chalk.bold.magenta(`👉 Scanning ${app ? `App: ${app.name}` : 'Root App'}...`));
+        const appConfig = createAppConfig(baseConfig, monorepoRoot, app);
+        const result = await scan(appConfig);
+        findings.push(...collectFindings(result, appConfig));
+      }
+
+      const outputPath = cmdOptions.output ? resolve(cmdOptions.output) : join(monorepoRoot, BASELINE_FILE);
+      const count = writeBaseline(outputPath, findings);
+      console.log(chalk.green(`\n✅ Baseline with ${count} finding${count === 1 ? '' : 's'} saved to ${chalk.bold(relative(process.cwd(), outputPath) || outputPath)}`));
+      console.log(chalk.dim(`   Run with --baseline ${relative(process.cwd(), outputPath)} to report only new findings.`));
+    } catch (err) {
+      console.error(chalk.red('Error writing baseline:'), err);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('routes')
+  .description('List API routes with their code usage and, with --access-log, production traffic')
+  .action(async () => {
+    const options = program.opts<PrunyOptions>();
+
+    try {
+      const baseConfig = loadBaseConfig(options, options.json ? process.stderr : process.stdout);
+      const { monorepoRoot, workspaces, isMonorepo } = detectMonorepo(baseConfig.dir);
+      const isIgnoredApp = ignoredAppsMatcher(options, monorepoRoot);
+      const currentApp = workspaceOfDir(workspaces, monorepoRoot, baseConfig.dir, options);
+
+      const appsToScan = !isMonorepo
+        ? [null]
+        : options.app
+          ? [requireWorkspace(workspaces, monorepoRoot, options.app)]
+          : currentApp
+            ? [currentApp]
+            : workspaces.filter(app => !isIgnoredApp(app));
+
+      const routes: ApiRoute[] = [];
+      for (const app of appsToScan) {
+        const appConfig = createAppConfig(baseConfig, monorepoRoot, app);
+        appConfig.folder = options.folder;
+        const result = await scan(appConfig);
+        routes.push(...result.routes.filter(r => r.type !== 'trpc' && (!options.filter || matchesFilter(r.filePath, options.filter.toLowerCase()))));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(routes, null, 2));
+        return;
+      }
+      printRouteTraffic(routes, !!baseConfig.accessLogs);
+    } catch (err) {
+      console.error(chalk.red('Error listing routes:'), err);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('why')
+  .description('Explain why a file, export or API route is reported as used or unused')
+  .argument('<target>', 'A source file, an API route path (/api/users) or an export (name or file:name)')
+  .action(async (target: string) => {
+    const options = program.opts<PrunyOptions>();
+
+    try {
+      // Scanner progress would bury the explanation
+      const baseConfig = loadBaseConfig(options);
+      const { monorepoRoot, workspaces, isMonorepo } = detectMonorepo(baseConfig.dir);
+      const isIgnoredApp = ignoredAppsMatcher(options, monorepoRoot);
+      const currentApp = workspaceOfDir(workspaces, monorepoRoot, baseConfig.dir, options);
+
+      const appsToScan = !isMonorepo
+        ? [null]
+        : options.app
+          ? [requireWorkspace(workspaces, monorepoRoot, options.app)]
+          : currentApp
+            ? [currentApp]
+            : workspaces.filter(app => !isIgnoredApp(app));
+
+      const explanations: Explanation[] = [];
+      for (const app of appsToScan) {
+        explanations.push(...await explain(createAppConfig(baseConfig, monorepoRoot, app), target));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(explanations, null, 2));
+        return;
+      }
+      if (explanations.length === 0) {
+        console.log(chalk.yellow(`\nNo source file, API route or export matches "${target}"\n`));
+        process.exitCode = 1;
+        return;
+      }
+      for (const explanation of explanations) printExplanation(explanation, !!options.verbose);
+    } catch (err) {
+      console.error(chalk.red('Error explaining target:'), err);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('graph')
+  .description('Print the import graph as Graphviz DOT, Mermaid or JSON (--format dot|mermaid|json, --folder to narrow it)')
+  .option('--highlight-unreachable', 'Mark files no entry point reaches')
+  .action(async (cmdOptions: { highlightUnreachable?: boolean }) => {
+    const options = program.opts<PrunyOptions>();
+    // The global --format defaults to text, which means DOT here
+    const format = options.json ? 'json' : !options.format || options.format === 'text' ? 'dot' : options.format;
+    if (!isGraphFormat(format)) {
+      console.error(chalk.red(`Unknown graph format "${format}". Use dot, mermaid or json.`));
+      process.exit(1);
+    }
+
+    try {
+      const baseConfig = loadBaseConfig(options);
+      const { monorepoRoot, workspaces, isMonorepo } = detectMonorepo(baseConfig.dir);
+      const isIgnoredApp = ignoredAppsMatcher(options, monorepoRoot);
+      const currentApp = workspaceOfDir(workspaces, monorepoRoot, baseConfig.dir, options);
+
+      const appsToScan = !isMonorepo
+        ? [null]
+        : options.app
+          ? [requireWorkspace(workspaces, monorepoRoot, options.app)]
+          : currentApp
+            ? [currentApp]
+            : workspaces.filter(app => !isIgnoredApp(app));
+
+      const graphs: ModuleGraph[] = [];
+      for (const app of appsToScan) {
+        graphs.push(await createModuleGraph(createAppConfig(baseConfig, monorepoRoot, app), { folder: options.folder }));
+      }
+      process.stdout.write(formatModuleGraph(mergeModuleGraphs(graphs), format, !!cmdOptions.highlightUnreachable));
+    } catch (err) {
+      console.error(chalk.red('Error building graph:'), err);
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
 // --- Helper Functions ---
 
+/**
+ * Load the config for the target directory, make its dir absolute and attach
+ * the reporter that receives scanner progress (none scans silently).
+ */
+function loadBaseConfig(options: PrunyOptions, reporter?: Reporter): Config {
+  const baseConfig = loadConfig({
+    dir: options.dir,
+    config: options.config,
+    excludePublic: !options.public,
+  });
+  if (options.cache === false) baseConfig.cache = false;
+  if (options.accessLog) baseConfig.accessLogs = options.accessLog.map(file => resolve(file));
+  if (options.coverage) baseConfig.coverage = { file: resolve(options.coverage), unexecuted: options.unexecuted };
+  baseConfig.reporter = reporter;
+
+  baseConfig.dir = baseConfig.dir.startsWith('/')
+    ? baseConfig.dir
+    : join(process.cwd(), baseConfig.dir);
+  return baseConfig;
+}
+
+/**
+ * Find the monorepo root (a directory whose workspace manifest or apps/
+ * folder lists workspaces) at or above the target directory.
+ */
+function detectMonorepo(absoluteDir: string): { monorepoRoot: string; workspaces: Workspace[]; isMonorepo: boolean } {
+  const detected = detectWorkspaces(absoluteDir);
+  if (!detected) return { monorepoRoot: absoluteDir, workspaces: [], isMonorepo: false };
+  return { monorepoRoot: detected.root, workspaces: detected.workspaces, isMonorepo: true };
+}
+
+/**
+ * The workspace `--app` names; exits when there is none.
+ */
+function requireWorkspace(workspaces: Workspace[], monorepoRoot: string, query: string): Workspace {
+  const workspace = findWorkspace(workspaces, monorepoRoot, query);
+  if (!workspace) {
+    console.log(chalk.red(`App "${query}" not found in ${monorepoRoot}`));
+    console.log(chalk.dim(`   Workspaces: ${workspaces.map(ws => ws.name).join(', ')}`));
+    process.exit(1);
+  }
+  return workspace;
+}
+
+/**
+ * The workspace `--dir` points into; undefined at the monorepo root, outside
+ * a monorepo, or with `--app`. Exits when `dir` is inside the monorepo but in
+ * none of its workspaces, rather than scanning every workspace.
+ */
+function workspaceOfDir(workspaces: Workspace[], monorepoRoot: string, dir: string, options: PrunyOptions): Workspace | undefined {
+  if (workspaces.length === 0 || options.app || relative(monorepoRoot, dir) === '') return undefined;
+  const workspace = workspaceAt(workspaces, resolve(dir));
+  if (!workspace) {
+    console.log(chalk.red(`${relative(monorepoRoot, dir)} is not in any workspace of ${monorepoRoot}`));
+    console.log(chalk.dim(`   Workspaces: ${workspaces.map(ws => relative(monorepoRoot, ws.dir)).join(', ')}`));
+    console.log(chalk.dim('   Point --dir at a workspace or the monorepo root, or pick one with --app'));
+    process.exit(1);
+  }
+  return workspace;
+}
+
+/**
+ * Whether a workspace is listed in --ignore-apps (by any name --app accepts).
+ */
+function ignoredAppsMatcher(options: PrunyOptions, monorepoRoot: string): (app: Workspace) => boolean {
+  const ignoredApps = options.ignoreApps ? options.ignoreApps.split(',').map(a => a.trim()).filter(Boolean) : [];
+  return app => ignoredApps.some(query => findWorkspace([app], monorepoRoot, query) !== undefined);
+}
+
+/**
+ * Clone the base config for one app. In a monorepo, routes and candidates
+ * are scanned in the app while references are scanned across the whole root.
+ */
+function createAppConfig(baseConfig: Config, monorepoRoot: string, app: Workspace | null): Config {
+  const currentConfig = { ...baseConfig };
+  if (app !== null) {
+    currentConfig.appSpecificScan = {
+      appDir: app.dir, // Scan routes ONLY here
+      rootDir: monorepoRoot // Scan references EVERYWHERE
+    };
+  }
+  return currentConfig;
+}
+
 
 
 /**
@@ -352,12 +631,47 @@ function filterResults(result: ScanResult, filterPattern: string) {
     result.unusedExports.unused = result.unusedExports.exports.length;
   }
 
+  // Filter Circular Imports (a cycle stays when any of its files matches)
+  if (result.circularImports) {
+    result.circularImports.cycles = result.circularImports.cycles.filter(c => c.files.some(f => matchesFilter(f, filter)));
+    result.circularImports.total = result.circularImports.cycles.length;
+  }
+
+  // Filter Dependencies (by package name or importing file)
+  if (result.unusedDependencies) {
+    result.unusedDependencies.dependencies = result.unusedDependencies.dependencies.filter(d => matchesFilter(d.name, filter));
+    result.unusedDependencies.unused = result.unusedDependencies.dependencies.length;
+    result.unusedDependencies.total = result.unusedDependencies.used + result.unusedDependencies.unused;
+  }
+  if (result.unlistedDependencies) {
+    result.unlistedDependencies.dependencies = result.unlistedDependencies.dependencies.filter(d => matchesFilter(d.name, filter) || d.references.some(r => matchesFilter(r, filter)));
+    result.unlistedDependencies.total = result.unlistedDependencies.dependencies.length;
+  }
+
+  // Filter Server Actions
+  if (result.unusedServerActions) {
+    result.unusedServerActions.actions = result.unusedServerActions.actions.filter(a => matchesFilter(a.file, filter));
+    result.unusedServerActions.total = result.unusedServerActions.actions.length;
+    result.unusedServerActions.unused = result.unusedServerActions.actions.length;
+  }
+
   // Filter Broken Links
   if (result.brokenLinks) {
     result.brokenLinks.links = result.brokenLinks.links.filter(l => matchesFilter(l.path, filter));
     result.brokenLinks.total = result.brokenLinks.links.length;
   }
 
+  // Filter OpenAPI Drift
+  if (result.openapi) {
+    result.openapi.missingHandlers = result.openapi.missingHandlers.filter(op => matchesFilter(op.path, filter));
+    result.openapi.undocumentedRoutes = result.openapi.undocumentedRoutes.filter(r => matchesFilter(r.path, filter) || matchesFilter(r.filePath, filter));
+  }
+
+  if (result.unexecutedExports) {
+    result.unexecutedExports.exports = result.unexecutedExports.exports.filter(e => matchesFilter(e.file, filter));
+    result.unexecutedExports.total = result.unexecutedExports.exports.length;
+  }
+
   // Recalculate main stats
   result.total = result.routes.length;
   result.used = result.routes.filter(r => r.used).length;
@@ -373,8 +687,8 @@ function printDetailedReport(result: ScanResult) {
   if (partiallyUnusedRoutes.length > 0) {
     console.log(chalk.yellow.bold('⚠️  Partially Unused API Routes:\n'));
     for (const route of partiallyUnusedRoutes) {
-      console.log(chalk.yellow(`   ${route.path}`));
-      console.log(chalk.red(`      ❌ Unused: ${route.unusedMethods.join(', ')}`));
+      console.log(chalk.yellow(`   ${route.path}`) + confidenceLabel(route));
+      console.log(chalk.red(`      ❌ Unused: ${route.unusedMethods.map(m => m + coverageLabel(route.methodCoverage?.[m])).join(', ')}`));
       console.log(chalk.dim(`      → ${route.filePath}`));
     }
     console.log('');
@@ -385,8 +699,8 @@ function printDetailedReport(result: ScanResult) {
   if (unusedRoutes.length > 0) {
     console.log(chalk.red.bold('❌ Unused API Routes (Fully Unused):\n'));
     for (const route of unusedRoutes) {
-      const methods = route.methods.length > 0 ? ` (${route.methods.join(', ')})` : '';
-      console.log(chalk.red(`   ${route.path}${chalk.dim(methods)}`));
+      const methods = route.methods.length > 0 ? ` (${route.methods.map(m => m + coverageLabel(route.methodCoverage?.[m])).join(', ')})` : '';
+      console.log(chalk.red(`   ${route.path}${chalk.dim(methods)}`) + confidenceLabel(route));
       console.log(chalk.dim(`      → ${route.filePath}`));
     }
     console.log('');
@@ -410,7 +724,7 @@ function printDetailedReport(result: ScanResult) {
     console.log(chalk.red.bold('📄 Unused Source Files:\n'));
     for (const file of result.unusedFiles.files) {
       const sizeKb = (file.size / 1024).toFixed(1);
-      console.log(chalk.red(`   ${file.path} ${chalk.dim(`(${sizeKb} KB)`)}`));
+      console.log(chalk.red(`   ${file.path} ${chalk.dim(`(${sizeKb} KB)`)}`) + confidenceLabel(file));
     }
     console.log('');
   }
@@ -419,12 +733,42 @@ function printDetailedReport(result: ScanResult) {
   if (result.unusedExports && result.unusedExports.exports.length > 0) {
     console.log(chalk.red.bold('🔗 Unused Named Exports/Methods:\n'));
     for (const exp of result.unusedExports.exports) {
-      console.log(chalk.red(`   ${exp.name}`));
+      console.log(chalk.red(`   ${exp.name}`) + chalk.dim(coverageLabel(exp.covered)) + confidenceLabel(exp));
       console.log(chalk.dim(`      → ${exp.file}:${exp.line}`));
     }
     console.log('');
   }
 
+  // 5.5 Circular Imports
+  if (result.circularImports && result.circularImports.total > 0) {
+    console.log(chalk.yellow.bold('🔁 Circular Imports:\n'));
+    for (const cycle of result.circularImports.cycles) {
+      console.log(chalk.yellow(`   ${cycle.files.length} files`));
+      console.log(chalk.dim(`      → ${formatCycle(cycle)}`));
+    }
+    console.log('');
+  }
+
+  // 5.6 Dependencies
+  if (result.unusedDependencies && result.unusedDependencies.unused > 0) {
+    console.log(chalk.red.bold('📦 Unused Dependencies:\n'));
+    for (const dep of result.unusedDependencies.dependencies) {
+      console.log(chalk.red(`   ${dep.name}`) + chalk.dim(dep.dev ? ' (dev)' : ''));
+      console.log(chalk.dim(`      → ${dep.packageJson}${dep.line ? `:${dep.line}` : ''}`));
+    }
+    console.log('');
+  }
+  if (result.unlistedDependencies && result.unlistedDependencies.total > 0) {
+    console.log(chalk.red.bold('📦 Imported Packages Missing From package.json:\n'));
+    for (const dep of result.unlistedDependencies.dependencies) {
+      console.log(chalk.red(`   ${dep.name}`) + chalk.dim(` (not in ${dep.packageJson})`));
+      for (const ref of dep.references) {
+        console.log(chalk.dim(`      → ${ref}`));
+      }
+    }
+    console.log('');
+  }
+
   // 6. Missing Assets (Broken Links)
   if (result.missingAssets && result.missingAssets.total > 0) {
     console.log(chalk.yellow.bold('⚠️  Missing Assets (Broken Links):\n'));
@@ -441,12 +785,22 @@ function printDetailedReport(result: ScanResult) {
   if (result.unusedServices && result.unusedServices.methods.length > 0) {
     console.log(chalk.red.bold('🛠️  Unused Service Methods:\n'));
     for (const method of result.unusedServices.methods) {
-      console.log(chalk.red(`   ${method.name} (${method.serviceClassName})`));
+      console.log(chalk.red(`   ${method.name} (${method.serviceClassName})`) + chalk.dim(coverageLabel(method.covered)) + confidenceLabel(method));
       console.log(chalk.dim(`      → ${method.file}:${method.line}`));
     }
     console.log('');
   }
 
+  // 7.5 Unused Server Actions
+  if (result.unusedServerActions && result.unusedServerActions.actions.length > 0) {
+    console.log(chalk.red.bold('⚡ Unused Server Actions:\n'));
+    for (const action of result.unusedServerActions.actions) {
+      console.log(chalk.red(`   ${action.name}${action.kind === 'inline' ? chalk.dim(' (inline)') : ''}`));
+      console.log(chalk.dim(`      → ${action.file}:${action.line}`));
+    }
+    console.log('');
+  }
+
   // 8. Broken Internal Links
   if (result.brokenLinks && result.brokenLinks.total > 0) {
     console.log(chalk.red.bold('🔗 Broken Internal Links:\n'));
@@ -459,11 +813,58 @@ function printDetailedReport(result: ScanResult) {
     console.log('');
   }
 
+  // 9. OpenAPI Contract Drift
+  if (result.openapi && result.openapi.missingHandlers.length > 0) {
+    console.log(chalk.red.bold('📜 OpenAPI Operations Without a Handler:\n'));
+    for (const op of result.openapi.missingHandlers) {
+      console.log(chalk.red(`   ${op.method} ${op.path}`));
+      console.log(chalk.dim(`      → ${op.file}${op.line ? `:${op.line}` : ''}`));
+    }
+    console.log('');
+  }
+  if (result.openapi && result.openapi.undocumentedRoutes.length > 0) {
+    console.log(chalk.yellow.bold('📜 Route Handlers Missing From the OpenAPI Spec:\n'));
+    for (const route of result.openapi.undocumentedRoutes) {
+      console.log(chalk.yellow(`   ${route.method} ${route.path}`));
+      console.log(chalk.dim(`      → ${route.filePath}${route.line ? `:${route.line}` : ''}`));
+    }
+    console.log('');
+  }
+
+  // 10. Imported but never executed (--coverage --unexecuted)
+  if (result.unexecutedExports && result.unexecutedExports.exports.length > 0) {
+    console.log(chalk.yellow.bold('🧪 Imported Exports That Never Ran in Tests:\n'));
+    for (const exp of result.unexecutedExports.exports) {
+      console.log(chalk.yellow(`   ${exp.name}`));
+      console.log(chalk.dim(`      → ${exp.file}:${exp.line}`));
+    }
+    console.log('');
+  }
+
   if (!hasUnusedItems(result)) {
     console.log(chalk.green('✅ Everything is used! Clean as a whistle.\n'));
   }
 }
 
+/** Import chain of a cycle with the line of each import: a.ts:3 → b.ts:7 → a.ts */
+function formatCycle(cycle: ImportCycle): string {
+  return [...cycle.files.map((file, i) => `${file}:${cycle.lines[i]}`), cycle.files[0]].join(' → ');
+}
+
+/** Whether an item ran during the tests, for reports (empty without --coverage data) */
+function coverageLabel(covered: boolean | undefined): string {
+  if (covered === undefined) return '';
+  return covered ? ' [ran in tests]' : ' [never ran]';
+}
+
+/** Confidence tag for findings below high, with the reasons in verbose mode */
+function confidenceLabel(item: { confidence?: Confidence; confidenceReasons?: string[] }): string {
+  if (!item.confidence || item.confidence === 'high') return '';
+  const label = chalk.yellow(` [${item.confidence} confidence]`);
+  if (!program.opts<PrunyOptions>().verbose || !item.confidenceReasons?.length) return label;
+  return label + chalk.dim(` ${item.confidenceReasons.join('; ')}`);
+}
+
 /**
  * Check if there are any unused items in the result.
  */
@@ -471,6 +872,19 @@ function hasUnusedItems(result: ScanResult): boolean {
   return countIssues(result) > 0;
 }
 
+/**
+ * Whether --fix can remove a route's handlers: Next.js files and exported
+ * methods, NestJS controller methods. tRPC procedures and Express/Fastify/Hono
+ * registrations are calls inside other code and are left for manual cleanup.
+ */
+function isFixableRoute(route: ApiRoute): boolean {
+  return route.type === 'nextjs' || route.type === 'nestjs';
+}
+
+/**
+ * Findings that fail `--all`. Unused and unlisted dependencies are reported
+ * but not counted: usage by tools is matched by name, which is too coarse to fail CI on.
+ */
 function countIssues(result: ScanResult): number {
   const unusedRoutes = result.routes.filter(r => !r.used).length;
   const partialRoutes = result.routes.filter(r => r.used && r.unusedMethods.length > 0).length;
@@ -479,9 +893,13 @@ function countIssues(result: ScanResult): number {
   const brokenLinks = result.brokenLinks ? result.brokenLinks.total : 0;
   const unusedFiles = result.unusedFiles ? result.unusedFiles.unused : 0;
   const unusedExports = result.unusedExports ? result.unusedExports.unused : 0;
+  const circularImports = result.circularImports ? result.circularImports.total : 0;
   const unusedServices = result.unusedServices ? result.unusedServices.total : 0;
+  const unusedServerActions = result.unusedServerActions ? result.unusedServerActions.unused : 0;
+  const openapiDrift = result.openapi ? result.openapi.missingHandlers.length + result.openapi.undocumentedRoutes.length : 0;
+  const unexecutedExports = result.unexecutedExports ? result.unexecutedExports.total : 0;
 
-  return unusedRoutes + partialRoutes + unusedAssets + missingAssets + brokenLinks + unusedFiles + unusedExports + unusedServices;
+  return unusedRoutes + partialRoutes + unusedAssets + missingAssets + brokenLinks + unusedFiles + unusedExports + circularImports + unusedServices + unusedServerActions + openapiDrift + unexecutedExports;
 }
 
 /**
@@ -520,9 +938,10 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
     const choices = [];
 
     // a) Unused Routes
-    const unusedRoutes = result.routes.filter(r => !r.used);
+    const fixableRoutes = result.routes.filter(isFixableRoute);
+    const unusedRoutes = fixableRoutes.filter(r => !r.used);
     // Also partial routes
-    const partiallyRoutes = result.routes.filter(r => r.used && r.unusedMethods && r.unusedMethods.length > 0);
+    const partiallyRoutes = fixableRoutes.filter(r => r.used && r.unusedMethods && r.unusedMethods.length > 0);
 
     const unusedRoutesCount = unusedRoutes.length;
     const partiallyRoutesCount = partiallyRoutes.length;
@@ -576,6 +995,24 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       }
     }
 
+    // d2) Circular Imports (reported for manual refactoring)
+    if (result.circularImports) {
+      const count = result.circularImports.total;
+      const title = count > 0
+        ? `🔁 Circular Imports (${count})`
+        : `✅ Circular Imports (0) - All good!`;
+      choices.push({ title, value: 'cycles' });
+    }
+
+    // d3) Dependencies (reported for manual cleanup)
+    if (result.unusedDependencies || result.unlistedDependencies) {
+      const count = (result.unusedDependencies?.unused ?? 0) + (result.unlistedDependencies?.total ?? 0);
+      const title = count > 0
+        ? `📦 Unused / Unlisted Dependencies (${count})`
+        : `✅ Dependencies (0) - All good!`;
+      choices.push({ title, value: 'dependencies' });
+    }
+
     // e) Unused Services (NestJS only)
     if (result.unusedServices) {
       const count = result.unusedServices.total;
@@ -587,6 +1024,15 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       }
     }
 
+    // e2) Unused Server Actions (reported for manual cleanup)
+    if (result.unusedServerActions && result.unusedServerActions.total > 0) {
+      const count = result.unusedServerActions.unused;
+      const title = count > 0
+        ? `⚡ Unused Server Actions (${count})`
+        : `✅ Unused Server Actions (0) - All good!`;
+      choices.push({ title, value: 'server-actions' });
+    }
+
     // f) Missing Assets (Broken Links)
     if (result.missingAssets) {
       const count = result.missingAssets.total;
@@ -605,6 +1051,24 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       choices.push({ title, value: 'broken-links' });
     }
 
+    // h) OpenAPI Contract Drift (reported for manual follow-up)
+    if (result.openapi) {
+      const count = result.openapi.missingHandlers.length + result.openapi.undocumentedRoutes.length;
+      const title = count > 0
+        ? `📜 OpenAPI Contract Drift (${count})`
+        : `✅ OpenAPI Contract (0) - All good!`;
+      choices.push({ title, value: 'openapi' });
+    }
+
+    // i) Imported exports that never ran (--coverage --unexecuted, reported for review)
+    if (result.unexecutedExports) {
+      const count = result.unexecutedExports.total;
+      const title = count > 0
+        ? `🧪 Exports Never Run in Tests (${count})`
+        : `✅ Exports Never Run in Tests (0) - All good!`;
+      choices.push({ title, value: 'unexecuted' });
+    }
+
 
     choices.push({ title: chalk.blue('🔄 Rescan'), value: 'rescan' });
     if (showBack) {
@@ -678,6 +1142,7 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
     if (selected === 'rescan') {
       console.log(chalk.blue('\n🔄 Rescanning...\n'));
       const fresh = await scan(config);
+      if (options.minConfidence) filterFindings(fresh, config, finding => meetsConfidence(finding.confidence, options.minConfidence as Confidence));
       // Update result in-place so the menu rebuilds with fresh counts
       Object.assign(result, fresh);
       continue;
@@ -704,7 +1169,7 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
     // Always populate predicted exports for cascading check if routes are involved
     const isCleaningRoutes = selected === 'routes' || (options.cleanup && options.cleanup.includes('routes'));
     if (isCleaningRoutes || selected === 'dry-run-json' || action === 'dry-run') {
-      const targetRoutes = result.routes.filter(r => !r.used || (r.used && r.unusedMethods?.length > 0));
+      const targetRoutes = result.routes.filter(r => isFixableRoute(r) && (!r.used || r.unusedMethods?.length > 0));
       // Always calculate if cleaning routes to ensure cascading works correctly
       if (targetRoutes.length > 0) {
         console.log(chalk.dim('   Calculating cascading impact...'));
@@ -718,7 +1183,7 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       let targetRoutes: ApiRoute[] = [];
 
       if (selected === 'routes' || selected === 'dry-run-json') {
-        targetRoutes = result.routes.filter(r => !r.used || (r.used && r.unusedMethods?.length > 0));
+        targetRoutes = result.routes.filter(r => isFixableRoute(r) && (!r.used || r.unusedMethods?.length > 0));
       }
 
       const dryRunReport: { uniqueFiles: number; routes: unknown[]; exports: unknown[]; files: unknown[]; assets: unknown[]; missingAssets: unknown[]; brokenLinks: unknown[] } = {
@@ -780,6 +1245,17 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
         dryRunReport.uniqueFiles = new Set(servicesList.map(m => m.file)).size;
       }
 
+      if (selected === 'server-actions') {
+        const actionsList = result.unusedServerActions?.actions || [];
+        dryRunReport.exports = actionsList.map(a => ({
+          name: a.name,
+          file: a.file,
+          line: a.line,
+          kind: a.kind
+        }));
+        dryRunReport.uniqueFiles = new Set(actionsList.map(a => a.file)).size;
+      }
+
       if (selected === 'files') {
         const filesList = result.unusedFiles?.files || [];
         dryRunReport.files = filesList.map(f => ({
@@ -851,6 +1327,96 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       }
     }
 
+    // 3w. Unused Server Actions
+    if (selectedList.includes('server-actions')) {
+      if (result.unusedServerActions && result.unusedServerActions.actions.length > 0) {
+        console.log(chalk.yellow.bold('\n⚡ Unused Server Actions Detected:'));
+        console.log(chalk.gray('   (Actions may be invoked from forms built at runtime. Please review and remove them manually:)'));
+
+        for (const action of result.unusedServerActions.actions) {
+          console.log(chalk.red.bold(`\n   ❌ ${action.name}`));
+          console.log(chalk.gray(`      ➜ ${action.file}:${action.line}`));
+        }
+      } else {
+        console.log(chalk.green('\n✅ No unused server actions found!'));
+      }
+    }
+
+    // 3w1. Circular Imports
+    if (selectedList.includes('cycles')) {
+      const cycles = result.circularImports?.cycles || [];
+      if (cycles.length > 0) {
+        console.log(chalk.yellow.bold('\n🔁 Circular Imports Detected:'));
+        console.log(chalk.gray('   (Nothing is deleted. Break each cycle by moving shared code into its own module:)'));
+
+        for (const cycle of cycles) {
+          console.log(chalk.yellow.bold(`\n   ⚠ ${cycle.files.length} files`));
+          console.log(chalk.gray(`      ➜ ${formatCycle(cycle)}`));
+        }
+      } else {
+        console.log(chalk.green('\n✅ No circular imports found!'));
+      }
+    }
+
+    // 3w1b. Dependencies
+    if (selectedList.includes('dependencies')) {
+      const unusedDeps = result.unusedDependencies?.dependencies || [];
+      const unlistedDeps = result.unlistedDependencies?.dependencies || [];
+      if (unusedDeps.length > 0 || unlistedDeps.length > 0) {
+        console.log(chalk.yellow.bold('\n📦 Dependency Issues Detected:'));
+        console.log(chalk.gray('   (package.json is not edited automatically. Uninstall unused packages and add the unlisted ones:)'));
+
+        for (const dep of unusedDeps) {
+          console.log(chalk.red.bold(`\n   ❌ Unused${dep.dev ? ' dev' : ''}: ${dep.name}`));
+          console.log(chalk.gray(`      ➜ ${dep.packageJson}${dep.line ? `:${dep.line}` : ''}`));
+        }
+        for (const dep of unlistedDeps) {
+          console.log(chalk.yellow.bold(`\n   ⚠ Not in ${dep.packageJson}: ${dep.name}`));
+          for (const ref of dep.references) {
+            console.log(chalk.gray(`      ➜ ${ref}`));
+          }
+        }
+      } else {
+        console.log(chalk.green('\n✅ package.json matches the imports!'));
+      }
+    }
+
+    // 3w2. OpenAPI Contract Drift
+    if (selectedList.includes('openapi')) {
+      const drift = result.openapi;
+      if (drift && (drift.missingHandlers.length > 0 || drift.undocumentedRoutes.length > 0)) {
+        console.log(chalk.yellow.bold('\n📜 OpenAPI Contract Drift Detected:'));
+        console.log(chalk.gray('   (Implement the missing handlers, or update the spec to match the code:)'));
+
+        for (const op of drift.missingHandlers) {
+          console.log(chalk.red.bold(`\n   ❌ No handler: ${op.method} ${op.path}`));
+          console.log(chalk.gray(`      ➜ ${op.file}${op.line ? `:${op.line}` : ''}`));
+        }
+        for (const route of drift.undocumentedRoutes) {
+          console.log(chalk.yellow.bold(`\n   ⚠ Not in spec: ${route.method} ${route.path}`));
+          console.log(chalk.gray(`      ➜ ${route.filePath}${route.line ? `:${route.line}` : ''}`));
+        }
+      } else {
+        console.log(chalk.green('\n✅ Route handlers match the OpenAPI spec!'));
+      }
+    }
+
+    // 3w3. Imported Exports That Never Ran
+    if (selectedList.includes('unexecuted')) {
+      const unexecuted = result.unexecutedExports?.exports || [];
+      if (unexecuted.length > 0) {
+        console.log(chalk.yellow.bold('\n🧪 Imported Exports That Never Ran in Tests:'));
+        console.log(chalk.gray('   (Still imported, so not removed automatically. Add tests or check whether the callers are dead:)'));
+
+        for (const exp of unexecuted) {
+          console.log(chalk.yellow.bold(`\n   ⚠ ${exp.name}`));
+          console.log(chalk.gray(`      ➜ ${exp.file}:${exp.line}`));
+        }
+      } else {
+        console.log(chalk.green('\n✅ Every imported export ran during the tests!'));
+      }
+    }
+
     // 3x. Missing Assets
     if (selectedList.includes('missing-assets')) {
       if (result.missingAssets && result.missingAssets.total > 0) {
@@ -897,8 +1463,14 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
 
     // 3b. API Routes
     if (selectedList.includes('routes')) {
-      const unusedRoutes = result.routes.filter(r => !r.used);
-      const partiallyRoutes = result.routes.filter(r => r.used && r.unusedMethods && r.unusedMethods.length > 0);
+      const fixableRoutes = result.routes.filter(isFixableRoute);
+      const unusedRoutes = fixableRoutes.filter(r => !r.used);
+      const partiallyRoutes = fixableRoutes.filter(r => r.used && r.unusedMethods && r.unusedMethods.length > 0);
+
+      const manualRoutes = result.routes.filter(r => !isFixableRoute(r) && r.unusedMethods.length > 0);
+      if (manualRoutes.length > 0) {
+        console.log(chalk.yellow(`\n⚠ ${manualRoutes.reduce((n, r) => n + r.unusedMethods.length, 0)} unused tRPC procedure(s) or Express/Fastify/Hono handler(s) must be removed manually`));
+      }
 
       if (unusedRoutes.length === 0 && partiallyRoutes.length === 0) {
         console.log(chalk.green('\n✅ No unused API routes found!'));
@@ -928,7 +1500,9 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
           const fullPath = resolveFilePath(filePath, config);
           const route = fileRoutes[0];
 
-          if (route.type === 'nextjs' && (filePath.includes('app/api') || filePath.includes('pages/api'))) {
+          if (route.router === 'pages') {
+            filesToUnlink.add(fullPath); // Each Pages Router file is one route
+          } else if (route.type === 'nextjs' && filePath.includes('app/api')) {
             filesToUnlink.add(dirname(fullPath)); // Delete folder
           } else if (route.type === 'nestjs' && (result.unusedFiles?.files.some(f => f.path === filePath) || filePath.includes('api/'))) {
             filesToUnlink.add(fullPath); // Delete whole controller file
@@ -961,6 +1535,11 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
         // 2. Process Partially Used Routes
         for (const r of partiallyRoutes) {
           const fullPath = resolveFilePath(r.filePath, config);
+          if (r.router === 'pages') {
+            // Methods are branches inside one default-exported handler
+            console.log(chalk.yellow(`      ⚠ ${r.path}: remove the ${r.unusedMethods.join(', ')} branch${r.unusedMethods.length === 1 ? '' : 'es'} manually`));
+            continue;
+          }
           for (const m of r.unusedMethods) {
             const line = r.methodLines[m];
             if (line !== undefined) {
@@ -1145,6 +1724,13 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
       secondPass.unused = secondPass.exports.length;
       secondPass.total = secondPass.exports.length;
 
+      // Newly unused exports are held to the same --min-confidence as the first pass
+      if (options.minConfidence) {
+        applyConfidence({ total: 0, used: 0, unused: 0, routes: [], unusedExports: secondPass }, config);
+        secondPass.exports = secondPass.exports.filter(e => meetsConfidence(e.confidence, options.minConfidence as Confidence));
+        secondPass.unused = secondPass.exports.length;
+      }
+
       if (secondPass.unused > 0) {
         console.log(chalk.yellow(`   Found ${secondPass.unused} newly unused items/methods after pruning.\n`));
         result.unusedExports = secondPass;
@@ -1161,8 +1747,11 @@ async function handleFixes(result: ScanResult, config: Config, options: PrunyOpt
         const preExisting = new Set(
           (result.unusedServices?.methods || []).map(m => `${m.file}:${m.name}`)
         );
+        if (options.minConfidence) {
+          applyConfidence({ total: 0, used: 0, unused: 0, routes: [], unusedServices: serviceResult }, config);
+        }
         const newlyOrphaned = serviceResult.methods.filter(
-          m => !preExisting.has(`${m.file}:${m.name}`)
+          m => !preExisting.has(`${m.file}:${m.name}`) && (!options.minConfidence || meetsConfidence(m.confidence, options.minConfidence as Confidence))
         );
         console.log(chalk.cyan(` ${newlyOrphaned.length} new`));
 
@@ -1281,13 +1870,16 @@ function printSummaryTable(result: ScanResult, context: string) {
   const sortedKeys = Array.from(groupedRoutes.keys()).sort((a, b) => {
     const [appA, typeA] = a.split('::');
     const [appB, typeB] = b.split('::');
-    if (typeA !== typeB) return typeA === 'nextjs' ? -1 : 1;
+    if (typeA !== typeB) {
+      const order = Object.keys(ROUTE_TYPE_LABELS);
+      return order.indexOf(typeA) - order.indexOf(typeB);
+    }
     return appA.localeCompare(appB);
   });
 
   for (const key of sortedKeys) {
     const group = groupedRoutes.get(key)!;
-    const typeLabel = group.type === 'nextjs' ? 'API Routes (Next.js)' : 'API Routes (NestJS)';
+    const typeLabel = ROUTE_TYPE_LABELS[group.type as ApiRoute['type']];
     summary.push({
       Category: `${typeLabel} (${group.app})`,
       Total: group.routes.length,
@@ -1332,11 +1924,41 @@ function printSummaryTable(result: ScanResult, context: string) {
   if (result.unusedFiles) summary.push({ Category: 'Code Files (.ts/.js)', Total: result.unusedFiles.used + result.unusedFiles.unused, Used: result.unusedFiles.used, Unused: result.unusedFiles.unused });
   if (result.unusedExports) summary.push({ Category: 'Named Exports', Total: result.unusedExports.used + result.unusedExports.unused, Used: result.unusedExports.used, Unused: result.unusedExports.unused });
 
+  // Dependencies — only for apps with a package.json
+  if (result.unusedDependencies) {
+    summary.push({ Category: 'Dependencies', Total: result.unusedDependencies.total, Used: result.unusedDependencies.used, Unused: result.unusedDependencies.unused });
+  }
+  if (result.unlistedDependencies && result.unlistedDependencies.total > 0) {
+    summary.push({ Category: chalk.red.bold('⚠ Unlisted Packages'), Total: result.unlistedDependencies.total, Used: '-', Unused: result.unlistedDependencies.total });
+  }
+
+  // Circular imports — only show when there are any
+  if (result.circularImports && result.circularImports.total > 0) {
+    summary.push({ Category: chalk.yellow('Circular Imports'), Total: result.circularImports.total, Used: '-', Unused: result.circularImports.total });
+  }
+
   // NestJS services — only show for NestJS projects
   if (result.unusedServices && hasNestRoutes) {
     summary.push({ Category: 'NestJS Services', Total: result.unusedServices.total, Used: '-', Unused: result.unusedServices.total });
   }
 
+  // Server actions — only show when the project has any
+  if (result.unusedServerActions && result.unusedServerActions.total > 0) {
+    summary.push({ Category: 'Server Actions', Total: result.unusedServerActions.total, Used: result.unusedServerActions.used, Unused: result.unusedServerActions.unused });
+  }
+
+  // OpenAPI contract — only in contract mode
+  if (result.openapi) {
+    const missing = result.openapi.missingHandlers.length;
+    summary.push({ Category: 'OpenAPI Operations', Total: result.openapi.operations, Used: result.openapi.operations - missing, Unused: missing });
+    summary.push({ Category: 'Undocumented Handlers', Total: result.openapi.undocumentedRoutes.length, Used: '-', Unused: result.openapi.undocumentedRoutes.length });
+  }
+
+  // Imported exports that never ran — only with --coverage --unexecuted
+  if (result.unexecutedExports) {
+    summary.push({ Category: 'Exports Never Run', Total: result.unexecutedExports.total, Used: '-', Unused: result.unexecutedExports.total });
+  }
+
   // HTTP usage — only show clients that are actually used in the project
   if (result.httpUsage) {
     if (result.httpUsage.axios > 0) {
@@ -1357,6 +1979,133 @@ function printSummaryTable(result: ScanResult, context: string) {
 
   // Print compact list of unused items after the summary table
   printUnusedItemsList(result);
+  printStaleSuppressions(result);
+}
+
+/**
+ * List `pruny-ignore-*` comments that no longer suppress any finding.
+ */
+function printStaleSuppressions(result: ScanResult) {
+  const stale = result.suppressions?.stale || [];
+  if (stale.length === 0) return;
+
+  console.log(chalk.yellow.bold(`\n🔕 Stale Suppressions (${stale.length})`));
+  console.log(chalk.dim('   These comments no longer match any finding and can be removed:'));
+  for (const s of stale) {
+    const reason = s.reason ? chalk.dim(` — ${s.reason}`) : '';
+    console.log(chalk.yellow(`  pruny-ignore-${s.kind}  ${s.file}:${s.line}`) + reason);
+  }
+  console.log('');
+}
+
+/**
+ * Print every HTTP route with its code usage and, when access logs were read,
+ * its request count. Routes are only safe to delete when both are empty.
+ */
+function printRouteTraffic(routes: ApiRoute[], withTraffic: boolean) {
+  console.log(chalk.bold(`\n🛣️  API Routes (${routes.length})\n`));
+
+  let deadEverywhere = 0;
+  for (const route of [...routes].sort((a, b) => a.path.localeCompare(b.path))) {
+    const codeRefs = route.references.filter(ref => ref !== '(access log)');
+    const codeUsed = codeRefs.length > 0;
+    const status = !route.used
+      ? chalk.red('unused')
+      : !codeUsed
+        ? chalk.yellow('traffic only')
+        : route.unusedMethods.length > 0
+          ? chalk.yellow(`partial (unused: ${route.unusedMethods.join(', ')})`)
+          : chalk.green('used');
+
+    let traffic = '';
+    if (withTraffic) {
+      traffic = route.hits
+        ? chalk.cyan(`  ${route.hits} hit${route.hits === 1 ? '' : 's'}`) + (route.lastSeen ? chalk.dim(`, last seen ${route.lastSeen}`) : '')
+        : chalk.dim('  no traffic');
+    }
+    if (!route.used) deadEverywhere++;
+
+    const methods = route.methods.length > 0 ? route.methods.join(', ') : 'ALL';
+    console.log(`  ${chalk.bold(route.path)} ${chalk.dim(`[${methods}]`)}  ${status}${traffic}`);
+    console.log(chalk.dim(`      → ${route.filePath}`));
+  }
+
+  const summary = withTraffic ? 'unused in code with no traffic' : 'unused in code';
+  console.log(chalk[deadEverywhere > 0 ? 'yellow' : 'green'](`\n${deadEverywhere} route${deadEverywhere === 1 ? '' : 's'} ${summary}\n`));
+}
+
+/**
+ * Print one `pruny why` explanation: the evidence for a used item, or what
+ * was tried for an unused one.
+ */
+function printExplanation(explanation: Explanation, verbose: boolean) {
+  const verdict = (used: boolean) => used ? chalk.green('used') : chalk.red('unused');
+  const list = (items: string[], limit = verbose ? Infinity : 10) => {
+    for (const item of items.slice(0, limit)) console.log(chalk.dim(`      ${item}`));
+    if (items.length > limit) console.log(chalk.dim(`      ... ${items.length - limit} more (-v to show all)`));
+  };
+  console.log('');
+
+  if (explanation.kind === 'file') {
+    console.log(`📄 ${chalk.bold(explanation.file)}  ${verdict(explanation.used)}`);
+    if (explanation.entryPattern) {
+      console.log(`   Entry point: matches ${chalk.cyan(explanation.entryPattern)}`);
+    } else if (explanation.ignored) {
+      console.log(`   Matches ${chalk.cyan('ignore.files')}: never reported, and its imports are traced`);
+    } else if (explanation.used) {
+      const origin = explanation.chainEntryPattern ? `an entry point matching ${explanation.chainEntryPattern}` : 'a file in ignore.files';
+      console.log(`   Imported from ${origin}:`);
+      console.log(`      ${explanation.chain.join(chalk.dim(' → '))}`);
+    } else {
+      console.log('   Not reachable from any entry point or ignore.files file.');
+      if (explanation.importedBy.length > 0) {
+        console.log('   Imported only by files that are unreachable themselves:');
+        list(explanation.importedBy);
+      }
+      console.log(`   Entry patterns tried (${explanation.entryPatterns!.length}):`);
+      list(explanation.entryPatterns!, verbose ? Infinity : 5);
+    }
+    return;
+  }
+
+  if (explanation.kind === 'route') {
+    const { route } = explanation;
+    const status = !route.used
+      ? chalk.red('unused')
+      : route.unusedMethods.length > 0
+        ? chalk.yellow(`partial (unused: ${route.unusedMethods.join(', ')})`)
+        : chalk.green('used');
+    console.log(`🛣️  ${chalk.bold(route.path)} ${chalk.dim(`[${route.methods.join(', ') || 'ALL'}]`)}  ${status}${confidenceLabel(route)}`);
+    console.log(chalk.dim(`   → ${route.filePath}`));
+    if (explanation.references.length > 0) {
+      console.log('   Referenced by:');
+      list(explanation.references.map(ref =>
+        `${ref.file}${ref.line ? `:${ref.line}` : ''}  ${ref.path}  (${ref.method ?? 'any method'}, ${ref.source})`
+      ));
+    }
+    if (explanation.marks.length > 0) {
+      console.log(`   Marked used by: ${explanation.marks.join(', ')}`);
+    }
+    if (!route.used || route.unusedMethods.length > 0) {
+      console.log(`   References were compared with: ${explanation.pathForms.join(', ')}`);
+      console.log(explanation.httpClientOnly
+        ? '   Only HTTP client calls count for backend routes (fetch, axios, useSWR, httpClients entries, API URL templates)'
+        : '   Reference patterns: HTTP client calls (fetch, axios, useSWR, httpClients entries), /api/ strings and templates, full URLs, path-like strings');
+      console.log('   Also checked: ignore.routes, vercel.json, .github/workflows, known external routes, openapi, --access-log, pruny-ignore comments');
+      for (const reason of route.confidenceReasons ?? []) console.log(chalk.dim(`   ${reason}`));
+    }
+    return;
+  }
+
+  const location = `${explanation.file}${explanation.line ? `:${explanation.line}` : ''}`;
+  const exportVerdict = explanation.suppressedBy ? chalk.yellow('suppressed') : verdict(explanation.used);
+  console.log(`🔗 ${chalk.bold(explanation.name)} ${chalk.dim(`(${location})`)}  ${exportVerdict}${explanation.unused ? confidenceLabel(explanation.unused) : ''}`);
+  if (explanation.references.length > 0) {
+    console.log('   Used in:');
+    list(explanation.references.map(ref => `${ref.file}:${ref.line}  ${ref.text}`));
+  }
+  for (const note of explanation.notes) console.log(`   ${note}`);
+  for (const reason of explanation.unused?.confidenceReasons ?? []) console.log(chalk.dim(`   ${reason}`));
 }
 
 /**
@@ -1410,7 +2159,7 @@ function printUnusedItemsList(result: ScanResult) {
   if (result.unusedExports && result.unusedExports.exports.length > 0) {
     sections.push({
       label: 'Named Exports',
-      items: result.unusedExports.exports.map(e => `${e.name}  ${e.file}:${e.line}`),
+      items: result.unusedExports.exports.map(e => `${e.name}${coverageLabel(e.covered)}  ${e.file}:${e.line}`),
     });
   }
 
@@ -1418,7 +2167,40 @@ function printUnusedItemsList(result: ScanResult) {
   if (result.unusedServices && result.unusedServices.methods.length > 0) {
     sections.push({
       label: 'NestJS Services',
-      items: result.unusedServices.methods.map(m => `${m.name} (${m.serviceClassName})  ${m.file}:${m.line}`),
+      items: result.unusedServices.methods.map(m => `${m.name} (${m.serviceClassName})${coverageLabel(m.covered)}  ${m.file}:${m.line}`),
+    });
+  }
+
+  // 5.5 Circular imports
+  if (result.circularImports && result.circularImports.total > 0) {
+    sections.push({
+      label: 'Circular Imports',
+      items: result.circularImports.cycles.map(formatCycle),
+    });
+  }
+
+  // 5.6 Dependencies
+  if (result.unusedDependencies && result.unusedDependencies.unused > 0) {
+    sections.push({
+      label: 'Dependencies',
+      items: result.unusedDependencies.dependencies.map(d => `${d.name}${d.dev ? ' (dev)' : ''}  ${d.packageJson}${d.line ? `:${d.line}` : ''}`),
+    });
+  }
+  if (result.unlistedDependencies && result.unlistedDependencies.total > 0) {
+    sections.push({
+      label: 'Unlisted Packages',
+      items: result.unlistedDependencies.dependencies.map(d => {
+        const refs = d.references.map(r => `  → ${r}`).join('\n');
+        return `${d.name} (not in ${d.packageJson})\n${refs}`;
+      }),
+    });
+  }
+
+  // 6.5 Unused server actions
+  if (result.unusedServerActions && result.unusedServerActions.actions.length > 0) {
+    sections.push({
+      label: 'Server Actions',
+      items: result.unusedServerActions.actions.map(a => `${a.name}  ${a.file}:${a.line}`),
     });
   }
 
@@ -1444,6 +2226,26 @@ function printUnusedItemsList(result: ScanResult) {
     });
   }
 
+  // 9. OpenAPI contract drift
+  if (result.openapi && result.openapi.missingHandlers.length > 0) {
+    sections.push({
+      label: 'OpenAPI Operations Without a Handler',
+      items: result.openapi.missingHandlers.map(op => `${op.method} ${op.path}  ${op.file}${op.line ? `:${op.line}` : ''}`),
+    });
+  }
+  if (result.openapi && result.openapi.undocumentedRoutes.length > 0) {
+    sections.push({
+      label: 'Handlers Missing From OpenAPI Spec',
+      items: result.openapi.undocumentedRoutes.map(r => `${r.method} ${r.path}  ${r.filePath}${r.line ? `:${r.line}` : ''}`),
+    });
+  }
+  if (result.unexecutedExports && result.unexecutedExports.exports.length > 0) {
+    sections.push({
+      label: 'Exports Never Run in Tests',
+      items: result.unexecutedExports.exports.map(e => `${e.name}  ${e.file}:${e.line}`),
+    });
+  }
+
   if (sections.length === 0) return;
 
   const totalItems = sections.reduce((sum, s) => sum + s.items.length, 0);
@@ -0,0 +1,53 @@
+/**
+ * Programmatic entry point (`import { scan, loadConfig } from 'pruny'`).
+ *
+ * Nothing here prints: scanners report progress only through
+ * `config.reporter`, which is unset unless the caller provides one.
+ *
+ * @example
+ * const config = loadConfig({ dir: process.cwd() });
+ * const result = await scan(config);
+ * const findings = collectFindings(result, config);
+ */
+
+export { scan } from './scanner.js';
+export { loadConfig, DEFAULT_CONFIG, type CLIOptions } from './config.js';
+export { collectFindings, filterFindings, FINDING_RULES, type Finding, type FindingRule, type FindingRuleInfo } from './findings.js';
+export { toSarif, type SarifLog } from './sarif.js';
+export { BASELINE_FILE, writeBaseline, readBaseline, applyBaseline } from './baseline.js';
+export { getGitChanges, applyChangedFilter, type GitChanges } from './changed.js';
+export { parseAccessLog, type RouteTraffic } from './access-log.js';
+export { parseCoverage, type CoverageData, type FileCoverage, type FunctionCoverage } from './coverage.js';
+export { CONFIDENCE_REASONS, scoreConfidence, meetsConfidence } from './confidence.js';
+export { createModuleGraph, formatModuleGraph, toDot, toMermaid, type ModuleGraph, type ModuleNode, type GraphFormat } from './graph.js';
+export { explain, type Explanation, type FileExplanation, type RouteExplanation, type ExportExplanation, type ExportReference } from './why.js';
+export { createFileIndex, type FileIndex, type FileGlobOptions } from './file-index.js';
+export { discoverWorkspaces, detectWorkspaces, findWorkspace, readWorkspacePackages, packageEntryTargets, workspaceImportTargets, type Workspace, type WorkspacePackage } from './workspaces.js';
+
+export type {
+  Config,
+  Confidence,
+  IgnoreConfig,
+  HttpClientConfig,
+  OpenApiConfig,
+  OpenApiOperation,
+  UndocumentedRoute,
+  UnexecutedExport,
+  Reporter,
+  ScanResult,
+  ApiRoute,
+  RouteReference,
+  PublicAsset,
+  SourceAsset,
+  UnusedFile,
+  UnusedExport,
+  ImportCycle,
+  UnusedDependency,
+  UnlistedDependency,
+  UnusedServiceMethod,
+  UnusedServerAction,
+  MissingAsset,
+  MissingAssetsResult,
+  BrokenLink,
+  Suppression,
+} from './types.js';
@@ -0,0 +1,286 @@
+/**
+ * OpenAPI / Swagger specs (`openapi` config). Operations listed in a spec
+ * are either called by clients outside the repo (consumer mode: matching
+ * routes count as used) or the contract the handlers must implement
+ * (contract mode: report drift in both directions).
+ */
+
+import { readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import type { ApiRoute, Config, OpenApiOperation, ScanResult, UndocumentedRoute } from './types.js';
+import { escapeRegExp, report, splitTopLevel } from './utils.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/** `key: value` / `key:` with a double-quoted, single-quoted or plain key */
+const MAPPING_ENTRY = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^"'\s[{].*?))\s*:(?:\s+(.*))?$/;
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+/** Drop a trailing `# comment` outside quotes */
+function stripYamlComment(line: string): string {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = '';
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s:,[{-]/.test(line[i - 1]))) {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function unquote(text: string, quote: '"' | "'"): string {
+  if (quote === "'") return text.replace(/''/g, "'");
+  try {
+    return JSON.parse(`"${text}"`) as string;
+  } catch {
+    return text;
+  }
+}
+
+function parseScalar(raw: string): unknown {
+  const text = raw.replace(/^(?:&\S+|!\S*)\s*/, '').trim();
+  if (text.startsWith('*')) return null; // Aliases are not resolved
+  if (text.startsWith('"') && text.endsWith('"') && text.length > 1) return unquote(text.slice(1, -1), '"');
+  if (text.startsWith("'") && text.endsWith("'") && text.length > 1) return unquote(text.slice(1, -1), "'");
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return splitTopLevel(text, 1, text.length - 1).map(([item]) => item.trim()).filter(Boolean).map(parseScalar);
+  }
+  if (text.startsWith('{') && text.endsWith('}')) {
+    const map: Record<string, unknown> = {};
+    for (const [item] of splitTopLevel(text, 1, text.length - 1)) {
+      const entry = item.trim().match(MAPPING_ENTRY);
+      if (entry) map[entry[1] ?? entry[2] ?? entry[3]] = entry[4] === undefined ? null : parseScalar(entry[4]);
+    }
+    return map;
+  }
+  if (/^(?:~|null)?$/i.test(text)) return null;
+  if (/^(?:true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Parse the YAML subset specs are written in: block mappings and sequences,
+ * plain/quoted scalars, flow collections and block scalars (`|`, `>`).
+ * Anchors are dropped and aliases read as null.
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = stripYamlComment(raw).trimEnd();
+    if (!line.trim() || /^(?:---|\.\.\.)(?:\s|$)/.test(line)) continue;
+    lines.push({ indent: line.length - line.trimStart().length, text: line.trim() });
+  }
+  let pos = 0;
+
+  // Plain scalars and flow collections may continue on more-indented lines
+  const withContinuation = (value: string, indent: number) => {
+    const parts = [value];
+    while (pos < lines.length && lines[pos].indent > indent) parts.push(lines[pos++].text);
+    return parts.join(' ');
+  };
+
+  const parseBlock = (indent: number): unknown => {
+    const line = lines[pos];
+    if (!line || line.indent < indent) return null;
+    return isSequenceItem(line.text) ? parseSequence(line.indent) : parseMapping(line.indent);
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        pos++;
+        items.push(parseBlock(indent + 1));
+      } else if (isSequenceItem(rest) || MAPPING_ENTRY.test(rest)) {
+        // The item's first entry shares the dash line: re-read it at its own column
+        lines[pos] = { indent: indent + line.text.length - rest.length, text: rest };
+        items.push(parseBlock(lines[pos].indent));
+      } else {
+        pos++;
+        items.push(parseScalar(withContinuation(rest, indent)));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const entry = lines[pos++].text.match(MAPPING_ENTRY);
+      if (!entry) {
+        withContinuation('', indent);
+        continue;
+      }
+      const key = entry[1] !== undefined ? unquote(entry[1], '"') : entry[2] !== undefined ? unquote(entry[2], "'") : entry[3];
+      const value = (entry[4] ?? '').replace(/^&\S+\s*/, '');
+
+      if (!value) {
+        const next = lines[pos];
+        const nested = next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)));
+        map[key] = nested ? parseBlock(next.indent) : null;
+      } else if (/^[|>][+-]?\d*$/.test(value)) {
+        const parts: string[] = [];
+        while (pos < lines.length && lines[pos].indent > indent) parts.push(lines[pos++].text);
+        map[key] = parts.join(value.startsWith('|') ? '\n' : ' ');
+      } else {
+        map[key] = parseScalar(withContinuation(value, indent));
+      }
+    }
+    return map;
+  };
+
+  return parseBlock(0);
+}
+
+/** Path prefixes from OpenAPI 3 `servers[].url` and Swagger 2 `basePath` */
+function specBasePaths(spec: Record<string, unknown>): string[] {
+  const bases = new Set<string>();
+  if (typeof spec.basePath === 'string') bases.add(spec.basePath);
+  if (Array.isArray(spec.servers)) {
+    for (const server of spec.servers as { url?: unknown; variables?: Record<string, { default?: unknown }> }[]) {
+      if (typeof server?.url !== 'string') continue;
+      const url = server.url.replace(/\{([^}]+)\}/g, (_m, name: string) => String(server.variables?.[name]?.default ?? ''));
+      try {
+        bases.add(decodeURI(new URL(url, 'http://localhost').pathname));
+      } catch {
+        // Unparseable server URL
+      }
+    }
+  }
+  return [...bases].map(base => base.replace(/\/+$/, '')).filter(Boolean);
+}
+
+/** Line of `method:` below the `path:` key, falling back to the path's own line */
+function operationLine(content: string, path: string, method: string): number | undefined {
+  const pathKey = new RegExp(`(['"]?)${escapeRegExp(path)}\\1\\s*:`).exec(content);
+  if (!pathKey) return undefined;
+  const methodKey = new RegExp(`(['"]?)\\b${method}\\1\\s*:`, 'g');
+  methodKey.lastIndex = pathKey.index + pathKey[0].length;
+  const index = methodKey.exec(content)?.index ?? pathKey.index;
+  return content.substring(0, index).split('\n').length;
+}
+
+/**
+ * Operations listed in one spec's `paths`. `file` is recorded on each
+ * operation as given. Throws when the content is not a spec.
+ */
+export function parseOpenApiSpec(content: string, file: string): OpenApiOperation[] {
+  const spec = (/^\s*\{/.test(content) ? JSON.parse(content) : parseYaml(content)) as Record<string, unknown> | null;
+  if (!spec || typeof spec.paths !== 'object' || spec.paths === null) {
+    throw new Error(`No paths in OpenAPI spec ${file}`);
+  }
+
+  const basePaths = specBasePaths(spec);
+  const operations: OpenApiOperation[] = [];
+  for (const [path, item] of Object.entries(spec.paths as Record<string, unknown>)) {
+    if (!item || typeof item !== 'object') continue;
+    for (const method of HTTP_METHODS) {
+      if (!(method in item)) continue;
+      operations.push({ method: method.toUpperCase(), path, basePaths, file, line: operationLine(content, path, method) });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Operations from every spec in `config.openapi`. Specs that can't be read
+ * or parsed are reported and skipped.
+ */
+export function loadOpenApiOperations(config: Config): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+  for (const spec of config.openapi?.specs ?? []) {
+    const file = resolve(config.dir, spec);
+    try {
+      operations.push(...parseOpenApiSpec(readFileSync(file, 'utf-8'), relative(config.dir, file)));
+    } catch {
+      report(config, `   ⚠️  Could not read OpenAPI spec ${spec}\n`);
+    }
+  }
+  if (operations.length > 0) report(config, `   📜 ${operations.length} OpenAPI operations\n`);
+  return operations;
+}
+
+/** Path segments with every parameter style (`{id}`, `[id]`, `:id`) collapsed to `:` */
+function pathSegments(path: string): string[] {
+  return path.toLowerCase().split('/').filter(Boolean).map(segment => {
+    if (/^\[\[?\.\.\./.test(segment) || segment === '*') return '**';
+    if (/^\{[^}]+\}$|^\[[^\]]+\]$|^:/.test(segment)) return ':';
+    return segment;
+  });
+}
+
+function segmentsMatch(spec: string[], route: string[]): boolean {
+  for (let i = 0; i < route.length; i++) {
+    if (route[i] === '**') return true;
+    if (spec[i] !== route[i]) return false;
+  }
+  return spec.length === route.length;
+}
+
+/** Whether the operation's path, with or without a server base path, is the route's path */
+export function operationMatchesRoute(operation: OpenApiOperation, route: ApiRoute): boolean {
+  const routeSegments = pathSegments(route.path);
+  return [operation.path, ...operation.basePaths.map(base => base + operation.path)]
+    .some(path => segmentsMatch(pathSegments(path), routeSegments));
+}
+
+/** Method-agnostic Pages Router handlers serve every method */
+function servesMethod(route: ApiRoute, method: string): boolean {
+  return route.methods.includes(method) || (route.router === 'pages' && route.methods.length === 0);
+}
+
+/**
+ * Consumer mode: routes serving a spec operation are called from outside the
+ * repo. Their listed methods count as used, with an `(openapi)` reference.
+ */
+export function markOpenApiRoutes(routes: ApiRoute[], operations: OpenApiOperation[]): void {
+  for (const route of routes) {
+    if (route.type === 'trpc') continue;
+    const methods = new Set(operations.filter(op => operationMatchesRoute(op, route) && servesMethod(route, op.method)).map(op => op.method));
+    if (methods.size === 0) continue;
+
+    if (!route.used) {
+      route.used = true;
+      route.unusedMethods = [...route.methods];
+    }
+    route.unusedMethods = route.unusedMethods.filter(m => !methods.has(m));
+    route.references.push('(openapi)');
+  }
+}
+
+/**
+ * Contract mode: spec operations no route serves, and route handlers no
+ * operation lists.
+ */
+export function diffOpenApi(routes: ApiRoute[], operations: OpenApiOperation[]): NonNullable<ScanResult['openapi']> {
+  const httpRoutes = routes.filter(route => route.type !== 'trpc');
+  const missingHandlers = operations.filter(op =>
+    !httpRoutes.some(route => operationMatchesRoute(op, route) && servesMethod(route, op.method))
+  );
+
+  const undocumentedRoutes: UndocumentedRoute[] = [];
+  for (const route of httpRoutes) {
+    for (const method of route.methods) {
+      if (operations.some(op => op.method === method && operationMatchesRoute(op, route))) continue;
+      undocumentedRoutes.push({ method, path: route.path, filePath: route.filePath, line: route.methodLines[method] });
+    }
+  }
+
+  return { operations: operations.length, missingHandlers, undocumentedRoutes };
+}
@@ -1,3 +1,6 @@
+import type { HttpClientConfig } from './types.js';
+import { escapeRegExp, findClosingBracket, splitTopLevel } from './utils.js';
+
 /**
  * Regex patterns to detect API route usage in source files
  */
@@ -33,26 +36,99 @@ export const API_PATTERNS: RegExp[] = [
  */
 export const EXPORTED_METHOD_PATTERN = /export\s+(?:async\s+)?(?:function|const)\s+(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)/g;
 
+/**
+ * Pages Router method checks in pages/api handlers
+ * Matches: req.method === 'POST', req.method !== "GET", 'DELETE' == req.method
+ */
+export const PAGES_METHOD_CHECK_PATTERN = /\.method\s*[!=]==?\s*['"`](GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)['"`]|['"`](GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)['"`]\s*[!=]==?\s*[\w$.]+\.method\b/g;
+
+/**
+ * Pages Router method switch: switch (req.method) { case 'GET': ... }
+ */
+export const PAGES_METHOD_SWITCH_PATTERN = /switch\s*\(\s*[\w$.]+\.method\s*\)/;
+export const PAGES_METHOD_CASE_PATTERN = /case\s+['"`](GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)['"`]\s*:/g;
+
 /**
  * NestJS Controller Pattern
  * Matches: @Controller('users') or @Controller()
+ * Group 2 holds other path expressions: @Controller(['v1/users', 'users']), @Controller(ROUTES.USERS)
  */
-export const NEST_CONTROLLER_PATTERN = /@Controller\s*\(\s*(?:['"`]([^'"`]*)['"`])?\s*\)/;
+export const NEST_CONTROLLER_PATTERN = /@Controller\s*\(\s*(?:['"`]([^'"`]*)['"`]|([A-Za-z_$[][^()]*?))?\s*\)/;
+
+/**
+ * NestJS Controller object syntax
+ * Matches: @Controller({ path: 'users', version: '2' })
+ */
+export const NEST_CONTROLLER_OBJECT_PATTERN = /@Controller\s*\(\s*\{([^}]*)\}\s*\)/;
+
+/**
+ * NestJS version values: '2', ['1', '2'], VERSION_NEUTRAL
+ * Matches: @Version('2'), version: ['1', '2'], defaultVersion: VERSION_NEUTRAL
+ */
+export const NEST_VERSION_DECORATOR_PATTERN = /@Version\s*\(\s*(\[[^\]]*\]|['"`][^'"`]*['"`]|VERSION_NEUTRAL)\s*\)/;
+export const NEST_VERSION_OPTION_PATTERN = /\b(?:default)?[vV]ersion\s*:\s*(\[[^\]]*\]|['"`][^'"`]*['"`]|VERSION_NEUTRAL)/;
+
+/**
+ * NestJS versioning setup in main.ts
+ * Matches: app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' })
+ */
+export const NEST_VERSIONING_PATTERN = /\.enableVersioning\s*\(\s*\{([^}]*)\}/;
 
 /**
  * NestJS Method Pattern
  * Matches: @Get('profile'), @Post(), etc.
+ * Group 3 holds other path expressions: @Get(['a', 'b']), @Get(ROUTES.USERS)
+ */
+export const NEST_METHOD_PATTERN = /@(Get|Post|Put|Delete|Patch|Options|Head|All)\s*\(\s*(?:['"`]([^'"`]*)['"`]|([A-Za-z_$[][^()]*?))?\s*\)/g;
+
+/**
+ * Express / Hono / Fastify server instances
+ * Matches: const app = express(), const router = express.Router(), const api = Router(),
+ * const app = new Hono(), const app = new Hono().basePath('/api'), const server = Fastify({ ... })
+ */
+export const SERVER_INSTANCE_PATTERN = /(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:(express)\s*\(|(?:express\s*\.\s*)?(Router)\s*\(|new\s+(Hono)\b(?:<[^>]*>)?\s*\([^)]*\)(?:\s*\.\s*basePath\s*\(\s*['"`]([^'"`]*)['"`]\s*\))?|([Ff]astify)\s*\()/g;
+
+/**
+ * Fastify plugin parameters, which receive a scoped instance
+ * Matches: async function routes(app: FastifyInstance), (fastify: FastifyInstance, opts) =>
+ */
+export const FASTIFY_INSTANCE_PARAM_PATTERN = /([A-Za-z_$][\w$]*)\s*:\s*FastifyInstance\b/g;
+
+/**
+ * Route registration on a server instance (the caller checks the receiver)
+ * Matches: app.get('/users', ...), router.post("/users/:id", ...), fastify.delete(`/x`, ...)
  */
-export const NEST_METHOD_PATTERN = /@(Get|Post|Put|Delete|Patch|Options|Head|All)\s*\(\s*(?:['"`]([^'"`]*)['"`])?\s*\)/g;
+export const SERVER_ROUTE_PATTERN = /(?<![\w$.])([A-Za-z_$][\w$]*)\s*\.\s*(get|post|put|delete|patch|options|head)\s*\(\s*['"`](\/[^'"`]*)['"`]/g;
+
+/**
+ * Mounting and Fastify route objects on a server instance (arguments parsed by the caller)
+ * Matches: app.use('/api', router), app.route('/users', users), app.register(plugin, { prefix }), fastify.route({ ... })
+ */
+export const SERVER_MOUNT_PATTERN = /(?<![\w$.])([A-Za-z_$][\w$]*)\s*\.\s*(use|route|register)\s*\(/g;
+
+/**
+ * Request calls whose method is read from their arguments (parsed by the caller)
+ * Matches: fetch(, window.fetch(, new Request(, axios(
+ */
+export const REQUEST_CALL_PATTERN = /(?<![\w$])(fetch|new\s+Request|axios)\s*(?:<[^>]+>)?\s*\(/g;
 
 export interface ApiReference {
   path: string;
   method?: string;
   /** Where this reference came from: 'http-client' (fetch/axios/useSWR) or 'generic' (string literal) */
   source: 'http-client' | 'generic';
+  /** Index of the path in the content, when it appears verbatim; the first occurrence for repeated references */
+  offset?: number;
 }
 
-export const API_METHOD_PATTERNS: { regex: RegExp; method?: string; source: 'http-client' | 'generic' }[] = [
+export interface ApiMethodPattern {
+  /** Captures the path in group 1 (or a named `path` group); a named `method` group, when it matches, overrides `method` */
+  regex: RegExp;
+  method?: string;
+  source: 'http-client' | 'generic';
+}
+
+export const API_METHOD_PATTERNS: ApiMethodPattern[] = [
   // axios.get/post/put/delete/patch (Literals)
   { regex: /(?:axios|api|http|client|service)!?\.get\s*(?:<[^>]+>)?\s*\(\s*['"`](\/[^'"`\s)]+)['"`]/g, method: 'GET', source: 'http-client' },
   { regex: /(?:axios|api|http|client|service)!?\.post\s*(?:<[^>]+>)?\s*\(\s*['"`](\/[^'"`\s)]+)['"`]/g, method: 'POST', source: 'http-client' },
@@ -105,10 +181,158 @@ export const API_METHOD_PATTERNS: { regex: RegExp; method?: string; source: 'htt
   { regex: /['"`](\/api\/[^'"`\s]*)['"`]/g, method: undefined, source: 'http-client' },
 ];
 
+const HTTP_CLIENT_VERBS = ['get', 'post', 'put', 'delete', 'patch'];
+
+/** URL argument forms: a plain string literal, or a template literal (may contain ${} prefixes) */
+const URL_LITERAL = '[\'"`](?<path>\\/[^\'"`\\s)]+)[\'"`]';
+const URL_TEMPLATE = '`(?<path>[^`]*?\\/[^`]*)`';
+
+/**
+ * Build reference patterns for the `httpClients` config entries.
+ * Matches: backend.get('/x'), $fetch('/x', { method: 'POST' }), request({ url: '/x', method: 'POST' })
+ */
+export function buildHttpClientPatterns(clients: HttpClientConfig[]): ApiMethodPattern[] {
+  const patterns: ApiMethodPattern[] = [];
+  const names = (list: string[]) => list.map(escapeRegExp).join('|');
+
+  for (const client of clients) {
+    if (client.receivers?.length) {
+      const receiver = `(?<![\\w$])(?:${names(client.receivers)})!?\\s*\\.\\s*`;
+      for (const verb of HTTP_CLIENT_VERBS) {
+        for (const url of [URL_LITERAL, URL_TEMPLATE]) {
+          patterns.push({
+            regex: new RegExp(`${receiver}${verb}\\s*(?:<[^>]+>)?\\s*\\(\\s*${url}`, 'g'),
+            method: verb.toUpperCase(),
+            source: 'http-client',
+          });
+        }
+      }
+    }
+
+    if (client.functions?.length) {
+      // The method option may sit before or after the URL, so it is looked up from the opening paren
+      const fixedMethod = typeof client.method === 'string' ? client.method.toUpperCase() : undefined;
+      const methodLookahead = typeof client.method === 'object'
+        ? `(?=(?:[^)]*?\\b${escapeRegExp(client.method.option)}\\s*:\\s*['"\`](?<method>[A-Za-z]+)['"\`])?)`
+        : '';
+      const call = `(?<![\\w$])(?:${names(client.functions)})\\s*(?:<[^>]+>)?\\s*\\(\\s*${methodLookahead}`;
+      const urlPrefix = typeof client.url === 'object'
+        ? `[^)]*?\\b${escapeRegExp(client.url.option)}\\s*:\\s*`
+        : '(?:[^,()]+,\\s*)'.repeat(client.url ?? 0);
+
+      for (const url of [URL_LITERAL, URL_TEMPLATE]) {
+        patterns.push({ regex: new RegExp(`${call}${urlPrefix}${url}`, 'g'), method: fixedMethod, source: 'http-client' });
+      }
+    }
+  }
+
+  return patterns;
+}
+
+interface RequestCall {
+  path: string;
+  method?: string;
+  start: number;
+  end: number;
+}
+
+/** The path of a URL argument: '/x', `/x/${id}`, `${base}/x` or 'https://host/x' */
+function urlArgumentPath(expr: string): string | undefined {
+  const literal = expr.match(/^(['"`])(?:https?:\/\/[^/'"`\s]+)?(\/[^'"`\s]*)\1$/);
+  if (literal) return literal[2];
+  const template = expr.match(/^`([^`]*?\/[^`]*)`$/);
+  return template?.[1];
+}
+
+/** Initializer text of `const name = ...` in the same file (up to the end of its literal) */
+function constInitializer(content: string, name: string): string | undefined {
+  const declaration = new RegExp(`\\bconst\\s+${escapeRegExp(name)}\\s*(?::[^=]+)?=\\s*`).exec(content);
+  if (!declaration) return undefined;
+  const start = declaration.index + declaration[0].length;
+  if (content[start] === '{') {
+    const close = findClosingBracket(content, start);
+    return close === -1 ? undefined : content.slice(start, close + 1);
+  }
+  return content.slice(start).match(/^(['"`])[^'"`]*\1/)?.[0];
+}
+
+/** A method given as a string literal or a same-file const ('DELETE', METHOD) */
+function methodValue(expr: string, content: string): string | undefined {
+  const value = /^[A-Za-z_$][\w$]*$/.test(expr) ? constInitializer(content, expr) : expr;
+  return value?.match(/^(['"`])([A-Za-z]+)\1$/)?.[2].toUpperCase();
+}
+
+/** Object literal text for an options argument: inline `{ ... }` or a same-file const */
+function objectArgument(expr: string, content: string): string | undefined {
+  if (expr.startsWith('{')) return expr;
+  if (/^[A-Za-z_$][\w$]*$/.test(expr)) {
+    const value = constInitializer(content, expr);
+    if (value?.startsWith('{')) return value;
+  }
+  return undefined;
+}
+
+/** Value expression of `key` in an object literal; undefined when absent or a later spread may override it */
+function objectProperty(object: string, key: string): string | undefined {
+  let value: string | undefined;
+  for (const [raw] of splitTopLevel(object, 1, object.length - 1)) {
+    const entry = raw.trim();
+    if (entry.startsWith('...')) {
+      value = undefined;
+      continue;
+    }
+    const property = entry.match(/^(?:(['"]?)([A-Za-z_$][\w$]*)\1\s*:\s*([\s\S]+)|([A-Za-z_$][\w$]*))$/);
+    if (property && (property[2] ?? property[4]) === key) value = property[3]?.trim() ?? key;
+  }
+  return value;
+}
+
 /**
- * Extract all API paths referenced in content with potential methods
+ * Method set in a request's options argument. Calls without one stay
+ * method-agnostic, like the plain `fetch(` patterns.
  */
-export function extractApiReferences(content: string): ApiReference[] {
+function optionsMethod(expr: string | undefined, content: string): string | undefined {
+  const object = expr ? objectArgument(expr, content) : undefined;
+  const method = object ? objectProperty(object, 'method') : undefined;
+  return method ? methodValue(method, content) : undefined;
+}
+
+/**
+ * `fetch(url, init)`, `new Request(url, init)` and `axios(url, config)` /
+ * `axios({ url, method })` calls with the method read from the options object.
+ */
+function extractRequestCalls(content: string): RequestCall[] {
+  const calls: RequestCall[] = [];
+  const pattern = new RegExp(REQUEST_CALL_PATTERN.source, REQUEST_CALL_PATTERN.flags);
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosingBracket(content, open);
+    if (close === -1) continue;
+    const args = splitTopLevel(content, open + 1, close).map(([text]) => text.trim()).filter(Boolean);
+    if (args.length === 0) continue;
+
+    let path = urlArgumentPath(args[0]);
+    let method: string | undefined;
+    if (path !== undefined) {
+      method = optionsMethod(args[1], content);
+    } else if (match[1] === 'axios') {
+      const config = objectArgument(args[0], content);
+      const url = config ? objectProperty(config, 'url') : undefined;
+      path = url ? urlArgumentPath(url) : undefined;
+      method = optionsMethod(args[0], content);
+    }
+
+    if (path) calls.push({ path, method, start: match.index, end: close + 1 });
+  }
+  return calls;
+}
+
+/**
+ * Extract all API paths referenced in content with potential methods.
+ * `extraPatterns` come from the `httpClients` config (see buildHttpClientPatterns).
+ */
+export function extractApiReferences(content: string, extraPatterns: ApiMethodPattern[] = []): ApiReference[] {
   interface Match {
     path: string;
     method?: string;
@@ -119,15 +343,16 @@ export function extractApiReferences(content: string): ApiReference[] {
 
   const matches: Match[] = [];
 
-  for (const { regex, method, source } of API_METHOD_PATTERNS) {
+  for (const { regex, method, source } of [...API_METHOD_PATTERNS, ...extraPatterns]) {
     regex.lastIndex = 0;
 
     let regexMatch: RegExpExecArray | null;
     while ((regexMatch = regex.exec(content)) !== null) {
-      if (regexMatch[1]) {
+      const path = regexMatch.groups?.path ?? regexMatch[1];
+      if (path) {
         matches.push({
-          path: regexMatch[1],
-          method,
+          path,
+          method: regexMatch.groups?.method?.toUpperCase() ?? method,
           source,
           start: regexMatch.index,
           end: regexMatch.index + regexMatch[0].length,
@@ -136,6 +361,10 @@ export function extractApiReferences(content: string): ApiReference[] {
     }
   }
 
+  for (const call of extractRequestCalls(content)) {
+    matches.push({ ...call, source: 'http-client' });
+  }
+
   // Deduction/filtering Strategy:
   // 1. Prioritize matches with a Method (e.g. axios.get) over generic ones.
   // 2. Prioritize longer matches (captures more context) over shorter ones (e.g. fetch(...) > 'string').
@@ -174,21 +403,26 @@ export function extractApiReferences(content: string): ApiReference[] {
 
   // Deduplication by key (path + method)
   const references: ApiReference[] = [];
-  const seen = new Set<string>();
+  const byKey = new Map<string, ApiReference>();
 
   for (const match of acceptedMatches) {
     const key = `${match.path}::${match.method || 'ANY'}`;
-    if (!seen.has(key)) {
-      references.push({ path: match.path, method: match.method, source: match.source });
-      seen.add(key);
-    } else {
-      // If already seen but this one is http-client, upgrade the source
-      if (match.source === 'http-client') {
-        const existing = references.find(r => `${r.path}::${r.method || 'ANY'}` === key);
-        if (existing && existing.source === 'generic') {
-          existing.source = 'http-client';
-        }
-      }
+    const pathIndex = content.indexOf(match.path, match.start);
+    const offset = pathIndex !== -1 && pathIndex < match.end ? pathIndex : undefined;
+    const existing = byKey.get(key);
+    if (!existing) {
+      const reference: ApiReference = { path: match.path, method: match.method, source: match.source };
+      if (offset !== undefined) reference.offset = offset;
+      references.push(reference);
+      byKey.set(key, reference);
+      continue;
+    }
+    // If already seen but this one is http-client, upgrade the source
+    if (match.source === 'http-client' && existing.source === 'generic') {
+      existing.source = 'http-client';
+    }
+    if (offset !== undefined && (existing.offset === undefined || offset < existing.offset)) {
+      existing.offset = offset;
     }
   }
 
@@ -0,0 +1,98 @@
+/**
+ * SARIF 2.1.0 output for `--format sarif`.
+ * Each scanner is a separate rule so code-scanning UIs can filter by category.
+ */
+
+import { pathToFileURL } from 'node:url';
+import { relative, sep } from 'node:path';
+import { FINDING_RULES, type Finding } from './findings.js';
+import { getPrunyRepositoryUrl } from './cache.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri?: string;
+      rules: {
+        id: string;
+        name: string;
+        shortDescription: { text: string };
+        defaultConfiguration: { level: string };
+      }[];
+    };
+  };
+  originalUriBaseIds: { [id: string]: { uri: string } };
+  results: SarifResultEntry[];
+}
+
+interface SarifResultEntry {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number };
+    };
+  }[];
+  properties?: { confidence: string; confidenceReasons: string[] };
+}
+
+/**
+ * Build a SARIF log from scan findings. File locations are written relative
+ * to `baseDir` (normally the repository or monorepo root).
+ */
+export function toSarif(findings: Finding[], baseDir: string): SarifLog {
+  const ruleIndex = new Map(FINDING_RULES.map((rule, i) => [rule.id, i]));
+
+  const results: SarifResultEntry[] = findings.map(finding => {
+    const rule = FINDING_RULES[ruleIndex.get(finding.rule)!];
+    const uri = relative(baseDir, finding.file).split(sep).join('/');
+    return {
+      ruleId: rule.id,
+      ruleIndex: ruleIndex.get(rule.id)!,
+      level: rule.level,
+      message: { text: finding.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri, uriBaseId: SRCROOT },
+          ...(finding.line ? { region: { startLine: finding.line } } : {}),
+        },
+      }],
+      ...(finding.confidence ? { properties: { confidence: finding.confidence, confidenceReasons: finding.confidenceReasons ?? [] } } : {}),
+    };
+  });
+
+  const informationUri = getPrunyRepositoryUrl();
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'pruny',
+          ...(informationUri ? { informationUri } : {}),
+          rules: FINDING_RULES.map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: rule.level },
+          })),
+        },
+      },
+      // Trailing slash is required for the base URI to resolve relative paths
+      originalUriBaseIds: { [SRCROOT]: { uri: pathToFileURL(baseDir).href.replace(/\/?$/, '/') } },
+      results,
+    }],
+  };
+}
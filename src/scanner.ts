@@ -1,26 +1,47 @@
 import fg from 'fast-glob';
 import { existsSync, readFileSync } from 'node:fs';
 import chalk from 'chalk';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
+import { createHash } from 'node:crypto';
 import {
+  buildHttpClientPatterns,
   extractApiReferences,
   EXPORTED_METHOD_PATTERN,
+  PAGES_METHOD_CHECK_PATTERN,
+  PAGES_METHOD_SWITCH_PATTERN,
+  PAGES_METHOD_CASE_PATTERN,
   NEST_CONTROLLER_PATTERN,
+  NEST_CONTROLLER_OBJECT_PATTERN,
   NEST_METHOD_PATTERN,
+  NEST_VERSION_DECORATOR_PATTERN,
+  NEST_VERSION_OPTION_PATTERN,
+  NEST_VERSIONING_PATTERN,
   type ApiReference
 } from './patterns.js';
 import type { Config, ApiRoute, ScanResult, VercelConfig } from './types.js';
 import { minimatch } from 'minimatch';
 import { scanPublicAssets } from './scanners/public-assets.js';
-import { scanUnusedFiles } from './scanners/unused-files.js';
+import { buildImportGraph, scanUnusedFiles } from './scanners/unused-files.js';
+import { scanCircularImports } from './scanners/circular-imports.js';
+import { scanDependencies } from './scanners/dependencies.js';
 import { scanUnusedExports } from './scanners/unused-exports.js';
 import { scanHttpUsage } from './scanners/http-usage.js';
 import { scanSourceAssets } from './scanners/source-assets.js';
 import { scanMissingAssets } from './scanners/missing-assets.js';
 import { scanUnusedServices } from './scanners/unused-services.js';
-import { scanBrokenLinks } from './scanners/broken-links.js';
-
-export { scanUnusedExports, scanUnusedFiles, scanHttpUsage, scanSourceAssets, scanMissingAssets, scanUnusedServices, scanBrokenLinks };
+import { scanBrokenLinks, resolveStringConstant } from './scanners/broken-links.js';
+import { scanUnusedServerActions } from './scanners/unused-server-actions.js';
+import { scanTrpcRoutes } from './scanners/trpc-routes.js';
+import { scanServerRoutes } from './scanners/server-routes.js';
+import { applyRouteSuppressions, applySuppressions, createSuppressionIndex } from './suppressions.js';
+import { diffOpenApi, loadOpenApiOperations, markOpenApiRoutes } from './openapi.js';
+import { applyAccessLogTraffic, loadAccessLogs } from './access-log.js';
+import { applyCoverage, findUnexecutedExports, loadCoverage } from './coverage.js';
+import { addConfidenceReason, applyConfidence } from './confidence.js';
+import { getFileIndex } from './file-index.js';
+import { escapeRegExp, findClosingBracket, parseTsConfigPaths, report, splitTopLevel } from './utils.js';
+
+export { scanUnusedExports, scanUnusedFiles, scanCircularImports, scanDependencies, scanHttpUsage, scanSourceAssets, scanMissingAssets, scanUnusedServices, scanBrokenLinks, scanUnusedServerActions, scanTrpcRoutes, scanServerRoutes };
 
 /**
  * Extract route path from file path
@@ -44,6 +65,55 @@ function extractRoutePath(filePath: string): string {
   return '/' + path;
 }
 
+/**
+ * Extract route path from a Pages Router API file
+ * - pages/api/users/[id].ts -> /api/users/[id]
+ * - src/pages/api/users/index.ts -> /api/users
+ */
+function extractPagesRoutePath(filePath: string): string {
+  const path = filePath
+    .replace(/^src\//, '')
+    .replace(/^apps\/[^/]+\//, '')
+    .replace(/^packages\/[^/]+\//, '')
+    .replace(/^(?:src\/)?pages\//, '')
+    .replace(/\.(ts|tsx|js|jsx)$/, '')
+    .replace(/(^|\/)index$/, '');
+
+  return '/' + path;
+}
+
+/**
+ * Infer the HTTP methods a Pages Router handler serves from its
+ * `req.method === 'POST'` checks and `switch (req.method)` cases.
+ * Handlers without any are method-agnostic (no methods).
+ */
+function extractPagesRouterMethods(content: string): { methods: string[]; methodLines: { [method: string]: number } } {
+  const methods: string[] = [];
+  const methodLines: { [method: string]: number } = {};
+
+  const add = (method: string, pos: number) => {
+    if (methods.includes(method)) return;
+    methods.push(method);
+    methodLines[method] = content.substring(0, pos).split('\n').length;
+  };
+
+  let match;
+  PAGES_METHOD_CHECK_PATTERN.lastIndex = 0;
+  while ((match = PAGES_METHOD_CHECK_PATTERN.exec(content)) !== null) {
+    add(match[1] || match[2], match.index);
+  }
+
+  const switchMatch = content.match(PAGES_METHOD_SWITCH_PATTERN);
+  if (switchMatch?.index !== undefined) {
+    PAGES_METHOD_CASE_PATTERN.lastIndex = switchMatch.index;
+    while ((match = PAGES_METHOD_CASE_PATTERN.exec(content)) !== null) {
+      add(match[1], match.index);
+    }
+  }
+
+  return { methods, methodLines };
+}
+
 /**
  * Extract Next.js exported HTTP methods and their line numbers
  */
@@ -67,25 +137,111 @@ function extractExportedMethods(content: string): { methods: string[]; methodLin
   return { methods, methodLines };
 }
 
+interface NestVersioning {
+  /** Segment before the version number ('v' unless configured) */
+  prefix: string;
+  /** Versions of handlers without @Version or a controller version ('' = version neutral) */
+  defaultVersions: string[];
+}
+
+interface NestRouteOptions {
+  /** Set when main.ts enables URI versioning */
+  versioning?: NestVersioning;
+  /** RouterModule path prefixes, by controller class name */
+  modulePrefixes?: Map<string, string[]>;
+  /** Resolve a path expression (array, constant, enum member) to its value(s), or null */
+  resolvePaths?: (expr: string) => string[] | null;
+}
+
+/** 'text' → text, anything else → null */
+function stringValue(raw: string | undefined): string | null {
+  return raw?.match(/^['"`]([^'"`]*)['"`]$/)?.[1] ?? null;
+}
+
+/**
+ * Parse a NestJS version value: '2', ['1', '2'] or VERSION_NEUTRAL ('')
+ */
+function parseNestVersions(raw: string): string[] {
+  return [...raw.matchAll(/['"`]([^'"`]*)['"`]|VERSION_NEUTRAL/g)].map(m => m[1] ?? '');
+}
+
+/**
+ * Decorators applied to the handler whose method decorator spans `start..end`:
+ * the ones stacked above it and those between it and the method name.
+ */
+function nestDecoratorBlock(content: string, start: number, end: number, methodName: string): string {
+  let before = content.slice(0, start);
+  let decorator;
+  while ((decorator = before.match(/@\w+\s*\((?:[^()]|\([^()]*\))*\)\s*$/)) !== null) {
+    before = before.slice(0, decorator.index);
+  }
+  const rest = content.slice(end);
+  const signature = methodName ? rest.search(new RegExp(`\\b${escapeRegExp(methodName)}\\s*\\(`)) : -1;
+  return content.slice(before.length, end + (signature === -1 ? 0 : signature));
+}
+
 /**
  * Extract NestJS Controller Routes
  */
-function extractNestRoutes(filePath: string, content: string, globalPrefix = 'api'): ApiRoute[] {
-  // 1. Find Controller Decorator
-  const controllerMatch = content.match(NEST_CONTROLLER_PATTERN);
+function extractNestRoutes(filePath: string, content: string, globalPrefix = 'api', options: NestRouteOptions = {}): ApiRoute[] {
+  // 1. Find Controller Decorator: @Controller('users') or @Controller({ path: 'users', version: '2' })
+  const plainController = content.match(NEST_CONTROLLER_PATTERN);
+  const objectController = plainController ? null : content.match(NEST_CONTROLLER_OBJECT_PATTERN);
+  const controllerMatch = plainController ?? objectController;
   if (!controllerMatch) return [];
 
-  const controllerPath = controllerMatch[1] || ''; // Empty string if @Controller()
+  // Literal paths, or arrays/constants resolved through options.resolvePaths (null = unresolvable)
+  const pathsOf = (literal: string | undefined, expr: string | undefined): string[] | null => {
+    if (literal === undefined && expr === undefined) return [''];
+    if (literal !== undefined && !literal.includes('${')) return [literal];
+    return options.resolvePaths?.(literal !== undefined ? `\`${literal}\`` : expr!) ?? null;
+  };
+
+  const objectPath = objectController?.[1].match(/\bpath\s*:\s*(['"`][^'"`]*['"`]|\[[^\]]*\]|[A-Za-z_$][\w$.]*)/)?.[1];
+  const objectLiteral = stringValue(objectPath) ?? undefined;
+  const controllerPaths = objectController
+    ? pathsOf(objectLiteral, objectLiteral === undefined ? objectPath : undefined)
+    : pathsOf(controllerMatch[1], controllerMatch[2]);
+  // An unresolvable controller path leaves nothing to match against
+  if (controllerPaths === null) return [];
+  const controllerVersion = objectController ? objectController[1].match(NEST_VERSION_OPTION_PATTERN) : null;
+  const className = content.slice(controllerMatch.index).match(/\bclass\s+([A-Za-z_$][\w$]*)/)?.[1];
+  const modulePrefixes = (className && options.modulePrefixes?.get(className)) || [''];
   const routes: ApiRoute[] = [];
 
+  // Construct full paths: /<globalPrefix>/<version>/<module prefix>/<controller>/<method>
+  const buildPaths = (methodPaths: string[], methodVersions: string[] | null): string[] => {
+    const versions = options.versioning
+      ? methodVersions ?? (controllerVersion ? parseNestVersions(controllerVersion[1]) : options.versioning.defaultVersions)
+      : [''];
+    const paths = new Set<string>();
+    for (const version of versions) {
+      const versionSegment = version ? `${options.versioning!.prefix}${version}` : '';
+      for (const modulePrefix of modulePrefixes) {
+        for (const controllerPath of controllerPaths) {
+          for (const methodPath of methodPaths) {
+            paths.add(`/${globalPrefix}/${versionSegment}/${modulePrefix}/${controllerPath}/${methodPath}`
+              .replace(/\/+/g, '/') // Dedupe slashes
+              .replace(/(.)\/$/, '$1')); // Remove trailing slash
+          }
+        }
+      }
+    }
+    return [...paths];
+  };
+
   // 2. Find Method Decorators
   NEST_METHOD_PATTERN.lastIndex = 0;
   let methodMatch;
+  let handlerCount = 0;
   while ((methodMatch = NEST_METHOD_PATTERN.exec(content)) !== null) {
     // methodMatch[1] = 'Get', 'Post', etc.
-    // methodMatch[2] = 'profile' (path)
+    // methodMatch[2] = 'profile' (path), methodMatch[3] = ['a', 'b'] / ROUTES.USERS
     const methodType = methodMatch[1].toUpperCase();
-    const methodPath = methodMatch[2] || '';
+    handlerCount++;
+    const methodPaths = pathsOf(methodMatch[2], methodMatch[3]);
+    // Skip handlers whose path can't be resolved rather than guess it
+    if (methodPaths === null) continue;
     
     // Calculate line number for NestJS methods too
     const pos = methodMatch.index;
@@ -95,65 +251,65 @@ function extractNestRoutes(filePath: string, content: string, globalPrefix = 'ap
     const remainingContent = content.substring(methodMatch.index + methodMatch[0].length);
     const tsMethodName = extractNestMethodName(remainingContent);
 
-    // Construct full path: /<globalPrefix>/<controller>/<method>
-    const fullPath = `/${globalPrefix}/${controllerPath}/${methodPath}`
-      .replace(/\/+/g, '/') // Dedupe slashes
-      .replace(/\/$/, '');  // Remove trailing slash
-
-    // Check if route already exists for this path (handled different methods on same path)
-    const existing = routes.find(r => r.path === fullPath);
-    if (existing) {
-      if (!existing.methods.includes(methodType)) {
-        existing.methods.push(methodType);
-        existing.unusedMethods.push(methodType);
-        existing.methodLines[methodType] = lineNum;
-        if (existing.methodNames) {
-           existing.methodNames[methodType] = tsMethodName;
-        } else {
-           existing.methodNames = { [methodType]: tsMethodName };
+    // @Version('2') next to the method decorator overrides the controller version
+    const versionMatch = options.versioning
+      ? nestDecoratorBlock(content, methodMatch.index, methodMatch.index + methodMatch[0].length, tsMethodName).match(NEST_VERSION_DECORATOR_PATTERN)
+      : null;
+
+    for (const fullPath of buildPaths(methodPaths, versionMatch ? parseNestVersions(versionMatch[1]) : null)) {
+      // Check if route already exists for this path (handled different methods on same path)
+      const existing = routes.find(r => r.path === fullPath);
+      if (existing) {
+        if (!existing.methods.includes(methodType)) {
+          existing.methods.push(methodType);
+          existing.unusedMethods.push(methodType);
+          existing.methodLines[methodType] = lineNum;
+          if (existing.methodNames) {
+             existing.methodNames[methodType] = tsMethodName;
+          } else {
+             existing.methodNames = { [methodType]: tsMethodName };
+          }
         }
+      } else {
+        routes.push({
+          type: 'nestjs',
+          path: fullPath,
+          filePath,
+          used: false,
+          references: [],
+          methods: [methodType],
+          unusedMethods: [methodType],
+          methodLines: { [methodType]: lineNum },
+          methodNames: { [methodType]: tsMethodName },
+        });
       }
-    } else {
+
+      if (process.env.DEBUG_PRUNY) {
+        console.log(`[DEBUG] Extracted Route: ${fullPath} from ${filePath}`);
+      }
+    }
+  }
+
+  // Flag empty controllers (have @Controller but zero @Get/@Post/@Put/@Delete methods)
+  if (handlerCount === 0) {
+    for (const fullPath of buildPaths([''], null)) {
       routes.push({
         type: 'nestjs',
         path: fullPath,
         filePath,
         used: false,
         references: [],
-        methods: [methodType],
-        unusedMethods: [methodType],
-        methodLines: { [methodType]: lineNum },
-        methodNames: { [methodType]: tsMethodName },
+        methods: [],
+        unusedMethods: [],
+        methodLines: {},
+        methodNames: {},
       });
     }
-
-    if (process.env.DEBUG_PRUNY) {
-      console.log(`[DEBUG] Extracted Route: ${fullPath} from ${filePath}`);
-    }
-  }
-
-  // Flag empty controllers (have @Controller but zero @Get/@Post/@Put/@Delete methods)
-  if (routes.length === 0 && controllerMatch) {
-    const fullPath = `/${globalPrefix}/${controllerPath}`
-      .replace(/\/+/g, '/')
-      .replace(/\/$/, '') || '/';
-    routes.push({
-      type: 'nestjs',
-      path: fullPath,
-      filePath,
-      used: false,
-      references: [],
-      methods: [],
-      unusedMethods: [],
-      methodLines: {},
-      methodNames: {},
-    });
   }
 
   return routes;
 }
 
-
 /**
  * Extract the method name following a decorator match
  */
@@ -272,36 +428,133 @@ function normalizeNestPath(path: string): string {
     .toLowerCase();
 }
 
+/**
+ * Read the NestJS bootstrap file (src/main.ts or main.ts)
+ */
+function readNestMain(appDir: string): string | null {
+  for (const candidate of [join(appDir, 'src/main.ts'), join(appDir, 'main.ts')]) {
+    if (existsSync(candidate)) return readFileSync(candidate, 'utf-8');
+  }
+  return null;
+}
+
 /**
  * Detect Global Prefix from NestJS main.ts
  */
-async function detectGlobalPrefix(appDir: string): Promise<string> {
-  const mainTsPath = join(appDir, 'src/main.ts');
-  const mainTsAltPath = join(appDir, 'main.ts');
+async function detectGlobalPrefix(appDir: string, config: Config): Promise<string> {
+  const prefix = readGlobalPrefix(appDir);
+  if (prefix) {
+    report(config, chalk.dim(`   ⚙ Global prefix: /${prefix}`) + '\n');
+  }
+  return prefix;
+}
+
+/**
+ * Look for app.setGlobalPrefix('...') in NestJS main.ts
+ */
+function readGlobalPrefix(appDir: string): string {
+  const content = readNestMain(appDir);
+  const match = content?.match(/app\.setGlobalPrefix\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/);
+  return match?.[1] ?? '';
+}
+
+/**
+ * Detect URI versioning from NestJS main.ts:
+ * app.enableVersioning({ type: VersioningType.URI, prefix?, defaultVersion? })
+ */
+function detectNestVersioning(appDir: string, config: Config): NestVersioning | undefined {
+  const content = readNestMain(appDir);
+  const match = content?.match(NEST_VERSIONING_PATTERN);
+  if (!match || !/VersioningType\.URI\b/.test(match[1])) return undefined;
+
+  const prefix = match[1].match(/\bprefix\s*:\s*(?:['"`]([^'"`]*)['"`]|(false))/);
+  const defaultVersion = match[1].match(NEST_VERSION_OPTION_PATTERN);
+  const versioning = {
+    prefix: prefix ? prefix[1] ?? '' : 'v',
+    defaultVersions: defaultVersion ? parseNestVersions(defaultVersion[1]) : [''],
+  };
+  report(config, chalk.dim(`   ⚙ URI versioning: /${versioning.prefix}<version>`) + '\n');
+  return versioning;
+}
+
+/**
+ * Collect RouterModule.register([{ path, module, children }]) prefixes and map
+ * them onto the controllers each module declares in @Module({ controllers }).
+ */
+async function detectNestModulePrefixes(appDir: string, config: Config): Promise<Map<string, string[]>> {
+  const fileIndex = getFileIndex(config);
+  const moduleFiles = await fileIndex.glob('**/*.module.ts', { cwd: appDir, absolute: true });
+  const controllersByModule = new Map<string, string[]>();
+  const prefixesByModule = new Map<string, string[]>();
+
+  const addPrefix = (module: string, path: string) => {
+    if (!prefixesByModule.has(module)) prefixesByModule.set(module, []);
+    prefixesByModule.get(module)!.push(path);
+  };
+
+  // [{ path: 'admin', module: AdminModule, children: [...] }, UsersModule]
+  const parseRoutes = (content: string, open: number, close: number, parentPath: string) => {
+    for (const [raw] of splitTopLevel(content, open + 1, close)) {
+      const element = raw.trim();
+      if (/^[A-Za-z_$][\w$]*$/.test(element)) {
+        addPrefix(element, parentPath);
+        continue;
+      }
+      if (!element.startsWith('{')) continue;
+      const props = new Map<string, string>();
+      for (const [prop] of splitTopLevel(element, 1, findClosingBracket(element, 0))) {
+        const keyed = prop.match(/^\s*(\w+)\s*:\s*([^]*?)\s*$/);
+        if (keyed) props.set(keyed[1], keyed[2]);
+      }
+      const fullPath = `${parentPath}/${stringValue(props.get('path')) ?? ''}`;
+      const module = props.get('module');
+      if (module && /^[A-Za-z_$][\w$]*$/.test(module)) addPrefix(module, fullPath);
+      const children = props.get('children');
+      if (children?.startsWith('[')) parseRoutes(children, 0, findClosingBracket(children, 0), fullPath);
+    }
+  };
 
-  let content: string;
-  if (existsSync(mainTsPath)) {
-    content = readFileSync(mainTsPath, 'utf-8');
-  } else if (existsSync(mainTsAltPath)) {
-    content = readFileSync(mainTsAltPath, 'utf-8');
-  } else {
-    return '';
+  for (const file of moduleFiles) {
+    try {
+      const content = fileIndex.read(file);
+      const moduleMatch = content.match(/@Module\s*\(\s*\{/);
+      if (moduleMatch) {
+        const className = content.slice(moduleMatch.index).match(/\bclass\s+([A-Za-z_$][\w$]*)/)?.[1];
+        const controllers = content.match(/\bcontrollers\s*:\s*\[([^\]]*)\]/);
+        if (className && controllers) {
+          controllersByModule.set(className, controllers[1].split(',').map(c => c.trim()).filter(Boolean));
+        }
+      }
+
+      const register = content.match(/RouterModule\.register\s*\(\s*(\[|[A-Za-z_$][\w$]*)/);
+      if (!register) continue;
+      // The routes may be declared inline or in a const: const routes: Routes = [...]
+      let open = register.index! + register[0].length - 1;
+      if (register[1] !== '[') {
+        const declared = content.match(new RegExp(`(?:const|let|var)\\s+${escapeRegExp(register[1])}\\b[^=]*=\\s*\\[`));
+        if (!declared) continue;
+        open = declared.index! + declared[0].length - 1;
+      }
+      const close = findClosingBracket(content, open);
+      if (close !== -1) parseRoutes(content, open, close, '');
+    } catch {
+      // Skip unreadable files
+    }
   }
 
-  // Look for app.setGlobalPrefix('...')
-  const match = content.match(/app\.setGlobalPrefix\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/);
-  if (match && match[1]) {
-    console.log(chalk.dim(`   ⚙ Global prefix: /${match[1]}`));
-    return match[1];
+  const prefixesByController = new Map<string, string[]>();
+  for (const [module, prefixes] of prefixesByModule) {
+    for (const controller of controllersByModule.get(module) ?? []) {
+      prefixesByController.set(controller, [...new Set([...(prefixesByController.get(controller) ?? []), ...prefixes])]);
+    }
   }
-  
-  return '';
+  return prefixesByController;
 }
 
 /**
- * Check if a route is referenced and which methods are used
+ * Normalized paths a reference to the route may use
  */
-function checkRouteUsage(route: ApiRoute, references: ApiReference[], nestGlobalPrefix = ''): { used: boolean; usedMethods: Set<string> } {
+function routeVariations(route: ApiRoute, nestGlobalPrefix: string): Set<string> {
   const normalize = route.type === 'nextjs' ? normalizeNextPath : normalizeNestPath;
   const normalizedRoute = normalize(route.path);
   
@@ -324,59 +577,112 @@ function checkRouteUsage(route: ApiRoute, references: ApiReference[], nestGlobal
       variations.add(normalize('/api' + route.path));
     }
   }
+  return variations;
+}
 
-  const usedMethods = new Set<string>();
-  let used = false;
+/**
+ * Normalized paths a reference must match for the route to count as used
+ * (for `pruny why`)
+ */
+export function routeReferenceForms(route: ApiRoute, config: Config): string[] {
+  const scanCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  return [...routeVariations(route, config.nestGlobalPrefix || readGlobalPrefix(scanCwd))];
+}
 
+/**
+ * Whether any of `references` points at a route (changed-files mode checks
+ * the references on removed lines)
+ */
+export function isRouteReferenced(route: ApiRoute, references: ApiReference[], config: Config): boolean {
+  const scanCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  return matchingReferences(route, references, config.nestGlobalPrefix || readGlobalPrefix(scanCwd)).length > 0;
+}
 
-  // For NestJS routes, only count HTTP client references (fetch, axios, etc.)
-  // Generic string matches like router.push("/super_admin/admin") are page navigation,
-  // not API calls to NestJS controllers
-  const filteredRefs = route.type === 'nestjs'
+/**
+ * References that may point at a route. For backend routes (NestJS, Express,
+ * Fastify, Hono), only HTTP client references (fetch, axios, etc.) count:
+ * generic string matches like router.push("/super_admin/admin") are page
+ * navigation, not API calls to backend controllers.
+ */
+function candidateReferences(route: ApiRoute, references: ApiReference[]): ApiReference[] {
+  return route.type !== 'nextjs'
     ? references.filter(r => r.source === 'http-client')
     : references;
+}
 
-  for (const ref of filteredRefs) {
-    let normalizedFound = ref.path
-      .replace(/\s+/g, '') // Collapse all whitespace (newlines, tabs, spaces from multiline template literals)
-      .replace(/\$\{[^}]+\}/g, '*') // Replace template expressions BEFORE query strip (?.user.id would be eaten by \?.*$)
-      .replace(/\/$/, '')
-      .replace(/\?.*$/, '')
-      .replace(/\/+/g, '/') // Dedupe slashes
-      .toLowerCase();
-    
-    // If it starts with *, it likely had a base URL variable: `${baseUrl}/api/...` -> `*/api/...`
-    // We want to match against the static part, so we can try stripping the leading *
-    if (normalizedFound.startsWith('*')) {
-      const firstSlash = normalizedFound.indexOf('/');
-      if (firstSlash !== -1) {
-        normalizedFound = normalizedFound.substring(firstSlash);
-      }
+/** A referenced path in the form route variations use, with template expressions as `*` */
+function normalizeReferencePath(path: string): string {
+  let normalizedFound = path
+    .replace(/\s+/g, '') // Collapse all whitespace (newlines, tabs, spaces from multiline template literals)
+    .replace(/\$\{[^}]+\}/g, '*') // Replace template expressions BEFORE query strip (?.user.id would be eaten by \?.*$)
+    .replace(/\/$/, '')
+    .replace(/\?.*$/, '')
+    .replace(/\/+/g, '/') // Dedupe slashes
+    .toLowerCase();
+
+  // If it starts with *, it likely had a base URL variable: `${baseUrl}/api/...` -> `*/api/...`
+  // We want to match against the static part, so we can try stripping the leading *
+  if (normalizedFound.startsWith('*')) {
+    const firstSlash = normalizedFound.indexOf('/');
+    if (firstSlash !== -1) {
+      normalizedFound = normalizedFound.substring(firstSlash);
     }
+  }
+  return normalizedFound;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
 
+/**
+ * References that point at a route
+ */
+function matchingReferences(route: ApiRoute, references: ApiReference[], nestGlobalPrefix = ''): ApiReference[] {
+  const variations = routeVariations(route, nestGlobalPrefix);
 
-    let match = false;
+  return candidateReferences(route, references).filter(ref => {
+    const normalizedFound = normalizeReferencePath(ref.path);
     for (const v of variations) {
       if (v === normalizedFound || 
           normalizedFound.startsWith(v + '/') ||
           minimatch(normalizedFound, v)) {
-        match = true;
-        break;
+        return true;
       }
     }
+    return false;
+  });
+}
 
-    if (match) {
-      used = true;
-      if (ref.method) {
-        usedMethods.add(ref.method);
-      } else {
-        usedMethods.add('ALL');
-      }
-    }
-  }
-
+/**
+ * Check if a route is referenced and which methods are used
+ */
+function checkRouteUsage(route: ApiRoute, references: ApiReference[], nestGlobalPrefix = ''): { used: boolean; usedMethods: Set<string> } {
+  const matches = matchingReferences(route, references, nestGlobalPrefix);
+  const usedMethods = new Set(matches.map(ref => ref.method ?? 'ALL'));
+  return { used: matches.length > 0, usedMethods };
+}
 
-  return { used, usedMethods };
+/**
+ * Whether the only references that could reach a route are template literals
+ * whose dynamic part might produce its path (`/api/${entity}` for /api/users)
+ */
+function hasOnlyTemplateReferences(route: ApiRoute, references: ApiReference[], nestGlobalPrefix = ''): boolean {
+  const variations = [...routeVariations(route, nestGlobalPrefix)];
+  let template = false;
+
+  for (const ref of candidateReferences(route, references)) {
+    const normalizedFound = normalizeReferencePath(ref.path);
+    const dynamic = ref.path.includes('${') && normalizedFound.includes('*');
+    const match = variations.some(v =>
+      v === normalizedFound || normalizedFound.startsWith(v + '/') || minimatch(normalizedFound, v) ||
+      (dynamic && minimatch(v, normalizedFound))
+    );
+    if (!match) continue;
+    if (!dynamic) return false;
+    template = true;
+  }
+  return template;
 }
 
 /**
@@ -497,6 +803,9 @@ function getAutoDetectedExternalRoutes(dir: string): string[] {
 }
 
 export async function scan(config: Config): Promise<ScanResult> {
+  // Every scanner below shares one file index (glob once per root, read once per file)
+  const fileIndex = getFileIndex(config);
+  config = { ...config, fileIndex };
   const cwd = config.dir;
 
   // 1. Find Next.js Routes
@@ -508,9 +817,21 @@ export async function scan(config: Config): Promise<ScanResult> {
     'packages/**/app/api/**/route.{ts,tsx,js,jsx}',
   ];
 
+  // Pages Router: every file under pages/api is a route (files starting with _ are not)
+  const pagesPatterns = [
+    'pages/api/**/*.{ts,tsx,js,jsx}',
+    'src/pages/api/**/*.{ts,tsx,js,jsx}',
+    'apps/*/pages/api/**/*.{ts,tsx,js,jsx}',
+    'apps/*/src/pages/api/**/*.{ts,tsx,js,jsx}',
+    'packages/*/pages/api/**/*.{ts,tsx,js,jsx}',
+    'packages/*/src/pages/api/**/*.{ts,tsx,js,jsx}',
+  ];
+  const pagesIgnore = ['**/_*', '**/*.d.ts'];
+
   // If appSpecificScan is set, OVERRIDE patterns to only look inside that app
   let scanCwd = cwd;
   let activeNextPatterns = nextPatterns;
+  let activePagesPatterns = pagesPatterns;
 
   if (config.appSpecificScan) {
       scanCwd = config.appSpecificScan.appDir;
@@ -518,6 +839,7 @@ export async function scan(config: Config): Promise<ScanResult> {
           'app/api/**/route.{ts,tsx,js,jsx}',
           'src/app/api/**/route.{ts,tsx,js,jsx}',
       ];
+      activePagesPatterns = pagesPatterns.slice(0, 2);
   }
 
   // Add extra patterns from config
@@ -528,21 +850,18 @@ export async function scan(config: Config): Promise<ScanResult> {
   // 1. Detect Global Prefix (for NestJS)
   let detectedGlobalPrefix = config.nestGlobalPrefix || ''; 
   if (!config.nestGlobalPrefix) {
-     const prefix = await detectGlobalPrefix(scanCwd);
+     const prefix = await detectGlobalPrefix(scanCwd, config);
      if (prefix) detectedGlobalPrefix = prefix;
   }
 
-  const nextFiles = await fg(activeNextPatterns, {
-    cwd: scanCwd,
-    ignore: config.ignore.folders,
-  });
+  const nextFiles = await fileIndex.glob(activeNextPatterns, { cwd: scanCwd });
 
   const nextRoutes: ApiRoute[] = nextFiles.map((file) => {
     // If scanning in appDir specific context, we need to map back relative to root if needed, 
     // but here we just need a unique path identification.
     // The existing extractRoutePath handles simple relative paths well.
     const fullPath = join(scanCwd, file);
-    const content = readFileSync(fullPath, 'utf-8');
+    const content = fileIndex.read(fullPath);
     const { methods, methodLines } = extractExportedMethods(content);
     return {
       type: 'nextjs',
@@ -553,28 +872,64 @@ export async function scan(config: Config): Promise<ScanResult> {
       methods,
       unusedMethods: [...methods],
       methodLines,
+      router: 'app',
     };
   });
 
+  // 1.5 Find Next.js Pages Router API routes (default-exported handlers)
+  const pagesFiles = await fileIndex.glob(activePagesPatterns, { cwd: scanCwd, ignore: pagesIgnore });
+
+  for (const file of pagesFiles) {
+    const fullPath = join(scanCwd, file);
+    const content = fileIndex.read(fullPath);
+    const { methods, methodLines } = extractPagesRouterMethods(content);
+    nextRoutes.push({
+      type: 'nextjs',
+      path: extractPagesRoutePath(file),
+      filePath: fullPath.replace(config.appSpecificScan ? config.appSpecificScan.rootDir + '/' : cwd + '/', ''),
+      used: false,
+      references: [],
+      methods,
+      unusedMethods: [...methods],
+      methodLines,
+      router: 'pages',
+    });
+  }
+
   // 2. Find NestJS Controllers
   const nestPatterns = ['**/*.controller.ts'];
-  const nestFiles = await fg(nestPatterns, {
+  const nestFiles = await fileIndex.glob(nestPatterns, {
     cwd: scanCwd, // Use the context-aware CWD
-    ignore: config.ignore.folders,
   });
 
+  // Versioning and RouterModule prefixes only matter when there are controllers
+  // Path constants may be imported through tsconfig aliases
+  const nestAliasMap = nestFiles.length > 0 ? parseTsConfigPaths(scanCwd) : new Map<string, string[]>();
+  const nestOptions: NestRouteOptions = nestFiles.length > 0
+    ? { versioning: detectNestVersioning(scanCwd, config), modulePrefixes: await detectNestModulePrefixes(scanCwd, config) }
+    : {};
+
   const nestRoutes: ApiRoute[] = nestFiles.flatMap((file) => {
     const fullPath = join(scanCwd, file);
-    const content = readFileSync(fullPath, 'utf-8');
+    const content = fileIndex.read(fullPath);
     const relativePathFromRoot = fullPath.replace(config.appSpecificScan ? config.appSpecificScan.rootDir + '/' : cwd + '/', '');
     
     // When inside a specific app scan, we might want to respect that app's prefix if we could detect it,
     // but for now we rely on the global config prefix.
-    return extractNestRoutes(relativePathFromRoot, content, detectedGlobalPrefix);
+    return extractNestRoutes(relativePathFromRoot, content, detectedGlobalPrefix, {
+      ...nestOptions,
+      resolvePaths: (expr) => resolveStringConstant(expr, content, fullPath, scanCwd, nestAliasMap),
+    });
   });
 
+  // 2.2 Find Express / Fastify / Hono routes
+  const serverRoutes = await scanServerRoutes(config);
+
+  // 2.25 Find tRPC routers (usage is resolved by the tRPC scanner itself)
+  const trpcRoutes = await scanTrpcRoutes(config);
+
   // Combine Routes
-  let routes = [...nextRoutes, ...nestRoutes];
+  let routes = [...nextRoutes, ...nestRoutes, ...serverRoutes, ...trpcRoutes];
 
   // 2.5 Filter by folder if specified
   if (config.folder) {
@@ -633,21 +988,30 @@ export async function scan(config: Config): Promise<ScanResult> {
   const referenceScanCwd = config.appSpecificScan ? config.appSpecificScan.rootDir : cwd;
   
   const extGlob = `**/*{${config.extensions.join(',')}}`;
-  const sourceFiles = await fg(extGlob, {
+  const sourceFiles = await fileIndex.glob(extGlob, {
     cwd: referenceScanCwd,
-    ignore: [...config.ignore.folders, ...config.ignore.files],
+    ignore: config.ignore.files,
     dot: true,
   });
 
-  // 5. Collect all API references
+  // 5. Collect all API references (and inline suppressions for this app's files)
   const allReferences: ApiReference[] = [];
   const fileReferences: Map<string, ApiReference[]> = new Map();
+  const suppressions = createSuppressionIndex(config);
+  // Custom client patterns change what a file references, so they are part of the cache kind
+  const httpClientPatterns = buildHttpClientPatterns(config.httpClients ?? []);
+  const apiRefsKind = config.httpClients?.length
+    ? `api-refs:${createHash('sha1').update(JSON.stringify(config.httpClients)).digest('hex').slice(0, 12)}`
+    : 'api-refs';
 
   for (const file of sourceFiles) {
     const filePath = join(referenceScanCwd, file);
     try {
-      const content = readFileSync(filePath, 'utf-8');
-      const refs = extractApiReferences(content);
+      const content = fileIndex.read(filePath);
+      if (!relative(scanCwd, filePath).startsWith('..')) {
+        suppressions.add(filePath, content);
+      }
+      const refs = fileIndex.extract(apiRefsKind, filePath, text => extractApiReferences(text, httpClientPatterns));
 
       if (refs.length > 0) {
         // file is relative to referenceScanCwd (Root)
@@ -669,14 +1033,20 @@ export async function scan(config: Config): Promise<ScanResult> {
   }
   // Also scan across the full monorepo root for Next.js routes in other apps
   if (config.appSpecificScan) {
-    const monorepoNextFiles = await fg(nextPatterns, {
+    const monorepoNextFiles = await fileIndex.glob(nextPatterns, {
       cwd: config.appSpecificScan.rootDir,
-      ignore: config.ignore.folders,
     });
     for (const f of monorepoNextFiles) {
       const apiPath = extractRoutePath(f);
       existingNextApiPaths.add(normalizeNextPath(apiPath));
     }
+    const monorepoPagesFiles = await fileIndex.glob(pagesPatterns, {
+      cwd: config.appSpecificScan.rootDir,
+      ignore: pagesIgnore,
+    });
+    for (const f of monorepoPagesFiles) {
+      existingNextApiPaths.add(normalizeNextPath(extractPagesRoutePath(f)));
+    }
   }
 
   // 6.5. Mark routes as used
@@ -689,6 +1059,9 @@ export async function scan(config: Config): Promise<ScanResult> {
       continue;
     }
 
+    // tRPC procedures are called through client proxies, not URLs
+    if (route.type === 'trpc') continue;
+
     // Check references
     const { used, usedMethods } = checkRouteUsage(route, allReferences, detectedGlobalPrefix);
 
@@ -707,15 +1080,22 @@ export async function scan(config: Config): Promise<ScanResult> {
         if (unused.length === route.methods.length && route.methods.length > 0) {
             // Keep the first method as "used" to avoid breaking the endpoint
             route.unusedMethods = route.methods.slice(1);
+            addConfidenceReason(route, 'firstMethodKept');
         } else {
             route.unusedMethods = unused;
         }
       }
 
-      // Find which files reference this route
+      // Find which files reference this route, and where
       for (const [file, refs] of fileReferences) {
-        if (checkRouteUsage(route, refs, detectedGlobalPrefix).used) {
-          route.references.push(file);
+        const matches = matchingReferences(route, refs, detectedGlobalPrefix);
+        if (matches.length === 0) continue;
+        route.references.push(file);
+
+        const content = fileIndex.read(join(referenceScanCwd, file));
+        route.referenceMatches ??= [];
+        for (const { offset, ...ref } of matches) {
+          route.referenceMatches.push({ file, line: offset === undefined ? undefined : lineAt(content, offset), ...ref });
         }
       }
     }
@@ -776,23 +1156,58 @@ export async function scan(config: Config): Promise<ScanResult> {
         }
         route.used = false;
         route.references = [];
+        route.referenceMatches = undefined;
         route.unusedMethods = [...route.methods];
+        route.confidenceReasons = undefined;
       }
     }
   }
 
+  // 7.25 OpenAPI specs: operations are external consumers, or (contract mode) the handlers to diff against
+  let openapi: ScanResult['openapi'];
+  if (config.openapi?.specs.length) {
+    const operations = loadOpenApiOperations(config);
+    if (config.openapi.mode === 'contract') {
+      const checkedRoutes = routes.filter(r => !shouldIgnore(r.path, config.ignore.routes) && !shouldIgnore(r.filePath, config.ignore.routes));
+      openapi = diffOpenApi(checkedRoutes, operations);
+    } else {
+      markOpenApiRoutes(routes, operations);
+    }
+  }
+
+  // 7.3 Access logs: requests served in production count as usage
+  if (config.accessLogs?.length) {
+    applyAccessLogTraffic(routes, loadAccessLogs(config));
+  }
+
+  // 7.5 Inline suppressions mark route handlers as used, like ignore.routes
+  applyRouteSuppressions(routes, config, suppressions);
+
+  // 7.75 Routes that only a dynamic template literal might call are less certain
+  for (const route of routes) {
+    if (route.type === 'trpc' || (route.used && route.unusedMethods.length === 0)) continue;
+    if (hasOnlyTemplateReferences(route, allReferences, detectedGlobalPrefix)) addConfidenceReason(route, 'templateReference');
+  }
+
   // 7. Scan public assets (if not excluded)
   let publicAssets;
   if (!config.excludePublic) {
     publicAssets = await scanPublicAssets(config);
   }
 
-  // 8. Scan for unused files
-  const unusedFiles = await scanUnusedFiles(config);
+  // 8. Scan for unused files, then for circular imports and package.json dependencies on the same import graph
+  const importGraph = await buildImportGraph(config);
+  const unusedFiles = await scanUnusedFiles(config, importGraph);
+  const circularImports = await scanCircularImports(config, importGraph);
+  const dependencies = await scanDependencies(config, importGraph);
 
+  // 8.5 Scan for unused server actions (reported in their own category, not as exports)
+  const unusedServerActions = await scanUnusedServerActions(config, importGraph);
+  const unusedActionKeys = new Set(unusedServerActions.actions.map(a => `${a.file}:${a.name}`));
 
 
-  return {
+
+  const result: ScanResult = {
     total: routes.length,
     used: routes.filter((r) => r.used).length,
     unused: routes.filter((r) => !r.used).length,
@@ -801,16 +1216,42 @@ export async function scan(config: Config): Promise<ScanResult> {
     missingAssets: await scanMissingAssets(config),
     brokenLinks: await scanBrokenLinks(config),
     unusedFiles,
+    circularImports,
+    ...dependencies,
     unusedExports: await scanUnusedExports(config).then(result => {
       // Filter out controller file exports — these are route handlers, not standard exports.
       // Controller methods are never imported by other files; they're called via HTTP by NestJS.
       // The route scanner (above) is the correct tool for analyzing controller method usage.
       const filtered = result.exports.filter(exp =>
-        !exp.file.endsWith('.controller.ts') && !exp.file.endsWith('.controller.tsx')
+        !exp.file.endsWith('.controller.ts') && !exp.file.endsWith('.controller.tsx') &&
+        !unusedActionKeys.has(`${exp.file}:${exp.name}`)
       );
       return { ...result, exports: filtered, unused: filtered.length };
     }),
     unusedServices: await scanUnusedServices(config),
+    unusedServerActions,
+    openapi,
     httpUsage: await scanHttpUsage(config),
   };
+
+  // 8.75 Test coverage: whether each finding ran during the tests
+  const coverage = loadCoverage(config);
+  if (coverage) {
+    applyCoverage(result, config, coverage);
+    if (config.coverage?.unexecuted) {
+      const exports = await findUnexecutedExports(config, coverage, result);
+      result.unexecutedExports = { total: exports.length, exports };
+    }
+  }
+
+  // 8.8 Confidence levels from the reasons recorded by the scanners
+  applyConfidence(result, config);
+
+  // 9. Drop findings hidden by inline suppression comments
+  applySuppressions(result, config, suppressions);
+
+  // 10. Persist this run's extraction results for the next one
+  fileIndex.save();
+
+  return result;
 }
@@ -3,7 +3,9 @@ import { readFileSync, existsSync, statSync } from 'node:fs';
 import { dirname, join, resolve } from 'node:path';
 import { minimatch } from 'minimatch';
 import type { Config } from '../types.js';
-import { detectAppFramework, parseTsConfigPaths } from '../utils.js';
+import { detectAppFramework, escapeRegExp, findClosingBracket, parseTsConfigPaths, splitTopLevel } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import { discoverWorkspaces } from '../workspaces.js';
 
 export interface BrokenLink {
   path: string;          // e.g. '/signup'
@@ -98,6 +100,38 @@ function shouldSkipPath(path: string): boolean {
   return false;
 }
 
+/**
+ * Extract every internal link path in a file (cleaned, with its line number).
+ * Route matching happens afterwards, so the result only depends on content.
+ */
+function extractLinks(content: string): { path: string; line: number }[] {
+  const links: { path: string; line: number }[] = [];
+
+  for (const pattern of LINK_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+      const extracted = extractPath(match);
+      if (!extracted) continue;
+      // Skip template literal hrefs with variable interpolation — the runtime
+      // value cannot be statically determined, so any validation would be a
+      // false positive. e.g. href={`/business-calculators/${calculator.id}`}
+      if (/\$\{/.test(extracted)) continue;
+      // Collapse `${...}` placeholders into [id] so template literals can
+      // be matched against dynamic Next.js route segments.
+      const rawPath = normalizePath(extracted);
+      if (shouldSkipPath(rawPath)) continue;
+
+      const cleaned = cleanPath(rawPath);
+      if (!cleaned || cleaned === '/') continue;
+
+      links.push({ path: cleaned, line: content.substring(0, match.index).split('\n').length });
+    }
+  }
+  return links;
+}
+
 /**
  * Strip query params and hash fragments from a path.
  * /about?ref=home#team -> /about
@@ -382,6 +416,7 @@ export async function scanBrokenLinks(config: Config): Promise<BrokenLinksResult
     'src/pages/**/*.{ts,tsx,js,jsx}',
   ];
 
+  // Pages may be .md/.mdx, which the shared source index doesn't list
   const pageFiles = await fg(pagePatterns, {
     cwd: appDir,
     ignore: [...config.ignore.folders, '**/node_modules/**', '**/_*/**'],
@@ -429,11 +464,12 @@ export async function scanBrokenLinks(config: Config): Promise<BrokenLinksResult
 
   // 2. Find all source files to scan for link references
   const refDir = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
-  const ignore = [...config.ignore.folders, ...config.ignore.files, '**/node_modules/**'];
+  const ignore = [...config.ignore.files, '**/node_modules/**'];
   const extensions = config.extensions;
   const globPattern = `**/*{${extensions.join(',')}}`;
 
-  let sourceFiles = await fg(globPattern, {
+  const fileIndex = getFileIndex(config);
+  let sourceFiles = await fileIndex.glob(globPattern, {
     cwd: refDir,
     ignore,
     absolute: true,
@@ -442,24 +478,15 @@ export async function scanBrokenLinks(config: Config): Promise<BrokenLinksResult
   // In monorepos, exclude files from Expo/React Native apps — their navigation patterns
   // (e.g., /(tabs)/home, /(auth)/login) are Expo Router routes, not Next.js page links.
   if (config.appSpecificScan) {
-    const { readdirSync, lstatSync } = await import('node:fs');
-    const { join } = await import('node:path');
-    const appsDir = join(config.appSpecificScan.rootDir, 'apps');
-    try {
-      const apps = readdirSync(appsDir).filter(a => lstatSync(join(appsDir, a)).isDirectory());
-      const expoAppDirs: string[] = [];
-      for (const app of apps) {
-        const appPath = join(appsDir, app);
-        const frameworks = detectAppFramework(appPath);
-        if (frameworks.includes('expo') || frameworks.includes('react-native')) {
-          expoAppDirs.push(appPath);
-        }
-      }
-      if (expoAppDirs.length > 0) {
-        sourceFiles = sourceFiles.filter(f => !expoAppDirs.some(d => f.startsWith(d)));
+    const expoAppDirs: string[] = [];
+    for (const workspace of discoverWorkspaces(config.appSpecificScan.rootDir)) {
+      const frameworks = detectAppFramework(workspace.dir);
+      if (frameworks.includes('expo') || frameworks.includes('react-native')) {
+        expoAppDirs.push(workspace.dir + '/');
       }
-    } catch {
-      // Ignore — not a standard monorepo layout
+    }
+    if (expoAppDirs.length > 0) {
+      sourceFiles = sourceFiles.filter(f => !expoAppDirs.some(d => f.startsWith(d)));
     }
   }
 
@@ -469,58 +496,36 @@ export async function scanBrokenLinks(config: Config): Promise<BrokenLinksResult
 
   for (const file of sourceFiles) {
     try {
-      const content = readFileSync(file, 'utf-8');
-
-      for (const pattern of LINK_PATTERNS) {
-        pattern.lastIndex = 0;
-        let match: RegExpExecArray | null;
-
-        while ((match = pattern.exec(content)) !== null) {
-          const extracted = extractPath(match);
-          if (!extracted) continue;
-          // Skip template literal hrefs with variable interpolation — the runtime
-          // value cannot be statically determined, so any validation would be a
-          // false positive. e.g. href={`/business-calculators/${calculator.id}`}
-          if (/\$\{/.test(extracted)) continue;
-          // Collapse `${...}` placeholders into [id] so template literals can
-          // be matched against dynamic Next.js route segments.
-          const rawPath = normalizePath(extracted);
-          if (shouldSkipPath(rawPath)) continue;
-
-          const cleaned = cleanPath(rawPath);
-          if (!cleaned || cleaned === '/') continue;
-
-          allLinkPaths.add(cleaned);
-
-          // Check if route exists
-          if (!matchesRoute(cleaned, knownRoutes, routeSegmentsList)) {
-            // Check if it's a public static file (e.g., /sitemap.xml, /robots.txt)
-            // Works for files that exist locally AND for gitignored build artifacts
-            // (e.g., sitemap.xml generated by next-sitemap but gitignored)
-            const publicPath = join(appDir, 'public', cleaned);
-            if (existsSync(publicPath)) continue;
-            if (isGitignoredPublicFile(appDir, cleaned)) continue;
-            if (isRuntimeGeneratedPublicAsset(appDir, cleaned)) continue;
-
-            // Check ignore.links patterns (dedicated), falling back to ignore.routes for compat
-            const ignorePatterns = [
-              ...(config.ignore.links || []),
-              ...config.ignore.routes,
-            ];
-            const isIgnored = ignorePatterns.some(ignorePath => {
-              const pattern = ignorePath.replace(/\*/g, '.*');
-              return new RegExp(`^${pattern}$`).test(cleaned);
-            });
-            if (isIgnored) continue;
-
-            // Calculate line number
-            const lineNumber = content.substring(0, match.index).split('\n').length;
-
-            if (!brokenMap.has(cleaned)) {
-              brokenMap.set(cleaned, new Set());
-            }
-            brokenMap.get(cleaned)!.add(`${file}:${lineNumber}`);
+      const linkMatches = fileIndex.extract('links', file, extractLinks);
+
+      for (const { path: cleaned, line: lineNumber } of linkMatches) {
+        allLinkPaths.add(cleaned);
+
+        // Check if route exists
+        if (!matchesRoute(cleaned, knownRoutes, routeSegmentsList)) {
+          // Check if it's a public static file (e.g., /sitemap.xml, /robots.txt)
+          // Works for files that exist locally AND for gitignored build artifacts
+          // (e.g., sitemap.xml generated by next-sitemap but gitignored)
+          const publicPath = join(appDir, 'public', cleaned);
+          if (existsSync(publicPath)) continue;
+          if (isGitignoredPublicFile(appDir, cleaned)) continue;
+          if (isRuntimeGeneratedPublicAsset(appDir, cleaned)) continue;
+
+          // Check ignore.links patterns (dedicated), falling back to ignore.routes for compat
+          const ignorePatterns = [
+            ...(config.ignore.links || []),
+            ...config.ignore.routes,
+          ];
+          const isIgnored = ignorePatterns.some(ignorePath => {
+            const pattern = ignorePath.replace(/\*/g, '.*');
+            return new RegExp(`^${pattern}$`).test(cleaned);
+          });
+          if (isIgnored) continue;
+
+          if (!brokenMap.has(cleaned)) {
+            brokenMap.set(cleaned, new Set());
           }
+          brokenMap.get(cleaned)!.add(`${file}:${lineNumber}`);
         }
       }
     } catch (_e) {
@@ -1036,14 +1041,14 @@ function resolveIdentifier(
   return resolveIdentifier(nextIdent, nextContent, resolvedPath, appDir, aliasMap, visited, depth + 1);
 }
 
-interface ImportInfo {
+export interface ImportInfo {
   kind: 'default' | 'named';
   imported: string; // for named: original symbol name in the source module
   path: string;     // module specifier
 }
 
 /** Find an import declaration that brings `ident` into scope. */
-function findImport(ident: string, source: string): ImportInfo | null {
+export function findImport(ident: string, source: string): ImportInfo | null {
   // import IDENT from 'PATH'  (default)
   const defRe = new RegExp(`import\\s+${ident}\\s+from\\s+['"]([^'"]+)['"]`, 'g');
   let m: RegExpExecArray | null;
@@ -1071,7 +1076,7 @@ function findImport(ident: string, source: string): ImportInfo | null {
 }
 
 /** Resolve a module path (relative or alias) to an absolute file path. */
-function resolveModulePath(
+export function resolveModulePath(
   spec: string,
   fromFile: string,
   appDir: string,
@@ -1115,7 +1120,7 @@ function resolveModulePath(
 }
 
 /** Find `const IDENT = <expr>` (top-level) and return the raw expr. */
-function findLocalConst(ident: string, source: string): string | null {
+export function findLocalConst(ident: string, source: string): string | null {
   const re = new RegExp(`(?:export\\s+)?const\\s+${ident}\\s*(?::[^=]+)?=\\s*`, 'g');
   const m = re.exec(source);
   if (!m) return null;
@@ -1149,6 +1154,116 @@ function findDefaultExportIdentifier(source: string): string | null {
   return m ? m[1] : null;
 }
 
+/**
+ * Resolve a string constant expression to its value(s), following imports:
+ * a string literal, `IDENT`, `IDENT.KEY.SUB` (const objects), `Enum.Member`,
+ * `ns.IDENT` (namespace imports), a template literal whose parts resolve to
+ * one value each, or an array of these. Returns null when any part can't be
+ * resolved.
+ */
+export function resolveStringConstant(
+  expr: string,
+  fileContent: string,
+  filePath: string,
+  appDir: string,
+  aliasMap: Map<string, string[]>,
+  depth = 0,
+): string[] | null {
+  if (depth > 5) return null;
+  expr = expr.trim().replace(/\s+as\s+const$/, '');
+
+  const literal = expr.match(/^(['"])([^'"]*)\1$/) ?? expr.match(/^(`)([^`$]*)`$/);
+  if (literal) return [literal[2]];
+
+  if (expr.startsWith('`') && expr.endsWith('`')) {
+    let failed = false;
+    const value = expr.slice(1, -1).replace(/\$\{([^}]*)\}/g, (_m, inner: string) => {
+      const parts = resolveStringConstant(inner, fileContent, filePath, appDir, aliasMap, depth + 1);
+      if (parts?.length !== 1) failed = true;
+      return parts?.[0] ?? '';
+    });
+    return failed ? null : [value];
+  }
+
+  if (expr.startsWith('[')) {
+    const close = findClosingBracket(expr, 0);
+    if (close === -1) return null;
+    const values: string[] = [];
+    for (const [item] of splitTopLevel(expr, 1, close)) {
+      if (!item.trim()) continue;
+      const resolved = resolveStringConstant(item, fileContent, filePath, appDir, aliasMap, depth + 1);
+      if (!resolved) return null;
+      values.push(...resolved);
+    }
+    return values;
+  }
+
+  if (!/^[A-Za-z_$][\w$]*(?:\s*\??\.\s*[A-Za-z_$][\w$]*)*$/.test(expr)) return null;
+  const [head, ...keys] = expr.split(/\s*\??\.\s*/);
+
+  // 1. Local const (string, array or object walked by key)
+  const local = findLocalConst(head, fileContent);
+  if (local !== null) {
+    let value: string | null = local.replace(/\s+as\s+const$/, '');
+    for (const key of keys) {
+      value = value && readObjectProperty(value, key);
+    }
+    return value === null ? null : resolveStringConstant(value, fileContent, filePath, appDir, aliasMap, depth + 1);
+  }
+
+  // 2. Local enum member
+  const enumMatch = new RegExp(`enum\\s+${escapeRegExp(head)}\\s*\\{`).exec(fileContent);
+  if (enumMatch) {
+    if (keys.length !== 1) return null;
+    const open = enumMatch.index + enumMatch[0].length - 1;
+    const close = findClosingBracket(fileContent, open);
+    if (close === -1) return null;
+    for (const [member] of splitTopLevel(fileContent, open + 1, close)) {
+      const m = member.trim().match(/^([A-Za-z_$][\w$]*)\s*=\s*([^]+)$/);
+      if (m && m[1] === keys[0]) return resolveStringConstant(m[2], fileContent, filePath, appDir, aliasMap, depth + 1);
+    }
+    return null;
+  }
+
+  // 3. Imported binding: continue in the module it comes from
+  const namespace = new RegExp(`import\\s+\\*\\s+as\\s+${escapeRegExp(head)}\\s+from\\s+['"]([^'"]+)['"]`).exec(fileContent);
+  const importInfo = namespace ? null : findImport(head, fileContent);
+  const spec = namespace ? namespace[1] : importInfo?.path;
+  if (!spec) return null;
+  const resolvedPath = resolveModulePath(spec, filePath, appDir, aliasMap);
+  if (!resolvedPath || resolvedPath.endsWith(JSON_EXT)) return null;
+
+  let nextContent: string;
+  try {
+    nextContent = readFileSync(resolvedPath, 'utf-8');
+  } catch {
+    return null;
+  }
+  let nextExpr: string;
+  if (namespace) {
+    if (keys.length === 0) return null;
+    nextExpr = keys.join('.');
+  } else {
+    const nextIdent = importInfo!.kind === 'default'
+      ? findDefaultExportIdentifier(nextContent) ?? head
+      : importInfo!.imported;
+    nextExpr = [nextIdent, ...keys].join('.');
+  }
+  return resolveStringConstant(nextExpr, nextContent, resolvedPath, appDir, aliasMap, depth + 1);
+}
+
+/** The raw value of `key` in an object literal expression, or null */
+function readObjectProperty(objectExpr: string, key: string): string | null {
+  if (!objectExpr.startsWith('{')) return null;
+  const close = findClosingBracket(objectExpr, 0);
+  if (close === -1) return null;
+  for (const [prop] of splitTopLevel(objectExpr, 1, close)) {
+    const m = prop.trim().match(/^(?:['"]([^'"]+)['"]|([A-Za-z_$][\w$]*))\s*:\s*([^]+)$/);
+    if (m && (m[1] ?? m[2]) === key) return m[3].trim();
+  }
+  return null;
+}
+
 /**
  * Parse a literal value expression into IdentResolution.
  * Supports `{...}`, `["a","b"]`, `[{...},{...}]`.
@@ -0,0 +1,129 @@
+import { relative } from 'node:path';
+import type { Config, ImportCycle } from '../types.js';
+import { minimatch } from 'minimatch';
+import { escapeRegExp, report } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import { buildImportGraph, type ImportGraph } from './unused-files.js';
+
+/** import/export ... from '...' (the clause may span lines) */
+const FROM_STATEMENT = /^[ \t]*(?:import|export)\s+(type\s+)?([^;'"=()]*?)\s*from\s*['"]([^'"]+)['"]/gm;
+/** import '...' for side effects */
+const SIDE_EFFECT_IMPORT = /^[ \t]*import\s*['"]([^'"]+)['"]/gm;
+const REQUIRE_CALL = /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
+
+/** `import type { A }` or `import { type A, type B }`: erased at compile time */
+function isTypeOnly(typeKeyword: string | undefined, clause: string): boolean {
+  if (typeKeyword) return true;
+  const braces = clause.match(/^\{([^}]*)\}$/);
+  if (!braces) return false;
+  const names = braces[1].split(',').map(name => name.trim()).filter(Boolean);
+  return names.length > 0 && names.every(name => name.startsWith('type '));
+}
+
+/**
+ * Line of the first statement importing `specifier` at load time, or
+ * undefined when it's only imported for types or lazily with `import()`
+ */
+function findRuntimeImportLine(content: string, specifier: string): number | undefined {
+  const lines: number[] = [];
+  for (const match of content.matchAll(FROM_STATEMENT)) {
+    if (match[3] === specifier && !isTypeOnly(match[1], match[2])) lines.push(lineAt(content, match.index!));
+  }
+  for (const pattern of [SIDE_EFFECT_IMPORT, REQUIRE_CALL]) {
+    for (const match of content.matchAll(pattern)) {
+      if (match[1] === specifier) lines.push(lineAt(content, match.index!));
+    }
+  }
+  if (lines.length === 0) return undefined;
+
+  // Skip statements inside line comments (the graph is built from comment-stripped code)
+  const contentLines = content.split('\n');
+  const commented = new RegExp(`^\\s*(?://|/?\\*).*['"]${escapeRegExp(specifier)}['"]`);
+  const active = lines.filter(line => !commented.test(contentLines[line - 1]));
+  return active.length > 0 ? Math.min(...active) : undefined;
+}
+
+/** Rotate a cycle so it starts with its alphabetically first file */
+function rotateCycle(cycle: ImportCycle): ImportCycle {
+  const start = cycle.files.indexOf([...cycle.files].sort()[0]);
+  return {
+    files: [...cycle.files.slice(start), ...cycle.files.slice(0, start)],
+    lines: [...cycle.lines.slice(start), ...cycle.lines.slice(0, start)],
+  };
+}
+
+/**
+ * Scan for import cycles among an app's source files, on the import graph
+ * the unused-files scanner builds. Type-only and lazy `import()` edges are
+ * left out since they don't run at load time. A depth-first walk reports one
+ * cycle per back edge, so every group of files importing each other in a
+ * loop shows up without listing each of its (possibly many) loops.
+ * Cycles with a file matching `ignore.cycles` are skipped.
+ */
+export async function scanCircularImports(config: Config, importGraph?: ImportGraph): Promise<{ total: number; cycles: ImportCycle[] }> {
+  const fileIndex = getFileIndex(config);
+
+  report(config, `   🔁 Scanning circular imports...`);
+  const graph = importGraph ?? await buildImportGraph(config);
+
+  // Load-time edges with the line of the import
+  const edges = new Map<string, Map<string, number>>();
+  for (const file of graph.files) {
+    const targets = new Map<string, number>();
+    const written = graph.specifiers.get(file);
+    if (written && written.size > 0) {
+      try {
+        const content = fileIndex.read(file);
+        for (const [target, specifier] of written) {
+          const line = findRuntimeImportLine(content, specifier);
+          if (line !== undefined) targets.set(target, line);
+        }
+      } catch {
+        // Skip unreadable files
+      }
+    }
+    edges.set(file, targets);
+  }
+
+  const found: string[][] = [];
+  const finished = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Map<string, number>();
+
+  const visit = (file: string) => {
+    onPath.set(file, path.length);
+    path.push(file);
+    for (const next of [...edges.get(file)!.keys()].sort()) {
+      const start = onPath.get(next);
+      if (start !== undefined) {
+        found.push(path.slice(start));
+      } else if (!finished.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    onPath.delete(file);
+    finished.add(file);
+  };
+  for (const file of [...graph.files].sort()) {
+    if (!finished.has(file)) visit(file);
+  }
+
+  const ignorePatterns = config.ignore.cycles ?? [];
+  const isIgnored = (file: string) => ignorePatterns.some(pattern => minimatch(relative(graph.root, file), pattern, { dot: true }));
+  const cycles = found
+    .filter(files => !files.some(isIgnored))
+    .map(files => rotateCycle({
+      files: files.map(file => relative(config.dir, file)),
+      // The last file imports the first one
+      lines: files.map((file, i) => edges.get(file)!.get(files[(i + 1) % files.length])!),
+    }))
+    .sort((a, b) => a.files.join('\n').localeCompare(b.files.join('\n')));
+
+  report(config, ` ${cycles.length} found\n`);
+  return { total: cycles.length, cycles };
+}
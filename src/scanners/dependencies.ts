@@ -0,0 +1,263 @@
+import fg from 'fast-glob';
+import { builtinModules } from 'node:module';
+import { existsSync } from 'node:fs';
+import { basename, dirname, join, relative, resolve } from 'node:path';
+import type { Config, ScanResult, UnlistedDependency, UnusedDependency } from '../types.js';
+import { minimatch } from 'minimatch';
+import { DEFAULT_IGNORE, IMPLICIT_DEPENDENCIES } from '../constants.js';
+import { escapeRegExp, readPackageJson, report } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import { buildImportGraph, type ImportGraph } from './unused-files.js';
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Tool config files naming plugins and presets as strings: `*.config.*`
+ * (next, tailwind, postcss, eslint, ...) and rc files (.releaserc, .eslintrc.json, ...)
+ */
+const CONFIG_FILE_GLOBS = ['*.config.{js,cjs,mjs,ts,mts,cts,json}', '.*rc', '.*rc.{js,cjs,mjs,ts,json,yml,yaml}'];
+
+/** The tool a config file belongs to, from its name (`vitest.config.ts`, `.eslintrc.json`) */
+const CONFIG_FILE_TOOL = /^\.?([\w-]+?)(?:rc|\.config)(?:\.\w+)?$/;
+
+/** Tools whose rc file isn't named after their package */
+const RC_FILE_PACKAGES: Record<string, string> = {
+  release: 'semantic-release',
+  babel: '@babel/core',
+  swc: '@swc/core',
+  commitlint: '@commitlint/cli',
+};
+
+/** package.json fields listing packages without using them */
+const PACKAGE_LIST_FIELDS = new Set([
+  'name', 'dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies', 'peerDependenciesMeta',
+  'dependenciesMeta', 'bundleDependencies', 'bundledDependencies', 'overrides', 'resolutions', 'pnpm', 'scripts',
+]);
+
+/** `@import "pkg"` and `@plugin "pkg"` in stylesheets (Tailwind v4) */
+const CSS_PACKAGE_REFERENCE = /@(?:import|plugin)\s+['"]([^'"]+)['"]/g;
+
+/** Words of package.json scripts: binaries, and `-r pkg/register`-style module names */
+const SCRIPT_WORD = /[\w@./:-]+/g;
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
+
+/**
+ * Package a bare import specifier belongs to (`@scope/name/sub` -> `@scope/name`,
+ * `name/sub` -> `name`); undefined for Node/Bun builtins and `scheme:` imports
+ */
+function packageName(specifier: string): string | undefined {
+  if (specifier.includes(':')) return undefined;
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  if (!name || name.startsWith('.') || BUILTIN_MODULES.has(name) || name === 'bun') return undefined;
+  return name;
+}
+
+/**
+ * Binaries a dependency installs, read from its package.json in the nearest
+ * node_modules (hoisted ones included); guessed from the name when it isn't installed
+ */
+function binNames(name: string, fromDir: string): string[] {
+  const ownName = name.split('/').pop()!;
+  for (let dir = fromDir; ; dir = dirname(dir)) {
+    const pkg = readPackageJson(join(dir, 'node_modules', name));
+    if (pkg) {
+      if (typeof pkg.bin === 'string') return [ownName];
+      return pkg.bin ? Object.keys(pkg.bin) : [];
+    }
+    if (dirname(dir) === dir) return [ownName];
+  }
+}
+
+/**
+ * How ESLint configs name a plugin or shareable config package, when it is
+ * one: `eslint-plugin-react` -> `react`, `@typescript-eslint/eslint-plugin`
+ * -> `@typescript-eslint`, `@acme/eslint-config-base` -> `@acme/base`
+ */
+function eslintShorthand(name: string): string | undefined {
+  const match = /^(?:(@[^/]+)\/)?eslint-(?:plugin|config)(?:-(.+))?$/.exec(name);
+  if (!match) return undefined;
+  const [, scope, rest] = match;
+  if (!scope) return rest;
+  return rest ? `${scope}/${rest}` : scope;
+}
+
+/** Whether config texts name a package as a string (`'pkg'`, `'pkg/sub'`) or an object key */
+function namedIn(texts: string[], name: string): boolean {
+  const id = escapeRegExp(name);
+  const asString = new RegExp(`['"\`]${id}(?:/[^'"\`]*)?['"\`]`);
+  const asKey = new RegExp(`(?<![\\w$.@/-])${id}\\s*:`);
+  return texts.some(text => asString.test(text) || asKey.test(text));
+}
+
+/** Line of `"name":` inside a package.json section */
+function dependencyLine(content: string, section: string, name: string): number | undefined {
+  const start = content.search(new RegExp(`"${section}"\\s*:`));
+  if (start === -1) return undefined;
+  const match = new RegExp(`"${escapeRegExp(name)}"\\s*:`).exec(content.slice(start));
+  return match ? lineAt(content, start + match.index) : undefined;
+}
+
+/** Line of the first import of `specifier` in a file */
+function importLine(content: string, specifier: string): number | undefined {
+  const match = new RegExp(`['"\`]${escapeRegExp(specifier)}['"\`]`).exec(content);
+  return match ? lineAt(content, match.index) : undefined;
+}
+
+/**
+ * Compare an app's package.json `dependencies` and `devDependencies` with the
+ * package imports the unused-files import graph found in its files.
+ *
+ * A dependency is used when code imports it, a `*.config.*` file in the app
+ * root or a stylesheet names it, or a package.json script runs one of its
+ * binaries. `@types/x` is only reported along with an unused `x`. Imported
+ * packages missing from every dependency section (including peer and
+ * optional) are reported as unlisted: they only resolve through hoisting,
+ * if at all. Apps without a package.json are skipped.
+ */
+export async function scanDependencies(config: Config, importGraph?: ImportGraph): Promise<Pick<ScanResult, 'unusedDependencies' | 'unlistedDependencies'>> {
+  // Normalized so it compares equal to dirname() of graph files (`--dir ./` keeps a trailing slash)
+  const appDir = resolve(config.appSpecificScan ? config.appSpecificScan.appDir : config.dir);
+  const pkg = readPackageJson(appDir);
+  if (!pkg) return {};
+
+  const fileIndex = getFileIndex(config);
+  report(config, `   📦 Scanning dependencies...`);
+  const graph = importGraph ?? await buildImportGraph(config);
+  const packageJsonPath = join(appDir, 'package.json');
+  const packageJson = relative(config.dir, packageJsonPath);
+  const isIgnored = (name: string) => (config.ignore.dependencies ?? []).some(pattern => minimatch(name, pattern));
+
+  // 1. Packages imported by the code, with the files importing them. Files
+  // under a nested package.json belong to that package.
+  const ownerDirs = new Map<string, string>();
+  const ownerDir = (dir: string): string => {
+    let owner = ownerDirs.get(dir);
+    if (owner === undefined) {
+      owner = dir === appDir || dirname(dir) === dir || existsSync(join(dir, 'package.json')) ? dir : ownerDir(dirname(dir));
+      ownerDirs.set(dir, owner);
+    }
+    return owner;
+  };
+  const imported = new Map<string, Map<string, string>>();
+  for (const file of graph.files) {
+    if (ownerDir(dirname(file)) !== appDir) continue;
+    for (const specifier of graph.packages.get(file) ?? []) {
+      const name = packageName(specifier);
+      if (!name) continue;
+      if (!imported.has(name)) imported.set(name, new Map());
+      if (!imported.get(name)!.has(file)) imported.get(name)!.set(file, specifier);
+    }
+  }
+
+  let content = '';
+  try {
+    content = fileIndex.read(packageJsonPath);
+  } catch {
+    // Lines are left out
+  }
+
+  // 2. Packages named by tool config files and stylesheets; the tool a config
+  // file is named after counts as used too
+  const named = new Set<string>();
+  const configTexts: string[] = [];
+  const eslintTexts: string[] = [];
+  // Not source files (.mjs, .css), so listed with fast-glob rather than the file index
+  const ignore = [...config.ignore.folders, ...DEFAULT_IGNORE];
+  for (const file of await fg(CONFIG_FILE_GLOBS, { cwd: appDir, ignore, absolute: true, dot: true })) {
+    const tool = CONFIG_FILE_TOOL.exec(basename(file))?.[1];
+    if (tool) named.add(RC_FILE_PACKAGES[tool] ?? tool);
+    try {
+      const text = fileIndex.readStripped(file);
+      configTexts.push(text);
+      if (tool === 'eslint') eslintTexts.push(text);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  // Tool sections of package.json (eslintConfig, release, prettier, jest, ...)
+  try {
+    for (const [field, value] of Object.entries(JSON.parse(content) as Record<string, unknown>)) {
+      if (PACKAGE_LIST_FIELDS.has(field)) continue;
+      configTexts.push(JSON.stringify(value));
+      if (field === 'eslintConfig') eslintTexts.push(JSON.stringify(value));
+    }
+  } catch {
+    // Unreadable package.json
+  }
+  for (const file of await fg('**/*.css', { cwd: appDir, ignore, absolute: true })) {
+    try {
+      for (const match of fileIndex.read(file).matchAll(CSS_PACKAGE_REFERENCE)) {
+        const name = packageName(match[1]);
+        if (name) named.add(name);
+      }
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  // ESLint resolves plugins and shareable configs from their shorthand:
+  // `plugins: ['react']`, `'plugin:react/recommended'`, rules like `'react/jsx-key'`
+  const namedInConfig = (name: string) => {
+    if (namedIn(configTexts, name)) return true;
+    const shorthand = eslintShorthand(name);
+    if (!shorthand) return false;
+    return namedIn(eslintTexts, shorthand) || eslintTexts.some(text => text.includes(`plugin:${shorthand}/`));
+  };
+
+  // 3. Words of the scripts, to match against binaries
+  const scriptWords = new Set(Object.values(pkg.scripts ?? {}).flatMap(script => script.match(SCRIPT_WORD) ?? []));
+  const runByScripts = (name: string) => {
+    if (scriptWords.has(name) || [...scriptWords].some(word => word.startsWith(`${name}/`))) return true;
+    return binNames(name, appDir).some(bin => scriptWords.has(bin));
+  };
+
+  const isUsed = (name: string) => imported.has(name) || named.has(name) || IMPLICIT_DEPENDENCIES.has(name) || namedInConfig(name) || runByScripts(name);
+
+  const declared = [
+    ...Object.keys(pkg.dependencies ?? {}).map(name => ({ name, dev: false })),
+    ...Object.keys(pkg.devDependencies ?? {}).map(name => ({ name, dev: true })),
+  ];
+  const unused: UnusedDependency[] = [];
+  for (const { name, dev } of declared) {
+    if (name === pkg.name || isIgnored(name)) continue;
+    if (name.startsWith('@types/')) {
+      // @types/node, @types/jest, ... describe the environment; only pair with a listed package
+      const typed = name.slice('@types/'.length).replace(/^(.+)__/, '@$1/');
+      if (!declared.some(dep => dep.name === typed) || isUsed(typed)) continue;
+    } else if (isUsed(name)) {
+      continue;
+    }
+    unused.push({ name, packageJson, line: dependencyLine(content, dev ? 'devDependencies' : 'dependencies', name), dev });
+  }
+
+  const listed = new Set([
+    ...declared.map(dep => dep.name),
+    ...Object.keys(pkg.peerDependencies ?? {}),
+    ...Object.keys(pkg.optionalDependencies ?? {}),
+  ]);
+  const unlisted: UnlistedDependency[] = [];
+  for (const [name, files] of [...imported].sort(([a], [b]) => a.localeCompare(b))) {
+    if (listed.has(name) || name === pkg.name || isIgnored(name)) continue;
+    const references: string[] = [];
+    for (const [file, specifier] of files) {
+      let line: number | undefined;
+      try {
+        line = importLine(fileIndex.read(file), specifier);
+      } catch {
+        // Skip unreadable files
+      }
+      const rel = relative(config.dir, file);
+      references.push(line ? `${rel}:${line}` : rel);
+    }
+    unlisted.push({ name, packageJson, references });
+  }
+
+  report(config, ` ${unused.length} unused, ${unlisted.length} unlisted\n`);
+  return {
+    unusedDependencies: { total: declared.length, used: declared.length - unused.length, unused: unused.length, dependencies: unused },
+    unlistedDependencies: { total: unlisted.length, dependencies: unlisted },
+  };
+}
@@ -1,7 +1,7 @@
 
-import fg from 'fast-glob';
-import { readFileSync } from 'node:fs';
 import type { Config } from '../types.js';
+import { getFileIndex } from '../file-index.js';
+import { report } from '../utils.js';
 
 /**
  * Scan for HTTP client usage (axios, fetch)
@@ -11,11 +11,11 @@ export async function scanHttpUsage(config: Config): Promise<{ axios: number; fe
   const extensions = config.extensions;
   const extGlob = `**/*{${extensions.join(',')}}`;
 
-  process.stdout.write(`   📡 Tracking HTTP usage...`);
+  report(config, `   📡 Tracking HTTP usage...`);
 
-  const files = await fg(extGlob, {
+  const fileIndex = getFileIndex(config);
+  const files = await fileIndex.glob(extGlob, {
     cwd: searchDir,
-    ignore: [...config.ignore.folders],
     absolute: true
   });
 
@@ -34,7 +34,7 @@ export async function scanHttpUsage(config: Config): Promise<{ axios: number; fe
 
   for (const file of files) {
     try {
-      const content = readFileSync(file, 'utf-8');
+      const content = fileIndex.read(file);
       
       const axiosMatches = content.match(axiosRegex);
       if (axiosMatches) axiosCount += axiosMatches.length;
@@ -54,7 +54,7 @@ export async function scanHttpUsage(config: Config): Promise<{ axios: number; fe
   }
 
   const total = axiosCount + fetchCount + gotCount + kyCount;
-  process.stdout.write(` ${total} calls found\n`);
+  report(config, ` ${total} calls found\n`);
 
   return { axios: axiosCount, fetch: fetchCount, got: gotCount, ky: kyCount };
 }
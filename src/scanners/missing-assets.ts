@@ -1,7 +1,7 @@
-import fg from 'fast-glob';
-import { readFileSync, existsSync } from 'node:fs';
+import { existsSync } from 'node:fs';
 import { basename, join } from 'node:path';
 import type { Config } from '../types.js';
+import { getFileIndex } from '../file-index.js';
 
 // Next.js App Router metadata convention file prefixes
 // These files in app/ are served at root URLs (e.g., app/icon.png → /icon.png)
@@ -31,11 +31,12 @@ export async function scanMissingAssets(config: Config): Promise<MissingAssetsRe
   }
 
   // 1. Find all source files to scan
-  const ignore = [...config.ignore.folders, ...config.ignore.files, 'public/**', '**/node_modules/**'];
+  const ignore = [...config.ignore.files, 'public/**', '**/node_modules/**'];
   const extensions = config.extensions;
   const globPattern = `**/*{${extensions.join(',')}}`;
 
-  const sourceFiles = await fg(globPattern, {
+  const fileIndex = getFileIndex(config);
+  const sourceFiles = await fileIndex.glob(globPattern, {
     cwd,
     ignore,
     absolute: true
@@ -50,7 +51,7 @@ export async function scanMissingAssets(config: Config): Promise<MissingAssetsRe
 
   for (const file of sourceFiles) {
     try {
-      const content = readFileSync(file, 'utf-8');
+      const content = fileIndex.read(file);
       let match;
       
       // Reset lastIndex for global regex
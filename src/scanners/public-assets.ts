@@ -1,8 +1,9 @@
 import fg from 'fast-glob';
-import { readFileSync, existsSync } from 'node:fs';
+import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import type { Config } from '../types.js';
 import { shouldIgnore } from '../scanner.js';
+import { getFileIndex } from '../file-index.js';
 
 export interface PublicAsset {
   path: string;        // Absolute path
@@ -58,16 +59,17 @@ export async function scanPublicAssets(config: Config): Promise<PublicScanResult
   // 3. Find all source files to scan (Local App Only)
   const sourceCwd = config.appSpecificScan ? config.appSpecificScan.appDir : cwd;
   const extGlob = `**/*{${config.extensions.join(',')}}`;
-  const sourceFiles = await fg(extGlob, {
+  const fileIndex = getFileIndex(config);
+  const sourceFiles = await fileIndex.glob(extGlob, {
     cwd: sourceCwd,
-    ignore: [...config.ignore.folders, ...config.ignore.files, 'public/**'],
+    ignore: [...config.ignore.files, 'public/**'],
   });
 
   // 4. Scan source files for references
   for (const file of sourceFiles) {
     const filePath = join(sourceCwd, file);
     try {
-      const content = readFileSync(filePath, 'utf-8');
+      const content = fileIndex.read(filePath);
       
       for (const asset of assets) {
         if (asset.used) continue; // Optimization: stop checking if already found
@@ -0,0 +1,264 @@
+import { dirname, join, relative, resolve } from 'node:path';
+import type { ApiRoute, Config, ServerFramework } from '../types.js';
+import { DEFAULT_IGNORE } from '../constants.js';
+import { findClosingBracket, splitTopLevel } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import {
+  SERVER_INSTANCE_PATTERN,
+  FASTIFY_INSTANCE_PARAM_PATTERN,
+  SERVER_ROUTE_PATTERN,
+  SERVER_MOUNT_PATTERN,
+} from '../patterns.js';
+
+/** Files worth parsing: they create or receive a server instance */
+const SERVER_FILE_HINT = /\b(?:express|Router|Hono|[Ff]astify|FastifyInstance)\b/;
+
+const IMPORT_DEFAULT = /import\s+([A-Za-z_$][\w$]*)\s*(?:,\s*\{[^}]*\})?\s+from\s+['"]([^'"]+)['"]/g;
+const IMPORT_NAMED = /import\s+(?:[A-Za-z_$][\w$]*\s*,\s*)?\{([^}]*)\}\s*from\s+['"]([^'"]+)['"]/g;
+const REQUIRE_DEFAULT = /(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+const EXPORT_DEFAULT = /(?:export\s+default|module\.exports\s*=)\s*([A-Za-z_$][\w$]*)\s*;?\s*$/gm;
+const EXPORT_DECLARATION = /export\s+(?:const|let|var|(?:async\s+)?function)\s+([A-Za-z_$][\w$]*)/g;
+const EXPORT_LIST = /export\s*\{([^}]*)\}(?!\s*from)/g;
+const FASTIFY_IMPORT = /from\s+['"]fastify(?:-plugin)?['"]|require\s*\(\s*['"]fastify(?:-plugin)?['"]\s*\)/;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'];
+
+/** What one file defines, in a JSON-serializable form (cached per content hash) */
+interface ServerFileInfo {
+  instances: { name: string; framework: ServerFramework; basePath: string }[];
+  routes: { receiver: string; method: string; path: string; line: number }[];
+  mounts: { parent: string; path: string; child: string }[];
+  /** `imported` is 'default' for default imports and require() */
+  imports: { local: string; imported: string; source: string }[];
+  /** `exported` is 'default' for default exports and module.exports */
+  exports: { local: string; exported: string }[];
+}
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
+
+function stringLiteral(text: string): string | null {
+  const match = text.trim().match(/^['"`]([^'"`]*)['"`]$/);
+  return match ? match[1] : null;
+}
+
+/** `router` or `createRouter()` → the identifier being mounted */
+function mountedIdentifier(text: string): string | null {
+  const match = text.trim().match(/^([A-Za-z_$][\w$]*)\s*(?:\(\s*\))?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Find the server instances, routes, mounts, imports and exports of one file.
+ */
+function extractServerFile(content: string): ServerFileInfo {
+  const info: ServerFileInfo = { instances: [], routes: [], mounts: [], imports: [], exports: [] };
+  let match;
+
+  const instance = new RegExp(SERVER_INSTANCE_PATTERN.source, SERVER_INSTANCE_PATTERN.flags);
+  while ((match = instance.exec(content)) !== null) {
+    const framework: ServerFramework = match[4] ? 'hono' : match[6] ? 'fastify' : 'express';
+    info.instances.push({ name: match[1], framework, basePath: match[5] ?? '' });
+  }
+
+  // Fastify plugins get their instance as a parameter
+  const pluginParams = new Set<string>();
+  const param = new RegExp(FASTIFY_INSTANCE_PARAM_PATTERN.source, FASTIFY_INSTANCE_PARAM_PATTERN.flags);
+  while ((match = param.exec(content)) !== null) pluginParams.add(match[1]);
+  if (FASTIFY_IMPORT.test(content) && /\bfastify\s*\./.test(content)) pluginParams.add('fastify');
+  for (const name of pluginParams) {
+    if (!info.instances.some(i => i.name === name)) info.instances.push({ name, framework: 'fastify', basePath: '' });
+  }
+  if (info.instances.length === 0) return info;
+
+  const receivers = new Set(info.instances.map(i => i.name));
+
+  const route = new RegExp(SERVER_ROUTE_PATTERN.source, SERVER_ROUTE_PATTERN.flags);
+  while ((match = route.exec(content)) !== null) {
+    if (!receivers.has(match[1])) continue;
+    info.routes.push({ receiver: match[1], method: match[2].toUpperCase(), path: match[3], line: lineAt(content, match.index) });
+  }
+
+  const call = new RegExp(SERVER_MOUNT_PATTERN.source, SERVER_MOUNT_PATTERN.flags);
+  while ((match = call.exec(content)) !== null) {
+    const [, receiver, kind] = match;
+    if (!receivers.has(receiver)) continue;
+    const open = match.index + match[0].length - 1;
+    const close = findClosingBracket(content, open);
+    if (close === -1) continue;
+    const args = splitTopLevel(content, open + 1, close).map(([text]) => text.trim()).filter(Boolean);
+    if (args.length === 0) continue;
+
+    if (kind === 'route' && args[0].startsWith('{')) {
+      // fastify.route({ method: ['GET', 'POST'], url: '/users', handler })
+      const methods = args[0].match(/\bmethod\s*:\s*(\[[^\]]*\]|['"`]\w+['"`])/);
+      const url = args[0].match(/\b(?:url|path)\s*:\s*['"`](\/[^'"`]*)['"`]/);
+      if (!methods || !url) continue;
+      for (const method of methods[1].match(/\w+/g) ?? []) {
+        if (HTTP_METHODS.includes(method.toUpperCase())) {
+          info.routes.push({ receiver, method: method.toUpperCase(), path: url[1], line: lineAt(content, match.index) });
+        }
+      }
+    } else if (kind === 'register') {
+      // fastify.register(userRoutes, { prefix: '/users' })
+      const child = mountedIdentifier(args[0]);
+      const prefix = args[1]?.match(/\bprefix\s*:\s*['"`]([^'"`]*)['"`]/);
+      if (child) info.mounts.push({ parent: receiver, path: prefix ? prefix[1] : '', child });
+    } else {
+      // app.use('/api', auth, router) / app.route('/users', users)
+      const path = stringLiteral(args[0]);
+      const child = args.length > 1 ? mountedIdentifier(args[args.length - 1]) : null;
+      if (path !== null && child) info.mounts.push({ parent: receiver, path, child });
+    }
+  }
+
+  const defaultImport = new RegExp(IMPORT_DEFAULT.source, IMPORT_DEFAULT.flags);
+  while ((match = defaultImport.exec(content)) !== null) info.imports.push({ local: match[1], imported: 'default', source: match[2] });
+  const requireImport = new RegExp(REQUIRE_DEFAULT.source, REQUIRE_DEFAULT.flags);
+  while ((match = requireImport.exec(content)) !== null) info.imports.push({ local: match[1], imported: 'default', source: match[2] });
+  const namedImport = new RegExp(IMPORT_NAMED.source, IMPORT_NAMED.flags);
+  while ((match = namedImport.exec(content)) !== null) {
+    for (const part of match[1].split(',')) {
+      const [imported, local] = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/).map(s => s.trim());
+      if (imported) info.imports.push({ local: local || imported, imported, source: match[2] });
+    }
+  }
+
+  const defaultExport = new RegExp(EXPORT_DEFAULT.source, EXPORT_DEFAULT.flags);
+  while ((match = defaultExport.exec(content)) !== null) info.exports.push({ local: match[1], exported: 'default' });
+  const declaration = new RegExp(EXPORT_DECLARATION.source, EXPORT_DECLARATION.flags);
+  while ((match = declaration.exec(content)) !== null) info.exports.push({ local: match[1], exported: match[1] });
+  const list = new RegExp(EXPORT_LIST.source, EXPORT_LIST.flags);
+  while ((match = list.exec(content)) !== null) {
+    for (const part of match[1].split(',')) {
+      const [local, exported] = part.trim().split(/\s+as\s+/).map(s => s.trim());
+      if (local) info.exports.push({ local, exported: exported || local });
+    }
+  }
+
+  return info;
+}
+
+/** Join route path segments: ('/api', '/users/') → '/api/users' */
+function joinRoutePath(...parts: string[]): string {
+  return ('/' + parts.join('/')).replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+}
+
+/**
+ * Scan Express (`app.get('/x')`, `router.post(...)`), Fastify (`fastify.get(...)`,
+ * `fastify.route({...})`) and Hono (`app.get(...)`) route registrations. Paths
+ * include the prefixes of every mount leading to them — `app.use('/api', router)`,
+ * Hono `app.route('/users', users)` and `basePath()`, Fastify
+ * `register(plugin, { prefix })` — following imported routers across files.
+ * Usage is checked by `scan()` like any other route.
+ */
+export async function scanServerRoutes(config: Config): Promise<ApiRoute[]> {
+  const fileIndex = getFileIndex(config);
+  const extGlob = `**/*{${config.extensions.join(',')}}`;
+  const candidateCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  const rootDir = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+
+  const files = await fileIndex.glob(extGlob, { cwd: candidateCwd, ignore: DEFAULT_IGNORE, absolute: true });
+  const infos = new Map<string, ServerFileInfo>();
+  for (const file of files) {
+    try {
+      if (!SERVER_FILE_HINT.test(fileIndex.read(file))) continue;
+      const info = fileIndex.extract('server-routes', file, extractServerFile);
+      if (info.instances.length > 0) infos.set(file, info);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  if (infos.size === 0) return [];
+
+  const resolveSource = (from: string, source: string): string | null => {
+    if (!source.startsWith('.')) return null;
+    const base = resolve(dirname(from), source).replace(/\.[cm]?js$/, '');
+    const candidates = [base, ...config.extensions.map(ext => base + ext), ...config.extensions.map(ext => join(base, 'index' + ext))];
+    return candidates.find(c => infos.has(c)) ?? null;
+  };
+
+  // Instances a mount's child refers to: a local instance, or the exported one of an imported file
+  const resolveChild = (file: string, child: string): string[] => {
+    const info = infos.get(file)!;
+    if (info.instances.some(i => i.name === child)) return [`${file}#${child}`];
+    const imported = info.imports.find(i => i.local === child);
+    const target = imported && resolveSource(file, imported.source);
+    if (!target) return [];
+    const targetInfo = infos.get(target)!;
+    const local = targetInfo.exports.find(e => e.exported === imported.imported)?.local;
+    if (local && targetInfo.instances.some(i => i.name === local)) return [`${target}#${local}`];
+    // Factories (createRouter()) and plugins: every instance the file creates or receives
+    return targetInfo.instances.map(i => `${target}#${i.name}`);
+  };
+
+  const parents = new Map<string, { parent: string; path: string }[]>();
+  for (const [file, info] of infos) {
+    for (const mount of info.mounts) {
+      for (const child of resolveChild(file, mount.child)) {
+        if (!parents.has(child)) parents.set(child, []);
+        parents.get(child)!.push({ parent: `${file}#${mount.parent}`, path: mount.path });
+      }
+    }
+  }
+
+  // Every full prefix an instance is reachable under
+  const prefixCache = new Map<string, string[]>();
+  const prefixesOf = (key: string, visiting: Set<string>): string[] => {
+    const cached = prefixCache.get(key);
+    if (cached) return cached;
+    const [file, name] = [key.slice(0, key.lastIndexOf('#')), key.slice(key.lastIndexOf('#') + 1)];
+    const basePath = infos.get(file)!.instances.find(i => i.name === name)?.basePath ?? '';
+    const mounts = (parents.get(key) ?? []).filter(m => !visiting.has(m.parent));
+    if (mounts.length === 0) return [joinRoutePath(basePath)];
+
+    visiting.add(key);
+    const prefixes = new Set<string>();
+    for (const mount of mounts) {
+      for (const prefix of prefixesOf(mount.parent, visiting)) prefixes.add(joinRoutePath(prefix, mount.path, basePath));
+    }
+    visiting.delete(key);
+    const result = [...prefixes];
+    prefixCache.set(key, result);
+    return result;
+  };
+
+  const routes: ApiRoute[] = [];
+  for (const [file, info] of infos) {
+    const filePath = relative(rootDir, file);
+    const byPath = new Map<string, ApiRoute>();
+    for (const route of info.routes) {
+      const instance = info.instances.find(i => i.name === route.receiver)!;
+      for (const prefix of prefixesOf(`${file}#${route.receiver}`, new Set())) {
+        const path = joinRoutePath(prefix, route.path);
+        let apiRoute = byPath.get(path);
+        if (!apiRoute) {
+          apiRoute = {
+            type: instance.framework,
+            path,
+            filePath,
+            used: false,
+            references: [],
+            methods: [],
+            unusedMethods: [],
+            methodLines: {},
+          };
+          byPath.set(path, apiRoute);
+          routes.push(apiRoute);
+        }
+        if (!apiRoute.methods.includes(route.method)) {
+          apiRoute.methods.push(route.method);
+          apiRoute.unusedMethods.push(route.method);
+          apiRoute.methodLines[route.method] = route.line;
+        }
+      }
+    }
+  }
+
+  if (process.env.DEBUG_PRUNY) {
+    for (const route of routes) console.log(`[DEBUG] Extracted ${route.type} Route: ${route.path} from ${route.filePath}`);
+  }
+
+  return routes;
+}
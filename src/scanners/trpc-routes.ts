@@ -0,0 +1,278 @@
+import { relative } from 'node:path';
+import type { ApiRoute, Config } from '../types.js';
+import { DEFAULT_IGNORE } from '../constants.js';
+import { findClosingBracket, report, splitTopLevel } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+
+/** const appRouter = createTRPCRouter({ / t.router({ / router({ / mergeRouters( */
+const ROUTER_DEFINITION = /(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:[A-Za-z_$][\w$]*\.)?(createTRPCRouter|router|mergeRouters)\s*\(/g;
+
+/** Inline nested router as an entry value: router({ ... }) */
+const INLINE_ROUTER = /^(?:[A-Za-z_$][\w$]*\.)?(?:createTRPCRouter|router)\s*\(\s*\{/;
+
+/** Member chains like api.user.getById.useQuery — the client identifier is captured separately */
+const MEMBER_CHAIN = /(?<![\w$.])([A-Za-z_$][\w$]*)((?:\s*\??\.\s*[A-Za-z_$][\w$]*)+)/g;
+
+/**
+ * Variables holding a tRPC client or proxy: `createTRPCReact<AppRouter>()`,
+ * `createTRPCProxyClient(...)`, `useTRPC()`, `api.useUtils()`,
+ * `appRouter.createCaller(ctx)`
+ */
+const CLIENT_DEFINITION = /(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:await\s+)?(?:createTRPC\w*|useTRPC\w*|(?:[A-Za-z_$][\w$]*\.)*(?:useUtils|useContext|createCaller))\s*(?:<[^>]*>)?\s*\(/g;
+
+/** Client names used without a visible definition (create-t3-app's `api`, the docs' `trpc`) */
+const DEFAULT_CLIENTS = ['api', 'trpc'];
+
+/** Cheap check before parsing a file for router definitions */
+const ROUTER_FACTORY_CALL = /\b(?:createTRPCRouter|router|mergeRouters)\s*\(/;
+
+type RouterEntry =
+  | { kind: 'procedure'; key: string; line: number }
+  | { kind: 'router'; key: string; ref: string; line: number }
+  | { kind: 'inline'; key: string; router: RouterDefinition }
+  | { kind: 'spread'; ref: string };
+
+interface RouterDefinition {
+  name: string;
+  entries: RouterEntry[];
+}
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
+
+/** Parse the entries of a router object literal spanning `open..close` ({ ... }) */
+function parseRouterObject(content: string, name: string, open: number, close: number): RouterDefinition {
+  const entries: RouterEntry[] = [];
+
+  for (const [raw, offset] of splitTopLevel(content, open + 1, close)) {
+    // Drop leading comments so keys and line numbers point at the entry itself
+    const text = raw.replace(/^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/, '');
+    if (!text.trim()) continue;
+    const start = offset + (raw.length - text.length);
+
+    const spread = text.match(/^\.\.\.\s*([A-Za-z_$][\w$]*)/);
+    if (spread) {
+      entries.push({ kind: 'spread', ref: spread[1] });
+      continue;
+    }
+
+    const keyed = text.match(/^(?:['"]([^'"]+)['"]|([A-Za-z_$][\w$]*))\s*(:?)/);
+    if (!keyed) continue;
+    const key = keyed[1] ?? keyed[2];
+    const value = keyed[3] ? text.slice(keyed[0].length).trim() : key;
+
+    if (INLINE_ROUTER.test(value)) {
+      const innerOpen = start + text.indexOf(value) + value.indexOf('{');
+      const innerClose = findClosingBracket(content, innerOpen);
+      if (innerClose !== -1) {
+        entries.push({ kind: 'inline', key, router: parseRouterObject(content, `${name}.${key}`, innerOpen, innerClose) });
+      }
+    } else if (/^[A-Za-z_$][\w$]*$/.test(value) && !/procedure$/i.test(value)) {
+      // A bare identifier is a sub-router (resolved later; unknown names count as procedures)
+      entries.push({ kind: 'router', key, ref: value, line: lineAt(content, start) });
+    } else {
+      entries.push({ kind: 'procedure', key, line: lineAt(content, start) });
+    }
+  }
+
+  return { name, entries };
+}
+
+/**
+ * Find the tRPC router definitions in one file.
+ */
+function extractTrpcRouters(content: string): RouterDefinition[] {
+  const routers: RouterDefinition[] = [];
+  const definition = new RegExp(ROUTER_DEFINITION.source, ROUTER_DEFINITION.flags);
+  let match;
+  while ((match = definition.exec(content)) !== null) {
+    const [, name, factory] = match;
+    const parenOpen = match.index + match[0].length - 1;
+    const parenClose = findClosingBracket(content, parenOpen);
+    if (parenClose === -1) continue;
+
+    if (factory === 'mergeRouters') {
+      const refs = content.slice(parenOpen + 1, parenClose).split(',').map(s => s.trim()).filter(s => /^[A-Za-z_$][\w$]*$/.test(s));
+      routers.push({ name, entries: refs.map(ref => ({ kind: 'spread', ref })) });
+      continue;
+    }
+
+    const braceOpen = content.indexOf('{', parenOpen);
+    if (braceOpen === -1 || content.slice(parenOpen + 1, braceOpen).trim()) continue;
+    const braceClose = findClosingBracket(content, braceOpen);
+    if (braceClose === -1) continue;
+    routers.push(parseRouterObject(content, name, braceOpen, braceClose));
+  }
+  return routers;
+}
+
+/**
+ * Member chains in one file, split into their first identifier and the rest
+ * (`api.user.getById.useQuery()` → `api`, `user.getById.useQuery`).
+ */
+function extractMemberChains(content: string): { root: string; chain: string }[] {
+  const chains = new Map<string, { root: string; chain: string }>();
+  const pattern = new RegExp(MEMBER_CHAIN.source, MEMBER_CHAIN.flags);
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    const root = match[1];
+    const chain = match[2].replace(/[\s?]/g, '').slice(1);
+    chains.set(`${root}.${chain}`, { root, chain });
+  }
+  return [...chains.values()];
+}
+
+/** Names of the variables one file assigns a tRPC client, proxy, utils or caller to */
+function extractClientNames(content: string): string[] {
+  const names = new Set<string>();
+  const definition = new RegExp(CLIENT_DEFINITION.source, CLIENT_DEFINITION.flags);
+  let match;
+  while ((match = definition.exec(content)) !== null) names.add(match[1]);
+  return [...names];
+}
+
+/**
+ * Scan tRPC routers (`router({...})`, `createTRPCRouter({...})`, including
+ * nested routers merged via spread or sub-router keys) and report procedures
+ * never called through a client (`api.user.getById.useQuery()`,
+ * `trpc.post.create.useMutation()`, `utils.post.list.invalidate()`, server
+ * callers). Each router becomes one route with its procedures as methods.
+ */
+export async function scanTrpcRoutes(config: Config): Promise<ApiRoute[]> {
+  const fileIndex = getFileIndex(config);
+  const extGlob = `**/*{${config.extensions.join(',')}}`;
+  const candidateCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  const referenceCwd = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+
+  // 1. Router definitions, by variable name
+  const candidateFiles = await fileIndex.glob(extGlob, { cwd: candidateCwd, ignore: DEFAULT_IGNORE, absolute: true });
+  const definitions = new Map<string, { router: RouterDefinition; file: string }>();
+  for (const file of candidateFiles) {
+    try {
+      const content = fileIndex.read(file);
+      if (!ROUTER_FACTORY_CALL.test(content)) continue;
+      for (const router of fileIndex.extract('trpc-routers', file, extractTrpcRouters)) {
+        if (!definitions.has(router.name)) definitions.set(router.name, { router, file });
+      }
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  if (definitions.size === 0) return [];
+
+  report(config, `   🧩 Scanning tRPC procedures...`);
+
+  // 2. Walk from the root routers (those no other router mounts) to build the procedure tree
+  const mounted = new Set<string>();
+  const collectRefs = (router: RouterDefinition) => {
+    for (const entry of router.entries) {
+      if (entry.kind === 'router' || entry.kind === 'spread') mounted.add(entry.ref);
+      if (entry.kind === 'inline') collectRefs(entry.router);
+    }
+  };
+  for (const { router } of definitions.values()) collectRefs(router);
+
+  const routes: ApiRoute[] = [];
+  const procedurePaths = new Map<ApiRoute, Map<string, string>>();
+  const visited = new Set<string>();
+
+  const visit = (router: RouterDefinition, file: string, path: string, callPrefix: string) => {
+    const visitKey = `${path}|${file}|${router.name}`;
+    if (visited.has(visitKey)) return;
+    visited.add(visitKey);
+
+    let route: ApiRoute | undefined;
+    const addProcedure = (key: string, line: number) => {
+      if (!route) {
+        route = {
+          type: 'trpc',
+          path,
+          filePath: relative(referenceCwd, file),
+          used: false,
+          references: [],
+          methods: [],
+          unusedMethods: [],
+          methodLines: {},
+        };
+        routes.push(route);
+        procedurePaths.set(route, new Map());
+      }
+      if (route.methods.includes(key)) return;
+      route.methods.push(key);
+      route.methodLines[key] = line;
+      procedurePaths.get(route)!.set(key, callPrefix + key);
+    };
+
+    for (const entry of router.entries) {
+      if (entry.kind === 'procedure') {
+        addProcedure(entry.key, entry.line);
+      } else if (entry.kind === 'inline') {
+        visit(entry.router, file, `${path}.${entry.key}`, `${callPrefix}${entry.key}.`);
+      } else {
+        const target = definitions.get(entry.ref);
+        if (entry.kind === 'spread') {
+          if (target) visit(target.router, target.file, path, callPrefix);
+        } else if (target) {
+          visit(target.router, target.file, `${path}.${entry.key}`, `${callPrefix}${entry.key}.`);
+        } else {
+          addProcedure(entry.key, entry.line);
+        }
+      }
+    }
+  };
+
+  for (const [name, { router, file }] of definitions) {
+    if (!mounted.has(name)) visit(router, file, name, '');
+  }
+
+  // 3. Client calls: a member chain rooted at a client that runs through a
+  // procedure's full path. Router files are skipped: their own chains
+  // (`t.procedure.input`, `ctx.db.user.findMany`) are not calls.
+  const referenceFiles = await fileIndex.glob(extGlob, { cwd: referenceCwd, ignore: DEFAULT_IGNORE, absolute: true });
+  const clientFiles: string[] = [];
+  const clients = new Set(DEFAULT_CLIENTS);
+  for (const file of referenceFiles) {
+    try {
+      if (ROUTER_FACTORY_CALL.test(fileIndex.read(file)) && fileIndex.extract('trpc-routers', file, extractTrpcRouters).length > 0) continue;
+      clientFiles.push(file);
+      for (const name of fileIndex.extract('trpc-clients', file, extractClientNames, { stripped: true })) clients.add(name);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  const callers = new Map<string, Set<string>>();
+  for (const file of clientFiles) {
+    for (const { root, chain } of fileIndex.extract('member-chains', file, extractMemberChains, { stripped: true })) {
+      if (!clients.has(root)) continue;
+      const segments = chain.split('.');
+      for (let i = 1; i <= segments.length; i++) {
+        const prefix = segments.slice(0, i).join('.');
+        if (!callers.has(prefix)) callers.set(prefix, new Set());
+        callers.get(prefix)!.add(relative(referenceCwd, file));
+      }
+    }
+  }
+
+  let procedureCount = 0;
+  for (const route of routes) {
+    const paths = procedurePaths.get(route)!;
+    const references = new Set<string>();
+    for (const method of route.methods) {
+      procedureCount++;
+      const files = callers.get(paths.get(method)!);
+      if (files) {
+        for (const file of files) references.add(file);
+      } else {
+        route.unusedMethods.push(method);
+      }
+    }
+    route.references = [...references].filter(ref => ref !== route.filePath);
+    route.used = route.unusedMethods.length < route.methods.length;
+    if (!route.used) route.unusedMethods = [...route.methods];
+  }
+
+  report(config, ` ${procedureCount} procedures in ${routes.length} routers\n`);
+  return routes;
+}
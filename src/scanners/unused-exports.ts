@@ -1,15 +1,12 @@
-import fg from 'fast-glob';
-import { readFileSync, existsSync } from 'node:fs';
+import { existsSync } from 'node:fs';
 import { join, relative, dirname, parse, isAbsolute } from 'node:path';
 import { Worker } from 'node:worker_threads';
 import { fileURLToPath } from 'node:url';
 import type { Config, UnusedExport, ApiRoute } from '../types.js';
-import {
-  IGNORED_EXPORT_NAMES, FRAMEWORK_METHOD_DECORATORS, NEST_LIFECYCLE_METHODS,
-  JS_KEYWORDS, CLASS_METHOD_REGEX, INLINE_EXPORT_REGEX, BLOCK_EXPORT_REGEX,
-  GENERIC_METHOD_NAMES, DEFAULT_IGNORE, isServiceLikeFile,
-} from '../constants.js';
-import { sanitizeLine, escapeRegExp, makeCodePattern } from '../utils.js';
+import { IGNORED_EXPORT_NAMES, GENERIC_METHOD_NAMES, DEFAULT_IGNORE } from '../constants.js';
+import { exportsCacheKind, extractExports } from '../exports.js';
+import { sanitizeLine, escapeRegExp, makeCodePattern, report } from '../utils.js';
+import { getFileIndex, type FileIndex } from '../file-index.js';
 
 /**
  * Process files in parallel using worker threads
@@ -31,7 +28,9 @@ function findProjectRoot(startDir: string): string {
 async function processFilesInParallel(
   files: string[],
   cwd: string,
-  workerCount: number
+  workerCount: number,
+  fileIndex: FileIndex,
+  config: Config
 ): Promise<{
   exportMap: Map<string, { name: string; line: number; file: string }[]>;
   contents: Map<string, string>;
@@ -58,29 +57,60 @@ async function processFilesInParallel(
     }
   }
   
+  const exportMap = new Map<string, { name: string; line: number; file: string }[]>();
+  const contents = new Map<string, string>();
+
+  // Files whose exports are in the persistent cache skip the workers entirely
+  const { cache } = fileIndex;
+  const pending: string[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fileIndex.read(file);
+    } catch {
+      pending.push(file);
+      continue;
+    }
+    const cached = cache?.get<{ name: string; line: number }[]>(exportsCacheKind(file), content);
+    if (!cached) {
+      pending.push(file);
+      continue;
+    }
+    contents.set(file, content);
+    if (cached.length > 0) exportMap.set(file, cached.map(e => ({ ...e, file })));
+  }
+
   // Split files into chunks for each worker
-  const chunkSize = Math.ceil(files.length / workerCount);
+  const chunkSize = Math.ceil(pending.length / workerCount);
   const chunks: string[][] = [];
   for (let i = 0; i < workerCount; i++) {
     const start = i * chunkSize;
-    const end = Math.min(start + chunkSize, files.length);
-    if (start < files.length) {
-      chunks.push(files.slice(start, end));
+    const end = Math.min(start + chunkSize, pending.length);
+    if (start < pending.length) {
+      chunks.push(pending.slice(start, end));
     }
   }
   
-  const exportMap = new Map<string, { name: string; line: number; file: string }[]>();
-  const contents = new Map<string, string>();
   const progressMap = new Map<number, { processed: number; total: number }>();
   
   // Create workers
   const workerPromises = chunks.map((chunk, chunkId) => {
+    // Files already read in this scan run aren't read again by the worker
+    const knownContents: Record<string, string> = {};
+    for (const file of chunk) {
+      const content = fileIndex.cached(file);
+      if (content === undefined) continue;
+      knownContents[file] = content;
+      contents.set(file, content);
+    }
+
     return new Promise<void>((resolve, reject) => {
       const worker = new Worker(workerPath, {
         workerData: {
           files: chunk,
           cwd,
-          chunkId
+          chunkId,
+          contents: knownContents
         }
       });
       
@@ -101,7 +131,7 @@ async function processFilesInParallel(
           }
           
           const percent = Math.round((totalProcessed / totalFiles) * 100);
-          process.stdout.write(`\r      Processing: ${totalProcessed}/${totalFiles} (${percent}%)${' '.repeat(10)}`);
+          report(config, `\r      Processing: ${totalProcessed}/${totalFiles} (${percent}%)${' '.repeat(10)}`);
         } else if (msg.type === 'complete') {
           // Merge results
           const result = msg.result;
@@ -116,6 +146,7 @@ async function processFilesInParallel(
           
           for (const [file, content] of workerContents.entries()) {
             contents.set(file, content as string);
+            fileIndex.remember(file, content as string);
           }
           
           worker.terminate();
@@ -135,7 +166,16 @@ async function processFilesInParallel(
   await Promise.all(workerPromises);
   
   // Clear progress line
-  process.stdout.write('\r' + ' '.repeat(60) + '\r');
+  report(config, '\r' + ' '.repeat(60) + '\r');
+
+  if (cache) {
+    for (const file of pending) {
+      const content = contents.get(file);
+      if (content === undefined) continue;
+      const found = (exportMap.get(file) ?? []).map(({ name, line }) => ({ name, line }));
+      cache.set(exportsCacheKind(file), content, found);
+    }
+  }
   
   return { exportMap, contents };
 }
@@ -147,6 +187,7 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
   const cwd = config.dir;
   const extensions = config.extensions;
   const extGlob = `**/*{${extensions.join(',')}}`;
+  const fileIndex = getFileIndex(config);
 
   // 1. Determine Scope
   // Candidates: Files we want to find unused exports IN (e.g., apps/web)
@@ -161,13 +202,13 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
     : findProjectRoot(cwd);
 
   if (!options.silent) {
-    process.stdout.write(`   🔗 Scanning exports...`);
+    report(config, `   🔗 Scanning exports...`);
   }
 
   // 2. Find Candidate Files (to scan for exports)
-  let candidateFiles = await fg(extGlob, {
+  let candidateFiles = await fileIndex.glob(extGlob, {
     cwd: candidateCwd,
-    ignore: [...DEFAULT_IGNORE, ...config.ignore.folders, ...config.ignore.files],
+    ignore: [...DEFAULT_IGNORE, ...config.ignore.files],
     absolute: true // Get absolute paths to match easily
   });
 
@@ -185,9 +226,9 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
   // excluded from candidates (we don't report their exports) but they must remain
   // in the reference set — otherwise an export that is used only from an ignored
   // UI wrapper / server action gets falsely flagged. See issue #38.
-  const referenceFiles = await fg(extGlob, {
+  const referenceFiles = await fileIndex.glob(extGlob, {
     cwd: referenceCwd,
-    ignore: [...DEFAULT_IGNORE, ...config.ignore.folders],
+    ignore: DEFAULT_IGNORE,
     absolute: true
   });
 
@@ -204,20 +245,16 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
   const totalContents = new Map<string, string>();
   let allExportsCount = 0;
 
-  // Patterns to find exports (fresh instances since RegExp with /g is stateful)
-  const inlineExportRegex = new RegExp(INLINE_EXPORT_REGEX.source, INLINE_EXPORT_REGEX.flags);
-  const blockExportRegex = new RegExp(BLOCK_EXPORT_REGEX.source, BLOCK_EXPORT_REGEX.flags);
-
   // Use parallel processing for large projects (500+ files)
   const USE_WORKERS = referenceFiles.length >= 500;
   const WORKER_COUNT = 2; // Gentle on CPU - only 2 workers
 
   if (USE_WORKERS) {
-    if (!options.silent) process.stdout.write(` ${candidateFiles.length} candidates, ${referenceFiles.length} refs\n`);
+    if (!options.silent) report(config, ` ${candidateFiles.length} candidates, ${referenceFiles.length} refs\n`);
     
     // Process ALL reference files (superset) so we have contents for usage check
     // We only care about exports from candidateFiles, but we need contents of everything.
-    const result = await processFilesInParallel(referenceFiles, referenceCwd, WORKER_COUNT);
+    const result = await processFilesInParallel(referenceFiles, referenceCwd, WORKER_COUNT, fileIndex, config);
     
     // Merge file contents (Global)
     for (const [file, content] of result.contents.entries()) {
@@ -246,12 +283,12 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
     }
     
   } else {
-  if (!options.silent) process.stdout.write(` ${candidateFiles.length} candidates, ${referenceFiles.length} refs\n`);
+  if (!options.silent) report(config, ` ${candidateFiles.length} candidates, ${referenceFiles.length} refs\n`);
   
   // We need to read ALL reference files to build totalContents
   for (const file of referenceFiles) {
       try {
-          const content = readFileSync(file, 'utf-8');
+          const content = fileIndex.read(file);
           totalContents.set(file, content);
       } catch (_e) {
         // Skip
@@ -271,87 +308,15 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
       // Show progress every 10 files
       if (!options.silent && (processedFiles % 10 === 0 || processedFiles === candidateFiles.length)) {
         const percent = Math.round((processedFiles / candidateFiles.length) * 100);
-        process.stdout.write(`\r      Processing: ${processedFiles}/${candidateFiles.length} (${percent}%)${' '.repeat(10)}`);
+        report(config, `\r      Processing: ${processedFiles}/${candidateFiles.length} (${percent}%)${' '.repeat(10)}`);
       }
       
-      const content = totalContents.get(file) || readFileSync(file, 'utf-8');
-      totalContents.set(file, content);
+      totalContents.set(file, totalContents.get(file) || fileIndex.read(file));
 
-      const isService = isServiceLikeFile(file);
-      const lines = content.split('\n');
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // 1. Regular exports
-        inlineExportRegex.lastIndex = 0;
-        let match;
-        while ((match = inlineExportRegex.exec(line)) !== null) {
-          if (addExport(displayPath, match[1], i + 1)) {
-            allExportsCount++;
-          }
-        }
-
-        blockExportRegex.lastIndex = 0;
-        while ((match = blockExportRegex.exec(line)) !== null) {
-          const names = match[1].split(',').map((n: string) => {
-             const parts = n.trim().split(/\s+as\s+/);
-             return parts[parts.length - 1];
-          });
-          for (const name of names) {
-            if (addExport(displayPath, name, i + 1)) {
-              allExportsCount++;
-            }
-          }
-        }
-
-      } // End of line-by-line loop
-
-      // 2. Class methods in services (Cascading fix)
-      if (isService) {
-        const classMethodRegex = new RegExp(CLASS_METHOD_REGEX.source, CLASS_METHOD_REGEX.flags);
-        let match;
-        while ((match = classMethodRegex.exec(content)) !== null) {
-          const name = match[1];
-          if (name && !NEST_LIFECYCLE_METHODS.has(name) && !IGNORED_EXPORT_NAMES.has(name) && !JS_KEYWORDS.has(name)) {
-            // Calculate line number from the NAME index, not the match start (to avoid including preceding newlines)
-            const nameIndex = match.index + match[0].indexOf(name);
-            const lineNum = content.substring(0, nameIndex).split('\n').length;
-
-            if (process.env.DEBUG_PRUNY) {
-              console.log(`[DEBUG] Found candidate method: ${name} in ${displayPath} at line ${lineNum}`);
-            }
-
-            // Framework awareness: Check for decorators that imply framework usage
-            let isFrameworkManaged = false;
-            for (let k = 1; k <= 15; k++) {
-              if (lineNum - 1 - k >= 0) {
-                const prevLine = lines[lineNum - 1 - k].trim();
-                if (prevLine.startsWith('@') && Array.from(FRAMEWORK_METHOD_DECORATORS).some(d => prevLine.startsWith(d))) {
-                  isFrameworkManaged = true;
-                  if (process.env.DEBUG_PRUNY) {
-                    console.log(`[DEBUG] Method ${name} is framework managed by ${prevLine}`);
-                  }
-                  break;
-                }
-                if (prevLine.startsWith('export class') || prevLine.includes(' constructor(') || (prevLine.includes(') {') && !prevLine.startsWith('@') && !prevLine.endsWith(')'))) {
-                  break;
-                }
-              }
-            }
-
-            if (isFrameworkManaged) continue;
-
-            const existing = exportMap.get(displayPath)?.find(e => e.name === name);
-            if (!existing) {
-              if (addExport(displayPath, name, lineNum)) {
-                allExportsCount++;
-                if (process.env.DEBUG_PRUNY) {
-                  console.log(`[DEBUG] Added unused candidate: ${name}`);
-                }
-              }
-            }
-          }
+      const found = fileIndex.extract(exportsCacheKind(file), file, c => extractExports(c, displayPath));
+      for (const { name, line } of found) {
+        if (addExport(displayPath, name, line)) {
+          allExportsCount++;
         }
       }
     } catch (_err) {
@@ -361,7 +326,7 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
   
   // Clear progress line
   if (!options.silent && processedFiles > 0) {
-    process.stdout.write('\r' + ' '.repeat(60) + '\r');
+    report(config, '\r' + ' '.repeat(60) + '\r');
   }
   } // Close else block
 
@@ -412,7 +377,7 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
     }
   }
   
-  if (!options.silent) process.stdout.write(`      Checking ${allExportsCount} exports for usage...`);
+  if (!options.silent) report(config, `      Checking ${allExportsCount} exports for usage...`);
 
   // 3. Check for references in all files
   for (const [file, exports] of exportMap.entries()) {
@@ -658,7 +623,7 @@ export async function scanUnusedExports(config: Config, routes: ApiRoute[] = [],
   }
 
   if (!options.silent) {
-    process.stdout.write(` ${unusedExports.length} unused\n`);
+    report(config, ` ${unusedExports.length} unused\n`);
   }
 
   return {
@@ -1,24 +1,44 @@
-import fg from 'fast-glob';
-import { readFileSync, statSync, existsSync } from 'node:fs';
-import { join, dirname, resolve, relative } from 'node:path';
+import { statSync, existsSync } from 'node:fs';
+import { join, dirname, resolve, relative, sep } from 'node:path';
 import type { Config, UnusedFile } from '../types.js';
+import { addConfidenceReason } from '../confidence.js';
 import { minimatch } from 'minimatch';
-import { parseTsConfigPaths, detectAppFramework, stripComments } from '../utils.js';
+import { parseTsConfigPaths, detectAppFramework, nonCodeRanges, readPackageJson, report } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import { readWorkspacePackages, splitPackageSpecifier, workspaceImportTargets } from '../workspaces.js';
+
+/** Source files of an app and the local imports between them */
+export interface ImportGraph {
+  /** Directory the files were collected from */
+  root: string;
+  /** Every source file (absolute paths) */
+  files: string[];
+  /** Entry points, with the entry pattern each one matched (or the specifier another workspace imports it by) */
+  entries: Map<string, string>;
+  /** Files matching `ignore.files` */
+  ignored: Set<string>;
+  /** Resolved imports of each file (files outside the graph are left out) */
+  imports: Map<string, string[]>;
+  /** Specifier as written for each resolved import: importer -> imported file -> specifier */
+  specifiers: Map<string, Map<string, string>>;
+  /** Package specifiers of each file: imports that are neither relative nor a path alias (workspace packages included) */
+  packages: Map<string, string[]>;
+  /** Every entry pattern that was checked */
+  entryPatterns: string[];
+}
 
 /**
- * Scan for unused source files (.ts, .tsx, .js, .jsx)
- * 
- * SCOPE:
- * - Candidates: Inside App Directory
- * - Usage Check: Inside App Directory (Local only, per user request)
+ * Collect an app's source files, its entry points and the imports between
+ * them (relative, tsconfig paths, the `@/` and `~/` fallbacks, or workspace
+ * package names resolved through their package.json). In a monorepo, files
+ * other workspaces import by the app's package name are entry points too.
  */
-export async function scanUnusedFiles(config: Config): Promise<{ total: number; used: number; unused: number; files: UnusedFile[] }> {
+export async function buildImportGraph(config: Config): Promise<ImportGraph> {
   // Use appDir if specific scan, else config.dir
   const searchDir = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
   const extensions = config.extensions;
   const extGlob = `**/*{${extensions.join(',')}}`;
-
-  process.stdout.write(`   📂 Scanning source files...`);
+  const fileIndex = getFileIndex(config);
 
   // 1. Find all files in the search directory.
   // We exclude `ignore.folders` from the glob (for perf — skipping node_modules etc.),
@@ -26,18 +46,11 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
   // for being reported as unused, but we still need to trace their imports so that
   // transitively-reachable files (e.g. lib files imported only from an ignored UI
   // component wrapper) are correctly marked as used. See issue #38.
-  const allFiles = await fg(extGlob, {
+  const allFiles = await fileIndex.glob(extGlob, {
     cwd: searchDir,
-    ignore: config.ignore.folders,
     absolute: true
   });
 
-  process.stdout.write(` ${allFiles.length} files found\n`);
-
-  if (allFiles.length === 0) {
-    return { total: 0, used: 0, unused: 0, files: [] };
-  }
-
   const allFilesSet = new Set(allFiles);
 
   // Identify files that match `ignore.files`. These stay in the graph for reachability
@@ -53,11 +66,11 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
   }
 
   // 2. Identify Entry Points
-  const entryFiles = new Set<string>();
   const entryPatterns = [
     '**/page.{ts,tsx,js,jsx}',
     '**/layout.{ts,tsx,js,jsx}',
     '**/route.{ts,tsx,js,jsx}',
+    '**/pages/api/**/*.{ts,tsx,js,jsx}', // Pages Router API routes
     '**/loading.{ts,tsx,js,jsx}',
     '**/error.{ts,tsx,js,jsx}',
     '**/not-found.{ts,tsx,js,jsx}',
@@ -133,20 +146,13 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
     );
   }
 
+  const entries = new Map<string, string>();
   for (const file of allFiles) {
     const relPath = relative(searchDir, file);
-    const isEntry = entryPatterns.some(pattern => {
-       return minimatch(relPath, pattern, { dot: true });
-    });
-
-    if (isEntry) entryFiles.add(file);
+    const pattern = entryPatterns.find(p => minimatch(relPath, p, { dot: true }));
+    if (pattern) entries.set(file, pattern);
   }
 
-  // Files in `ignore.files` are implicitly "always used" — the user has declared
-  // they don't want them reported. Treat them as entry points so the BFS traces
-  // their imports and marks downstream files as reachable.
-  for (const file of ignoredFileSet) entryFiles.add(file);
-
   // 3. Parse tsconfig.json paths for alias resolution
   const aliasMap = parseTsConfigPaths(searchDir);
 
@@ -157,33 +163,33 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
     }
   }
 
-  // 4. Track usage by resolving imports
-  const usedFiles = new Set<string>(entryFiles);
-  const queue = Array.from(entryFiles);
-  const visited = new Set<string>(entryFiles);
-
-  // Enhanced regex to handle newlines, various import styles, and webpack magic comments.
-  // The (?:\/\*[\s\S]*?\*\/\s*)* part skips zero or more block comments (e.g.
-  // /* webpackChunkName: "foo" */) that Next.js and bundlers insert inside import().
-  const importRegex = /from\s+['"]([^'"]+)['"]|import\(\s*(?:\/\*[\s\S]*?\*\/\s*)*['"]([^'"]+)['"]\)|require\(\s*(?:\/\*[\s\S]*?\*\/\s*)*['"]([^'"]+)['"]\)/g;
+  // Workspace packages imported by name (`@acme/ui/button`) resolve through their package.json
+  const rootDir = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+  const workspacePackages = readWorkspacePackages(rootDir);
+  const resolveWorkspaceImport = (imp: string): string | null => {
+    for (const target of workspaceImportTargets(workspacePackages, imp) ?? []) {
+      const file = resolveImportAbsolute(searchDir, target, extensions);
+      if (file && allFilesSet.has(file)) return file;
+    }
+    return null;
+  };
 
-  while (queue.length > 0) {
-    const currentFile = queue.shift()!;
+  // 4. Resolve every file's imports
+  const imports = new Map<string, string[]>();
+  const writtenSpecifiers = new Map<string, Map<string, string>>();
+  const packageSpecifiers = new Map<string, string[]>();
+  for (const currentFile of allFiles) {
     const currentDir = dirname(currentFile);
+    const resolved = new Map<string, string>();
+    const packages: string[] = [];
 
     try {
-      const rawContent = readFileSync(currentFile, 'utf-8');
-      // Strip comments before scanning so that commented-out imports
-      // (e.g. `// import Foo from './foo'`) are not treated as active references.
-      const content = stripComments(rawContent);
-
-      let match;
-      importRegex.lastIndex = 0;
-
-      while ((match = importRegex.exec(content)) !== null) {
-        const imp = match[1] || match[2] || match[3];
-        if (!imp) continue;
+      // Commented-out imports (e.g. `// import Foo from './foo'`) and import-like
+      // text in strings are not treated as active references.
+      // Specifiers are cached per file content; resolution always runs fresh.
+      const specifiers = fileIndex.extract('imports', currentFile, extractImportSpecifiers);
 
+      for (const imp of specifiers) {
         let resolvedFile: string | null = null;
 
         if (imp.startsWith('.')) {
@@ -191,8 +197,10 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
           resolvedFile = resolveImportAbsolute(currentDir, imp, extensions);
         } else {
           // Try tsconfig path aliases first
+          let aliased = false;
           for (const [prefix, targets] of aliasMap) {
             if (imp.startsWith(prefix)) {
+              aliased = true;
               const remainder = imp.substring(prefix.length);
               for (const target of targets) {
                 resolvedFile = resolveImportAbsolute(target, remainder, extensions);
@@ -207,19 +215,104 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
             const aliasPath = imp.substring(2);
             resolvedFile = resolveImportAbsolute(searchDir, aliasPath, extensions) ||
                            resolveImportAbsolute(join(searchDir, 'src'), aliasPath, extensions);
+          } else if (!aliased && !imp.startsWith('/') && !imp.startsWith('#')) {
+            packages.push(imp);
+            resolvedFile = resolveWorkspaceImport(imp);
           }
         }
 
-        if (resolvedFile && allFilesSet.has(resolvedFile) && !visited.has(resolvedFile)) {
-             usedFiles.add(resolvedFile);
-             visited.add(resolvedFile);
-             queue.push(resolvedFile);
-        }
+        if (resolvedFile && allFilesSet.has(resolvedFile) && !resolved.has(resolvedFile)) resolved.set(resolvedFile, imp);
       }
     } catch {
       // Skip unreadable
     }
+    imports.set(currentFile, [...resolved.keys()]);
+    writtenSpecifiers.set(currentFile, resolved);
+    packageSpecifiers.set(currentFile, packages);
+  }
+
+  // 5. Files the rest of the monorepo imports through this app's package name
+  const packageName = readPackageJson(searchDir)?.name;
+  if (config.appSpecificScan && packageName && workspacePackages.get(packageName)?.dir === searchDir) {
+    const rootFiles = await fileIndex.glob(extGlob, { cwd: rootDir, absolute: true });
+    for (const file of rootFiles) {
+      if (allFilesSet.has(file)) continue;
+      try {
+        for (const imp of fileIndex.extract('imports', file, extractImportSpecifiers)) {
+          if (splitPackageSpecifier(imp).name !== packageName) continue;
+          const resolvedFile = resolveWorkspaceImport(imp);
+          if (resolvedFile && !entries.has(resolvedFile)) entries.set(resolvedFile, imp);
+        }
+      } catch {
+        // Skip unreadable
+      }
+    }
+  }
+
+  return { root: searchDir, files: allFiles, entries, ignored: ignoredFileSet, imports, specifiers: writtenSpecifiers, packages: packageSpecifiers, entryPatterns };
+}
+
+/**
+ * Breadth-first walk of the imports from `roots`. Every file reached maps to
+ * the file that first imported it (roots map to null); pass `reached` to
+ * continue an earlier walk.
+ */
+export function traceImports(graph: ImportGraph, roots: Iterable<string>, reached = new Map<string, string | null>()): Map<string, string | null> {
+  const queue: string[] = [];
+  for (const root of roots) {
+    if (reached.has(root)) continue;
+    reached.set(root, null);
+    queue.push(root);
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    for (const imported of graph.imports.get(queue[i]) ?? []) {
+      if (reached.has(imported)) continue;
+      reached.set(imported, queue[i]);
+      queue.push(imported);
+    }
   }
+  return reached;
+}
+
+/** Import chain from the root that reached `file` down to `file` (empty when it wasn't reached) */
+export function importChain(reached: Map<string, string | null>, file: string): string[] {
+  const chain: string[] = [];
+  if (!reached.has(file)) return chain;
+  for (let current: string | null | undefined = file; current; current = reached.get(current)) chain.unshift(current);
+  return chain;
+}
+
+/**
+ * Scan for unused source files (.ts, .tsx, .js, .jsx). Pass `importGraph`
+ * to reuse a graph already built for the app.
+ * 
+ * SCOPE:
+ * - Candidates: Inside App Directory
+ * - Usage Check: Inside App Directory (Local only, per user request)
+ */
+export async function scanUnusedFiles(config: Config, importGraph?: ImportGraph): Promise<{ total: number; used: number; unused: number; files: UnusedFile[]; keptByIgnoredFiles?: string[] }> {
+  const fileIndex = getFileIndex(config);
+
+  report(config, `   📂 Scanning source files...`);
+  const graph = importGraph ?? await buildImportGraph(config);
+  const { files: allFiles, ignored: ignoredFileSet } = graph;
+
+  report(config, ` ${allFiles.length} files found\n`);
+
+  if (allFiles.length === 0) {
+    return { total: 0, used: 0, unused: 0, files: [] };
+  }
+
+  // Track usage by following imports: from the entry points first, then from
+  // `ignore.files`. Files in `ignore.files` are implicitly "always used" — the
+  // user has declared they don't want them reported — so their imports are
+  // traced too, and files only they keep alive can be told apart.
+  const reached = traceImports(graph, graph.entries.keys());
+  const usedFromEntries = new Set(reached.keys());
+  traceImports(graph, ignoredFileSet, reached);
+  const usedFiles = new Set(reached.keys());
+  const keptByIgnoredFiles = [...usedFiles].filter(f => !usedFromEntries.has(f) && !ignoredFileSet.has(f));
 
   // Exclude ignored files from the unused report. They also don't count toward
   // total/used tallies — the summary reflects only the candidate pool.
@@ -233,6 +326,33 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
       };
     });
 
+  // A used file importing a computed path (`import(\`./locales/${lang}\`)`,
+  // `import(name)`) may load any unused file in that folder
+  const dynamicDirs: { dir: string; nested: boolean }[] = [];
+  for (const file of usedFiles) {
+    try {
+      if (!fileIndex.read(file).includes('import(')) continue;
+      for (const prefix of extractDynamicImportPrefixes(fileIndex.readStripped(file))) {
+        if (prefix === '') {
+          dynamicDirs.push({ dir: dirname(file), nested: false });
+        } else if (prefix.startsWith('.')) {
+          const target = resolve(dirname(file), prefix);
+          dynamicDirs.push({ dir: prefix.endsWith('/') ? target : dirname(target), nested: true });
+        }
+      }
+    } catch {
+      // Skip unreadable
+    }
+  }
+  if (dynamicDirs.length > 0) {
+    for (const file of files) {
+      const absolute = resolve(config.dir, file.path);
+      if (dynamicDirs.some(({ dir, nested }) => nested ? absolute.startsWith(dir + sep) : dirname(absolute) === dir)) {
+        addConfidenceReason(file, 'dynamicImport');
+      }
+    }
+  }
+
   const candidateCount = allFiles.length - ignoredFileSet.size;
   const usedCandidateCount = candidateCount - files.length;
 
@@ -240,10 +360,49 @@ export async function scanUnusedFiles(config: Config): Promise<{ total: number;
     total: candidateCount,
     used: usedCandidateCount,
     unused: files.length,
-    files
+    files,
+    keptByIgnoredFiles,
   };
 }
 
+// Enhanced regex to handle newlines, various import styles, and webpack magic comments.
+// The (?:\/\*[\s\S]*?\*\/\s*)* part skips zero or more block comments (e.g.
+// /* webpackChunkName: "foo" */) that Next.js and bundlers insert inside import().
+const IMPORT_REGEX = /from\s+['"]([^'"]+)['"]|import\(\s*(?:\/\*[\s\S]*?\*\/\s*)*['"]([^'"]+)['"]\)|require\(\s*(?:\/\*[\s\S]*?\*\/\s*)*['"]([^'"]+)['"]\)/g;
+
+/**
+ * Extract the raw import specifiers of a file, skipping matches inside
+ * comments, strings and template literals (fixture code in tests)
+ */
+function extractImportSpecifiers(content: string): string[] {
+  const imports: string[] = [];
+  const ranges = nonCodeRanges(content);
+  let range = 0;
+  const importRegex = new RegExp(IMPORT_REGEX.source, IMPORT_REGEX.flags);
+  let match;
+  while ((match = importRegex.exec(content)) !== null) {
+    // Matches and ranges both come in order
+    while (range < ranges.length && ranges[range][1] <= match.index) range++;
+    if (range < ranges.length && ranges[range][0] <= match.index) continue;
+    const imp = match[1] || match[2] || match[3];
+    if (imp) imports.push(imp);
+  }
+  return imports;
+}
+
+// import(`./locales/${lang}.json`) or import(modulePath): a path only known at runtime
+const DYNAMIC_IMPORT_REGEX = /import\(\s*(?:\/\*[\s\S]*?\*\/\s*)*(?:`([^`$]*)\$\{|[A-Za-z_$][\w$.]*\s*[,)])/g;
+
+/**
+ * Static prefixes of computed import() paths in a (comment-stripped) file;
+ * an empty string for a bare variable
+ */
+function extractDynamicImportPrefixes(content: string): string[] {
+  const prefixes: string[] = [];
+  for (const match of content.matchAll(DYNAMIC_IMPORT_REGEX)) prefixes.push(match[1] ?? '');
+  return prefixes;
+}
+
 /**
  * Resolve an import path to an absolute path
  */
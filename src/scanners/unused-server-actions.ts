@@ -0,0 +1,231 @@
+import { relative } from 'node:path';
+import type { Config, UnusedServerAction } from '../types.js';
+import { DEFAULT_IGNORE } from '../constants.js';
+import { escapeRegExp, report } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
+import { buildImportGraph, type ImportGraph } from './unused-files.js';
+
+/** 'use server' as the first statement of a file (comments may precede it) */
+const FILE_DIRECTIVE = /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*['"]use server['"]/;
+
+/** Exported functions/consts of a 'use server' file */
+const EXPORTED_ACTION = /^export\s+(?:async\s+)?(?:function\s*\*?|const|let|var)\s+([a-zA-Z0-9_$]+)/gm;
+
+/** export { a, b as c } without a source (re-exports with `from` are not declarations) */
+const LOCAL_EXPORT_BLOCK = /^export\s*\{([^}]*)\}(?!\s*from)/gm;
+
+/** Functions whose body starts with their own 'use server' directive */
+const INLINE_ACTION_PATTERNS = [
+  /(export\s+(?:default\s+)?)?(?:async\s+)?function\s+([a-zA-Z0-9_$]+)\s*\([^)]*\)\s*(?::[^{]*)?\{\s*['"]use server['"]/g,
+  /(export\s+)?(?:const|let|var)\s+([a-zA-Z0-9_$]+)\s*=\s*async\s*(?:\([^)]*\)|[a-zA-Z0-9_$]+)\s*(?::[^=]*)?=>\s*\{\s*['"]use server['"]/g,
+];
+
+/** Import and re-export statements — a mention there doesn't use anything */
+const IMPORT_OR_REEXPORT = /^\s*(?:import\s[^;]*?from\s*['"][^'"]+['"]|import\s*['"][^'"]+['"]|export\s*(?:\*|\{[^}]*\})[^;]*?from\s*['"][^'"]+['"]);?/gm;
+const NAMED_IMPORT = /import\s+(?:type\s+)?(?:[a-zA-Z0-9_$]+\s*,\s*)?\{([^}]*)\}\s*from\s*['"]([^'"]+)['"]/g;
+const NAMESPACE_IMPORT = /import\s+\*\s+as\s+([a-zA-Z0-9_$]+)\s+from\s*['"]([^'"]+)['"]/g;
+const DYNAMIC_IMPORT = /import\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+/** `export * from 'x'` and `export { a, b as c } from 'x'` */
+const REEXPORT = /export\s*(?:\*|\{([^}]*)\})\s*from\s*['"]([^'"]+)['"]/g;
+
+interface ServerActionDeclaration {
+  name: string;
+  line: number;
+  kind: UnusedServerAction['kind'];
+}
+
+function lineAt(content: string, index: number): number {
+  return content.substring(0, index).split('\n').length;
+}
+
+/**
+ * Find the server actions declared in one file: every exported function of a
+ * 'use server' module, plus functions with an inline 'use server' directive.
+ */
+function extractServerActions(content: string): ServerActionDeclaration[] {
+  if (!content.includes('use server')) return [];
+  const actions: ServerActionDeclaration[] = [];
+  const seen = new Set<string>();
+  const add = (name: string, line: number, kind: UnusedServerAction['kind']) => {
+    if (seen.has(name)) return;
+    seen.add(name);
+    actions.push({ name, line, kind });
+  };
+
+  if (FILE_DIRECTIVE.test(content)) {
+    let match;
+    const exported = new RegExp(EXPORTED_ACTION.source, EXPORTED_ACTION.flags);
+    while ((match = exported.exec(content)) !== null) {
+      add(match[1], lineAt(content, match.index), 'module');
+    }
+    const block = new RegExp(LOCAL_EXPORT_BLOCK.source, LOCAL_EXPORT_BLOCK.flags);
+    while ((match = block.exec(content)) !== null) {
+      const line = lineAt(content, match.index);
+      for (const part of match[1].split(',')) {
+        const name = part.trim().split(/\s+as\s+/).pop()?.trim();
+        if (name && name !== 'default' && !name.startsWith('type ')) add(name, line, 'module');
+      }
+    }
+  }
+
+  for (const pattern of INLINE_ACTION_PATTERNS) {
+    const inline = new RegExp(pattern.source, pattern.flags);
+    let match;
+    while ((match = inline.exec(content)) !== null) {
+      add(match[2], lineAt(content, match.index), match[1] ? 'module' : 'inline');
+    }
+  }
+
+  return actions;
+}
+
+/** Count whole-identifier occurrences of `name` */
+function countMentions(code: string, name: string): number {
+  return code.match(new RegExp(`(?<![\\w$.])${escapeRegExp(name)}(?![\\w$])`, 'g'))?.length ?? 0;
+}
+
+/**
+ * Whether `code` (from another file) binds an imported action: it must import
+ * the name from one of `specifiers` (its file, or a barrel re-exporting it)
+ * and then mention it outside import/re-export statements — passing it to
+ * `action={...}`/`formAction`, calling it, or handing it on as a value.
+ */
+function usesImportedAction(code: string, body: string, name: string, specifiers: Set<string>): boolean {
+  let match;
+  const named = new RegExp(NAMED_IMPORT.source, NAMED_IMPORT.flags);
+  while ((match = named.exec(code)) !== null) {
+    if (!specifiers.has(match[2])) continue;
+    for (const part of match[1].split(',')) {
+      const [imported, local] = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/).map(s => s.trim());
+      if (imported === name && countMentions(body, local || imported) > 0) return true;
+    }
+  }
+
+  const namespace = new RegExp(NAMESPACE_IMPORT.source, NAMESPACE_IMPORT.flags);
+  while ((match = namespace.exec(code)) !== null) {
+    if (!specifiers.has(match[2])) continue;
+    if (new RegExp(`\\b${escapeRegExp(match[1])}\\s*\\??\\.\\s*${escapeRegExp(name)}\\b`).test(body)) return true;
+  }
+
+  // const { action } = await import('./actions')
+  const dynamic = [...code.matchAll(DYNAMIC_IMPORT)].some(m => specifiers.has(m[1]));
+  return dynamic && countMentions(body, name) > 0;
+}
+
+/** Whether `code` re-exports `name` from `specifier` (`export *` or a named list) */
+function reexports(code: string, name: string, specifier: string): boolean {
+  for (const match of code.matchAll(REEXPORT)) {
+    if (match[2] !== specifier) continue;
+    if (match[1] === undefined) return true;
+    if (match[1].split(',').some(part => part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim() === name)) return true;
+  }
+  return false;
+}
+
+/**
+ * Scan for Next.js Server Actions (exports of 'use server' modules and
+ * functions with an inline 'use server' directive) that nothing binds to a
+ * form, passes on or calls. Being re-exported doesn't count as a use, and
+ * only imports the import graph resolves to the action's file (directly or
+ * through a re-exporting barrel) do.
+ */
+export async function scanUnusedServerActions(config: Config, importGraph?: ImportGraph): Promise<{ total: number; used: number; unused: number; actions: UnusedServerAction[] }> {
+  const fileIndex = getFileIndex(config);
+  const extGlob = `**/*{${config.extensions.join(',')}}`;
+  const candidateCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  const referenceCwd = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+
+  report(config, `   ⚡ Scanning server actions...`);
+
+  const candidateFiles = await fileIndex.glob(extGlob, {
+    cwd: candidateCwd,
+    ignore: [...DEFAULT_IGNORE, ...config.ignore.files],
+    absolute: true,
+  });
+
+  const declared: (ServerActionDeclaration & { file: string })[] = [];
+  for (const file of candidateFiles) {
+    try {
+      if (!fileIndex.read(file).includes('use server')) continue;
+      for (const action of fileIndex.extract('server-actions', file, extractServerActions)) {
+        declared.push({ ...action, file });
+      }
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  if (declared.length === 0) {
+    report(config, ` 0 found\n`);
+    return { total: 0, used: 0, unused: 0, actions: [] };
+  }
+
+  const referenceFiles = await fileIndex.glob(extGlob, {
+    cwd: referenceCwd,
+    ignore: DEFAULT_IGNORE,
+    absolute: true,
+  });
+  // Imports resolved by the unused-files graph (aliases and workspace packages
+  // included), and the other way round: imported file -> [importer, specifier]
+  const graph = importGraph ?? await buildImportGraph(config);
+  const importers = new Map<string, [string, string][]>();
+  for (const [file, imported] of graph.specifiers) {
+    for (const [target, specifier] of imported) {
+      if (!importers.has(target)) importers.set(target, []);
+      importers.get(target)!.push([file, specifier]);
+    }
+  }
+
+  // Comment-free code, with and without import/re-export statements
+  const analyzed = new Map<string, { code: string; body: string }>();
+  const analyze = (file: string) => {
+    let entry = analyzed.get(file);
+    if (!entry) {
+      const code = fileIndex.readStripped(file);
+      entry = { code, body: code.replace(IMPORT_OR_REEXPORT, '') };
+      analyzed.set(file, entry);
+    }
+    return entry;
+  };
+
+  const isUsed = (action: ServerActionDeclaration & { file: string }): boolean => {
+    // Within its own file, any mention besides the declaration (and `export { }` lists)
+    const own = analyze(action.file).body.replace(LOCAL_EXPORT_BLOCK, '');
+    if (countMentions(own, action.name) > 1) return true;
+    if (action.kind === 'inline') return false;
+
+    // Its file, and barrels re-exporting it (from its file or another barrel)
+    const providers = new Set([action.file]);
+    const queue = [action.file];
+    while (queue.length > 0) {
+      for (const [file, specifier] of importers.get(queue.pop()!) ?? []) {
+        if (providers.has(file) || !reexports(fileIndex.readStripped(file), action.name, specifier)) continue;
+        providers.add(file);
+        queue.push(file);
+      }
+    }
+
+    for (const file of referenceFiles) {
+      if (file === action.file) continue;
+      try {
+        if (!fileIndex.read(file).includes(action.name)) continue;
+        const specifiers = new Set([...graph.specifiers.get(file) ?? []].filter(([target]) => providers.has(target)).map(([, specifier]) => specifier));
+        if (specifiers.size === 0) continue;
+        const { code, body } = analyze(file);
+        if (usesImportedAction(code, body, action.name, specifiers)) return true;
+      } catch {
+        // Skip unreadable files
+      }
+    }
+    return false;
+  };
+
+  const actions: UnusedServerAction[] = declared
+    .filter(action => !isUsed(action))
+    .map(({ name, line, kind, file }) => ({ name, file: relative(config.dir, file), line, kind }));
+
+  report(config, ` ${declared.length} found, ${actions.length} unused\n`);
+
+  return { total: declared.length, used: declared.length - actions.length, unused: actions.length, actions };
+}
@@ -1,10 +1,9 @@
-import fg from 'fast-glob';
-import { readFileSync } from 'node:fs';
 import { relative } from 'node:path';
 import type { Config, UnusedServiceMethod } from '../types.js';
 import { findServiceProperties } from '../fixer.js';
 import { JS_KEYWORDS, NEST_LIFECYCLE_METHODS, FRAMEWORK_METHOD_DECORATORS, DEFAULT_IGNORE } from '../constants.js';
-import { sanitizeLine } from '../utils.js';
+import { sanitizeLine, report } from '../utils.js';
+import { getFileIndex } from '../file-index.js';
 
 /**
  * Scan all service files (*.service.ts) in the project and find unused methods.
@@ -13,13 +12,15 @@ import { sanitizeLine } from '../utils.js';
 export async function scanUnusedServices(config: Config): Promise<{ total: number; methods: UnusedServiceMethod[] }> {
   const projectRoot = config.dir;
   const methods: UnusedServiceMethod[] = [];
+  const fileIndex = getFileIndex(config);
 
   // 1. Find all service files
   const candidateCwd = config.appSpecificScan ? config.appSpecificScan.appDir : projectRoot;
-  const serviceFiles = fg.sync('**/*.service.{ts,tsx}', {
+  const serviceFiles = await fileIndex.glob('**/*.service.{ts,tsx}', {
     cwd: candidateCwd,
     ignore: DEFAULT_IGNORE,
-    absolute: true
+    absolute: true,
+    extensions: ['.ts', '.tsx'],
   });
 
   if (process.env.DEBUG_PRUNY) {
@@ -28,15 +29,16 @@ export async function scanUnusedServices(config: Config): Promise<{ total: numbe
 
   // 2. Find all TypeScript files in the WHOLE project to check for usage
   const referenceCwd = config.appSpecificScan ? config.appSpecificScan.rootDir : projectRoot;
-  const allFiles = fg.sync('**/*.{ts,tsx,js,jsx}', {
+  const allFiles = await fileIndex.glob('**/*.{ts,tsx,js,jsx}', {
     cwd: referenceCwd,
     ignore: DEFAULT_IGNORE,
-    absolute: true
+    absolute: true,
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
   });
 
   for (const serviceFile of serviceFiles) {
     try {
-      const content = readFileSync(serviceFile, 'utf-8');
+      const content = fileIndex.read(serviceFile);
 
       // Get the service class name
       const classMatch = content.match(/export\s+class\s+(\w+)/);
@@ -138,7 +140,7 @@ export async function scanUnusedServices(config: Config): Promise<{ total: numbe
                 if (file === serviceFile) continue;
 
                 try {
-                  const fileContent = readFileSync(file, 'utf-8');
+                  const fileContent = fileIndex.read(file);
 
                   const importRegex = new RegExp(`import.*\\b${serviceClassName}\\b.*from`);
                   if (!importRegex.test(fileContent)) continue;
@@ -198,7 +200,7 @@ export async function scanUnusedServices(config: Config): Promise<{ total: numbe
         braceDepth += opens - closes;
       }
     } catch (err) {
-      console.error(`Error scanning service ${serviceFile}:`, err);
+      report(config, `Error scanning service ${serviceFile}: ${err instanceof Error ? err.message : String(err)}\n`);
     }
   }
 
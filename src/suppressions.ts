@@ -0,0 +1,147 @@
+/**
+ * Inline suppression comments:
+ *
+ *   // pruny-ignore-next-line -- called by the mobile app
+ *   {/* pruny-ignore-next-line legacy link *\/}
+ *   /* pruny-ignore-file generated client *\/
+ *
+ * A next-line suppression hides the finding reported on the line directly
+ * below it; a file suppression hides every finding in that file. Anything
+ * after the directive (optionally introduced by `--` or `:`) is the reason.
+ */
+
+import { relative } from 'node:path';
+import type { ApiRoute, Config, ScanResult, Suppression } from './types.js';
+import { filterFindings } from './findings.js';
+import { resolveFilePath } from './utils.js';
+
+const SUPPRESSION_PATTERN = /(?:\/\/|\/\*)\s*pruny-ignore-(next-line|file)\b(.*)$/;
+
+interface TrackedSuppression extends Suppression {
+  /** Absolute path of the file containing the comment */
+  absFile: string;
+  used: boolean;
+}
+
+/**
+ * Extract suppression comments from a file's content.
+ */
+export function parseSuppressions(content: string): Omit<Suppression, 'file'>[] {
+  if (!content.includes('pruny-ignore')) return [];
+
+  const suppressions: Omit<Suppression, 'file'>[] = [];
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(SUPPRESSION_PATTERN);
+    if (!match) continue;
+
+    const reason = match[2]
+      .replace(/\*\/\s*\}?\s*$/, '')
+      .replace(/^\s*(?:--|:)?\s*/, '')
+      .trim();
+
+    suppressions.push({
+      kind: match[1] as Suppression['kind'],
+      line: i + 1,
+      ...(reason ? { reason } : {}),
+    });
+  }
+  return suppressions;
+}
+
+/**
+ * The suppression in one file that hides a finding at `line`: a next-line
+ * comment directly above it, else a file comment. A line of `undefined` only
+ * matches file suppressions.
+ */
+export function findSuppression<T extends Pick<Suppression, 'kind' | 'line'>>(suppressions: T[], line?: number): T | undefined {
+  const nextLine = line !== undefined
+    ? suppressions.find(s => s.kind === 'next-line' && s.line + 1 === line)
+    : undefined;
+  return nextLine || suppressions.find(s => s.kind === 'file');
+}
+
+/**
+ * Collects suppressions across files and answers whether a finding at a
+ * given file/line is suppressed, remembering which comments were used so
+ * stale ones can be reported.
+ */
+export function createSuppressionIndex(config: Config) {
+  const byFile = new Map<string, TrackedSuppression[]>();
+
+  return {
+    /** Register the suppressions found in one file (absolute path) */
+    add(absFile: string, content: string) {
+      const found = parseSuppressions(content);
+      if (found.length === 0) return;
+      byFile.set(absFile, found.map(s => ({
+        ...s,
+        file: relative(config.dir, absFile),
+        absFile,
+        used: false,
+      })));
+    },
+
+    /** Check a finding location. A line of `undefined` only matches file suppressions. */
+    isSuppressed(absFile: string, line?: number): boolean {
+      const suppressions = byFile.get(absFile);
+      if (!suppressions) return false;
+
+      const match = findSuppression(suppressions, line);
+      if (!match) return false;
+      match.used = true;
+      return true;
+    },
+
+    get size() {
+      let total = 0;
+      for (const list of byFile.values()) total += list.length;
+      return total;
+    },
+
+    /** Suppressions that did not hide any finding */
+    stale(): Suppression[] {
+      const stale: Suppression[] = [];
+      for (const list of byFile.values()) {
+        for (const { absFile: _absFile, used, ...suppression } of list) {
+          if (!used) stale.push(suppression);
+        }
+      }
+      return stale.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+    },
+  };
+}
+
+export type SuppressionIndex = ReturnType<typeof createSuppressionIndex>;
+
+/**
+ * Treat suppressed route handlers like routes ignored by config: they count
+ * as used. A route with only some handlers suppressed becomes partially used.
+ */
+export function applyRouteSuppressions(routes: ApiRoute[], config: Config, index: SuppressionIndex) {
+  for (const route of routes) {
+    const file = resolveFilePath(route.filePath, config);
+    const candidates = route.used ? route.unusedMethods : route.methods;
+    const suppressed = candidates.filter(m => index.isSuppressed(file, route.methodLines[m]));
+    const wholeRoute = !route.used && route.methods.length === 0 && index.isSuppressed(file);
+
+    if (suppressed.length === 0 && !wholeRoute) continue;
+
+    if (!route.used) {
+      route.used = true;
+      route.references.push('(suppressed)');
+      route.unusedMethods = route.methods.filter(m => !suppressed.includes(m));
+    } else {
+      route.unusedMethods = route.unusedMethods.filter(m => !suppressed.includes(m));
+    }
+  }
+}
+
+/**
+ * Remove suppressed findings from the remaining scanner results and record
+ * the stale suppressions on the result.
+ */
+export function applySuppressions(result: ScanResult, config: Config, index: SuppressionIndex) {
+  filterFindings(result, config, finding => !index.isSuppressed(finding.file, finding.line));
+  result.suppressions = { total: index.size, stale: index.stale() };
+}
@@ -1,8 +1,14 @@
+import type { FileIndex } from './file-index.js';
+
 export interface IgnoreConfig {
   routes: string[];
   folders: string[];
   files: string[];
   links: string[];
+  /** Glob patterns of files whose import cycles are not reported */
+  cycles?: string[];
+  /** Package names (glob patterns) never reported as unused or unlisted dependencies */
+  dependencies?: string[];
 }
 
 export interface Config {
@@ -19,14 +25,92 @@ export interface Config {
   };
   nestGlobalPrefix?: string;
   extraRoutePatterns?: string[];
+  /** Project-specific HTTP client wrappers whose calls count as API references */
+  httpClients?: HttpClientConfig[];
+  /** OpenAPI / Swagger specs listing operations called from outside the repo */
+  openapi?: OpenApiConfig;
+  /** Access log files whose requests count as route usage (`pruny routes --access-log`) */
+  accessLogs?: string[];
+  /** Test coverage report to annotate findings with (`--coverage`) */
+  coverage?: {
+    /** lcov tracefile or Istanbul `coverage-final.json` */
+    file: string;
+    /** Also report imported exports that never ran (`--unexecuted`) */
+    unexecuted?: boolean;
+  };
   /** Specific folder within an app to scan for routes */
   folder?: string;
+  /** File listing/content cache shared by all scanners in one scan() run */
+  fileIndex?: FileIndex;
+  /** Persist per-file extraction results in node_modules/.cache/pruny (default true) */
+  cache?: boolean;
+  /** Receives progress output from scanners. Without one, scanning prints nothing. */
+  reporter?: Reporter;
+}
+
+/**
+ * An HTTP client wrapper to recognise in addition to the built-in axios/fetch
+ * patterns. Examples:
+ * - `{ "receivers": ["backend"] }` → `backend.get('/x')`
+ * - `{ "functions": ["$fetch"], "method": { "option": "method" } }` → `$fetch('/x', { method: 'POST' })`
+ * - `{ "functions": ["request"], "url": { "option": "url" }, "method": { "option": "method" } }` → `request({ url: '/x', method: 'POST' })`
+ */
+export interface HttpClientConfig {
+  /** Identifiers whose `.get()`/`.post()`/... calls are requests; the method is the member name */
+  receivers?: string[];
+  /** Functions called to make a request (`$fetch`, `ofetch`, `request`) */
+  functions?: string[];
+  /** Where a function call's URL is: an argument index (default 0) or a key of an object argument */
+  url?: number | { option: string };
+  /** Where a function call's method is: a fixed verb or a key of an object argument. Unset matches any method. */
+  method?: string | { option: string };
+}
+
+export interface OpenApiConfig {
+  /** Spec files (`.json`, `.yaml`, `.yml`); relative paths resolve against the config file's folder */
+  specs: string[];
+  /**
+   * `consumer` (default): spec operations are called by external clients, so
+   * matching routes count as used (`(openapi)` reference).
+   * `contract`: the spec is the contract; report operations without a handler
+   * and handlers the spec doesn't list.
+   */
+  mode?: 'consumer' | 'contract';
+}
+
+/**
+ * Progress output sink. The CLI writes to the terminal; library callers
+ * can collect, forward or omit it.
+ */
+export interface Reporter {
+  /** Raw progress text; may contain `\r` and lack a trailing newline */
+  write(text: string): void;
+}
+
+/** Frameworks whose routes are registered with calls like app.get('/x') */
+export type ServerFramework = 'express' | 'fastify' | 'hono';
+
+/** How safe it is to delete a finding */
+export type Confidence = 'high' | 'medium' | 'low';
+
+/** An API reference in the code that matched a route */
+export interface RouteReference {
+  /** File relative to the reference scan root, like `ApiRoute.references` */
+  file: string;
+  /** 1-based line of the path, when it appears verbatim */
+  line?: number;
+  /** Path as written, template expressions included */
+  path: string;
+  /** Method of the call, when the pattern or options give one */
+  method?: string;
+  /** 'http-client' (fetch/axios/useSWR or an httpClients entry) or 'generic' (path-like string literal) */
+  source: 'http-client' | 'generic';
 }
 
 export interface ApiRoute {
   /** Type of route */
-  type: 'nextjs' | 'nestjs';
-  /** API path like /api/users */
+  type: 'nextjs' | 'nestjs' | 'trpc' | ServerFramework;
+  /** API path like /api/users (for tRPC, the router path like appRouter.user) */
   path: string;
   /** File path like app/api/users/route.ts */
   filePath: string;
@@ -34,7 +118,9 @@ export interface ApiRoute {
   used: boolean;
   /** Files that reference this route */
   references: string[];
-  /** Exported methods (GET, POST, etc.) */
+  /** The code references that matched, with their line (used by `pruny why`) */
+  referenceMatches?: RouteReference[];
+  /** Exported methods (GET, POST, etc.; procedure names for tRPC) */
   methods: string[];
   /** Unused methods */
   unusedMethods: string[];
@@ -42,6 +128,22 @@ export interface ApiRoute {
   methodLines: { [method: string]: number };
   // Mapping of HTTP method (GET) to TS method name (findAll)
   methodNames?: { [method: string]: string };
+  /**
+   * Next.js router the route belongs to. Pages Router handlers are a single
+   * default export, so their methods are inferred from `req.method` checks
+   * and can't be removed one by one.
+   */
+  router?: 'app' | 'pages';
+  /** Requests in the access logs (`--access-log` only) */
+  hits?: number;
+  /** ISO timestamp of the latest logged request (`--access-log` only) */
+  lastSeen?: string;
+  /** Whether each handler ran during the tests (`--coverage` only; methods the report doesn't cover are left out) */
+  methodCoverage?: { [method: string]: boolean };
+  /** How safe deleting the unused handlers is (unused and partially used routes only) */
+  confidence?: Confidence;
+  /** Why the confidence is below (or confirmed at) high */
+  confidenceReasons?: string[];
 }
 
 
@@ -63,6 +165,36 @@ export interface SourceAsset {
 export interface UnusedFile {
   path: string;
   size: number;
+  confidence?: Confidence;
+  confidenceReasons?: string[];
+}
+
+/** A package.json dependency that nothing imports or runs */
+export interface UnusedDependency {
+  name: string;
+  /** package.json listing it (relative to config.dir) */
+  packageJson: string;
+  /** Line of its entry in package.json */
+  line?: number;
+  /** Listed in devDependencies */
+  dev: boolean;
+}
+
+/** A package the code imports without listing it in package.json */
+export interface UnlistedDependency {
+  name: string;
+  /** package.json it is missing from (relative to config.dir) */
+  packageJson: string;
+  /** "file:line" of each import */
+  references: string[];
+}
+
+/** Files importing each other in a loop */
+export interface ImportCycle {
+  /** Files of the cycle in import order (relative to config.dir); the last one imports the first */
+  files: string[];
+  /** Line where `files[i]` imports the next file of the cycle */
+  lines: number[];
 }
 
 export interface ScanResult {
@@ -96,6 +228,8 @@ export interface ScanResult {
     used: number;
     unused: number;
     files: UnusedFile[];
+    /** Absolute paths of used files that only `ignore.files` entries import (directly or not) */
+    keptByIgnoredFiles?: string[];
   };
   unusedExports?: {
     total: number;
@@ -103,6 +237,22 @@ export interface ScanResult {
     unused: number;
     exports: UnusedExport[];
   };
+  circularImports?: {
+    total: number;
+    cycles: ImportCycle[];
+  };
+  /** package.json dependencies (apps with a package.json only) */
+  unusedDependencies?: {
+    total: number;
+    used: number;
+    unused: number;
+    dependencies: UnusedDependency[];
+  };
+  /** Imported packages missing from package.json, resolving only through hoisting if at all */
+  unlistedDependencies?: {
+    total: number;
+    dependencies: UnlistedDependency[];
+  };
   httpUsage?: {
     axios: number;
     fetch: number;
@@ -113,6 +263,62 @@ export interface ScanResult {
     total: number;
     methods: UnusedServiceMethod[];
   };
+  unusedServerActions?: {
+    total: number;
+    used: number;
+    unused: number;
+    actions: UnusedServerAction[];
+  };
+  /** OpenAPI contract drift (`openapi.mode: 'contract'` only) */
+  openapi?: {
+    /** Operations listed in the specs */
+    operations: number;
+    /** Spec operations without a route handler */
+    missingHandlers: OpenApiOperation[];
+    /** Route handlers the specs don't list */
+    undocumentedRoutes: UndocumentedRoute[];
+  };
+  /** Imported exports that never ran during the tests (`--coverage` with `--unexecuted` only) */
+  unexecutedExports?: {
+    total: number;
+    exports: UnexecutedExport[];
+  };
+  /** Inline `pruny-ignore-*` comments found in the scanned app */
+  suppressions?: {
+    total: number;
+    /** Suppressions that no longer match any finding */
+    stale: Suppression[];
+  };
+}
+
+export interface Suppression {
+  /** File containing the comment (relative to config.dir) */
+  file: string;
+  /** Line of the comment itself */
+  line: number;
+  kind: 'next-line' | 'file';
+  reason?: string;
+}
+
+export interface OpenApiOperation {
+  /** Uppercase HTTP method */
+  method: string;
+  /** Path as written in the spec, e.g. /users/{id} */
+  path: string;
+  /** Path prefixes from `servers[].url` / `basePath` (may be empty) */
+  basePaths: string[];
+  /** Spec file (relative to config.dir) */
+  file: string;
+  /** Line of the operation in the spec, when found */
+  line?: number;
+}
+
+export interface UndocumentedRoute {
+  method: string;
+  path: string;
+  /** Route file, as in ApiRoute.filePath */
+  filePath: string;
+  line?: number;
 }
 
 export interface MissingAsset {
@@ -135,6 +341,25 @@ export interface UnusedExport {
   file: string;
   line: number;
   usedInternally: boolean; // Whether the export is used within the same file
+  /** Whether it ran during the tests (`--coverage` only; unset when the report doesn't cover it) */
+  covered?: boolean;
+  confidence?: Confidence;
+  confidenceReasons?: string[];
+}
+
+/** An exported function that is imported somewhere but never ran during the tests */
+export interface UnexecutedExport {
+  name: string;
+  file: string;
+  line: number;
+}
+
+export interface UnusedServerAction {
+  name: string;
+  file: string;
+  line: number;
+  /** 'module' for exports of a 'use server' file, 'inline' for a local function with its own directive */
+  kind: 'module' | 'inline';
 }
 
 export interface UnusedServiceMethod {
@@ -143,6 +368,10 @@ export interface UnusedServiceMethod {
   line: number;
   serviceClassName: string;
   usedBy: { file: string; type: 'controller' | 'service' | 'module'; line?: number }[];
+  /** Whether it ran during the tests (`--coverage` only; unset when the report doesn't cover it) */
+  covered?: boolean;
+  confidence?: Confidence;
+  confidenceReasons?: string[];
 }
 
 export interface PrunyOptions {
@@ -150,6 +379,8 @@ export interface PrunyOptions {
   fix?: boolean;
   config?: string;
   json?: boolean;
+  /** Output format: text, json or sarif */
+  format?: string;
   dryRun?: boolean;
   public?: boolean;
   verbose?: boolean;
@@ -159,6 +390,22 @@ export interface PrunyOptions {
   cleanup?: string;
   folder?: string;
   all?: boolean;
+  /** Path to a baseline file of known findings to hide */
+  baseline?: string;
+  /** false with --no-cache */
+  cache?: boolean;
+  /** Git ref: only report findings touching files changed since it */
+  changedSince?: string;
+  /** Only report findings touching staged files */
+  staged?: boolean;
+  /** Access log files whose requests count as route usage */
+  accessLog?: string[];
+  /** lcov or Istanbul JSON coverage report */
+  coverage?: string;
+  /** With --coverage: also report imported exports that never ran */
+  unexecuted?: boolean;
+  /** Only report and fix findings at or above this confidence */
+  minConfidence?: string;
 }
 
 export interface VercelConfig {
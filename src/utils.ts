@@ -8,31 +8,58 @@ import { existsSync, readFileSync } from 'node:fs';
 
 export type AppFramework = 'nextjs' | 'nestjs' | 'expo' | 'react-native' | 'unknown';
 
+/** The package.json fields pruny reads */
+export interface PackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  bin?: string | Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  /** Entry points by subpath and condition (string, array, conditions or subpath map) */
+  exports?: unknown;
+}
+
 /**
- * Detect the framework of an app by reading its package.json dependencies.
+ * Read `dir/package.json`; undefined when it's missing or not valid JSON.
  */
-export function detectAppFramework(appDir: string): AppFramework[] {
-  const pkgPath = join(appDir, 'package.json');
-  if (!existsSync(pkgPath)) return ['unknown'];
+export function readPackageJson(dir: string): PackageJson | undefined {
+  const pkgPath = join(dir, 'package.json');
+  if (!existsSync(pkgPath)) return undefined;
 
   try {
-    const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
-    const allDeps = {
-      ...pkg.dependencies,
-      ...pkg.devDependencies,
-    };
-
-    const frameworks: AppFramework[] = [];
-    if (allDeps['next']) frameworks.push('nextjs');
-    if (allDeps['@nestjs/core'] || allDeps['@nestjs/common']) frameworks.push('nestjs');
-    if (allDeps['expo']) frameworks.push('expo');
-    else if (allDeps['react-native']) frameworks.push('react-native');
-
-    return frameworks.length > 0 ? frameworks : ['unknown'];
+    return JSON.parse(readFileSync(pkgPath, 'utf-8'));
   } catch {
-    return ['unknown'];
+    return undefined;
   }
 }
+
+/**
+ * Detect the framework of an app by reading its package.json dependencies.
+ */
+export function detectAppFramework(appDir: string): AppFramework[] {
+  const pkg = readPackageJson(appDir);
+  if (!pkg) return ['unknown'];
+
+  const allDeps = {
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+  };
+
+  const frameworks: AppFramework[] = [];
+  if (allDeps['next']) frameworks.push('nextjs');
+  if (allDeps['@nestjs/core'] || allDeps['@nestjs/common']) frameworks.push('nestjs');
+  if (allDeps['expo']) frameworks.push('expo');
+  else if (allDeps['react-native']) frameworks.push('react-native');
+
+  return frameworks.length > 0 ? frameworks : ['unknown'];
+}
 import type { Config } from './types.js';
 
 /**
@@ -49,6 +76,13 @@ export function sanitizeLine(line: string): string {
     .replace(/\/\*.*?\*\//g, '');
 }
 
+/**
+ * Send progress text to the configured reporter, if any.
+ */
+export function report(config: Config, text: string): void {
+  config.reporter?.write(text);
+}
+
 /**
  * Resolve a potentially relative file path to absolute using the config's root directory.
  */
@@ -60,11 +94,10 @@ export function resolveFilePath(filePath: string, config: Config): string {
 
 /**
  * Extract the app/package name from a relative file path.
- * e.g., "apps/my-app/src/foo.ts" -> "apps/my-app"
+ * e.g., "apps/my-app/src/foo.ts" -> "apps/my-app", "services/billing/main.ts" -> "services/billing"
  */
 export function getAppName(filePath: string): string {
-  if (filePath.startsWith('apps/')) return filePath.split('/').slice(0, 2).join('/');
-  if (filePath.startsWith('packages/')) return filePath.split('/').slice(0, 2).join('/');
+  if (/^(?:apps|packages|services|tools)\//.test(filePath)) return filePath.split('/').slice(0, 2).join('/');
   return 'Root';
 }
 
@@ -113,6 +146,132 @@ export function stripComments(content: string): string {
   return result;
 }
 
+/**
+ * Index of the bracket closing the one at `open`, skipping strings and
+ * comments. Returns -1 when unbalanced.
+ */
+export function findClosingBracket(content: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      for (i++; i < content.length && content[i] !== ch; i++) {
+        if (content[i] === '\\') i++;
+      }
+    } else if (ch === '/' && content[i + 1] === '/') {
+      i = content.indexOf('\n', i);
+      if (i === -1) return -1;
+    } else if (ch === '/' && content[i + 1] === '*') {
+      i = content.indexOf('*/', i + 2);
+      if (i === -1) return -1;
+      i++;
+    } else if (ch === '(' || ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * [start, end) offsets of the comments, string literals and template
+ * literal text in `content`: where code-like text (`from 'x'` in a test's
+ * template literal) is not code. `${...}` expressions count as code.
+ */
+export function nonCodeRanges(content: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  // Brace depth outside each open `${` expression, innermost last
+  const expressions: number[] = [];
+  let depth = 0;
+
+  // Template text after `start` (its backtick, or the `}` ending an
+  // expression) up to the closing backtick or the next `${`
+  const readTemplate = (start: number): number => {
+    let i = start + 1;
+    for (; i < content.length; i++) {
+      if (content[i] === '\\') {
+        i++;
+      } else if (content[i] === '`') {
+        break;
+      } else if (content[i] === '$' && content[i + 1] === '{') {
+        ranges.push([start, i]);
+        expressions.push(depth++);
+        return i + 1;
+      }
+    }
+    ranges.push([start, i + 1]);
+    return i;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i);
+      ranges.push([i, end === -1 ? content.length : end]);
+      i = end === -1 ? content.length : end;
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      ranges.push([i, end === -1 ? content.length : end + 2]);
+      i = end === -1 ? content.length : end + 1;
+    } else if (ch === '"' || ch === "'") {
+      // Quoted strings end at the line, so a stray quote can't swallow the file
+      let end = i + 1;
+      while (end < content.length && content[end] !== ch && content[end] !== '\n') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      ranges.push([i, content[end] === ch ? end + 1 : end]);
+      i = end;
+    } else if (ch === '`') {
+      i = readTemplate(i);
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (expressions.length > 0 && expressions[expressions.length - 1] === depth) {
+        expressions.pop();
+        i = readTemplate(i);
+      }
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Split `content` between `start` and `end` at top-level commas (outside
+ * brackets, strings and comments). Returns [text, offset] pairs.
+ */
+export function splitTopLevel(content: string, start: number, end: number): [string, number][] {
+  const parts: [string, number][] = [];
+  let partStart = start;
+  for (let i = start; i < end; i++) {
+    const ch = content[i];
+    if ('"\'`([{'.includes(ch) || (ch === '/' && (content[i + 1] === '/' || content[i + 1] === '*'))) {
+      if (ch === '/' && content[i + 1] === '/') {
+        i = content.indexOf('\n', i);
+        if (i === -1 || i >= end) break;
+      } else if (ch === '/') {
+        i = content.indexOf('*/', i + 2) + 1;
+        if (i <= 0 || i >= end) break;
+      } else if ('"\'`'.includes(ch)) {
+        for (i++; i < end && content[i] !== ch; i++) {
+          if (content[i] === '\\') i++;
+        }
+      } else {
+        const close = findClosingBracket(content, i);
+        if (close === -1) break;
+        i = close;
+      }
+    } else if (ch === ',') {
+      parts.push([content.slice(partStart, i), partStart]);
+      partStart = i + 1;
+    }
+  }
+  parts.push([content.slice(partStart, end), partStart]);
+  return parts;
+}
+
 /**
  * Check if a path matches a filter pattern (case-insensitive).
  */
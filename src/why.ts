@@ -0,0 +1,273 @@
+/**
+ * `pruny why <file|export|route>`: explain a verdict. Used files get the
+ * import chain from an entry point, used routes and exports the references
+ * that matched, and unused items what was tried.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import type { ApiRoute, Config, RouteReference, ScanResult, Suppression, UnusedExport } from './types.js';
+import { routeReferenceForms, scan } from './scanner.js';
+import { buildImportGraph, importChain, traceImports } from './scanners/unused-files.js';
+import { minimatch } from 'minimatch';
+import { DEFAULT_IGNORE, GENERIC_METHOD_NAMES } from './constants.js';
+import { getFileIndex } from './file-index.js';
+import { findSuppression, parseSuppressions } from './suppressions.js';
+import { escapeRegExp, makeCodePattern } from './utils.js';
+
+export interface FileExplanation {
+  kind: 'file';
+  /** Relative to the scanned root */
+  file: string;
+  used: boolean;
+  /** Entry pattern the file itself matches */
+  entryPattern?: string;
+  /** Whether the file matches `ignore.files` */
+  ignored: boolean;
+  /** Import chain from an entry point (or an `ignore.files` file) down to the file; empty when unused */
+  chain: string[];
+  /** Entry pattern the first file of the chain matched (none when it's an `ignore.files` file) */
+  chainEntryPattern?: string;
+  /** Files that import this one (for an unused file, all unreachable themselves) */
+  importedBy: string[];
+  /** Entry patterns that were checked (unused files only) */
+  entryPatterns?: string[];
+}
+
+export interface RouteExplanation {
+  kind: 'route';
+  route: ApiRoute;
+  /** Code references that matched, with file, line and pattern source */
+  references: RouteReference[];
+  /** Other sources that mark the route used: vercel.json, (access log), (ignored by config), ... */
+  marks: string[];
+  /** Normalized paths references were compared with */
+  pathForms: string[];
+  /** Backend routes only count HTTP client calls, not path-like strings */
+  httpClientOnly: boolean;
+}
+
+export interface ExportReference {
+  file: string;
+  line: number;
+  text: string;
+}
+
+export interface ExportExplanation {
+  kind: 'export';
+  name: string;
+  /** Declaring file, relative to the scanned root */
+  file: string;
+  line?: number;
+  used: boolean;
+  /** Lines in other files that use the name */
+  references: ExportReference[];
+  /** The scan's finding, when the export is unused */
+  unused?: UnusedExport;
+  /** The `pruny-ignore` comment that hid the finding */
+  suppressedBy?: Suppression;
+  /** What was checked without finding a use (unused), or why a use isn't reported (used) */
+  notes: string[];
+}
+
+export type Explanation = FileExplanation | RouteExplanation | ExportExplanation;
+
+/**
+ * Explain the verdicts for `target` in one app: a source file path, an API
+ * route path (`/api/users`), or an export (`name` or `file:name`).
+ * Returns nothing when the target isn't found in the app.
+ */
+export async function explain(config: Config, target: string): Promise<Explanation[]> {
+  const file = resolveSourceFile(config, target);
+  if (file) {
+    const explanation = await explainFile(config, file);
+    return explanation ? [explanation] : [];
+  }
+  if (target.startsWith('/')) {
+    return explainRoutes(config, await scan(config), target);
+  }
+
+  const colon = target.lastIndexOf(':');
+  if (colon > 0) {
+    const declaringFile = resolveSourceFile(config, target.slice(0, colon));
+    return declaringFile ? explainExports(config, await scan(config), target.slice(colon + 1), declaringFile) : [];
+  }
+  return explainExports(config, await scan(config), target);
+}
+
+function resolveSourceFile(config: Config, path: string): string | undefined {
+  for (const candidate of [resolve(path), join(config.dir, path)]) {
+    if (existsSync(candidate) && statSync(candidate).isFile()) return candidate;
+  }
+  return undefined;
+}
+
+async function explainFile(config: Config, file: string): Promise<FileExplanation | undefined> {
+  const graph = await buildImportGraph(config);
+  if (!graph.imports.has(file)) return undefined;
+
+  // Same walk as the unused-files scanner: entry points first, then ignore.files
+  const reached = traceImports(graph, graph.entries.keys());
+  traceImports(graph, graph.ignored, reached);
+  const chain = importChain(reached, file);
+  const rel = (f: string) => relative(config.dir, f);
+
+  return {
+    kind: 'file',
+    file: rel(file),
+    used: chain.length > 0,
+    entryPattern: graph.entries.get(file),
+    ignored: graph.ignored.has(file),
+    chain: chain.map(rel),
+    chainEntryPattern: chain.length > 0 ? graph.entries.get(chain[0]) : undefined,
+    importedBy: graph.files.filter(f => graph.imports.get(f)!.includes(file)).map(rel),
+    entryPatterns: chain.length > 0 ? undefined : graph.entryPatterns,
+  };
+}
+
+function normalizeRoutePath(path: string): string {
+  return path.toLowerCase().replace(/\/+$/, '') || '/';
+}
+
+function explainRoutes(config: Config, result: ScanResult, target: string): RouteExplanation[] {
+  const wanted = normalizeRoutePath(target);
+
+  return result.routes
+    .filter(route => route.type !== 'trpc' && normalizeRoutePath(route.path) === wanted)
+    .map(route => {
+      const references = route.referenceMatches ?? [];
+      const codeFiles = new Set(references.map(ref => ref.file));
+      return {
+        kind: 'route',
+        route,
+        references,
+        marks: route.references.filter(ref => !codeFiles.has(ref)),
+        pathForms: routeReferenceForms(route, config),
+        httpClientOnly: route.type !== 'nextjs',
+      };
+    });
+}
+
+/** 1-based line of an `export` declaring `name` */
+function findExportLine(content: string, name: string): number | undefined {
+  const id = escapeRegExp(name);
+  const declaration = new RegExp(
+    `^[ \\t]*export\\s+(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:async\\s+)?` +
+    `(?:function\\s*\\*?\\s*|class\\s+|const\\s+|let\\s+|var\\s+|interface\\s+|type\\s+|enum\\s+)${id}(?![\\w$])` +
+    `|^[ \\t]*export\\s*\\{[^}]*(?<![\\w$])${id}(?![\\w$])`,
+    'm'
+  );
+  const match = declaration.exec(content);
+  return match ? content.substring(0, match.index).split('\n').length : undefined;
+}
+
+/**
+ * Code lines in `content` that use `name`: imports, JSX and the call/access
+ * forms the export scanner accepts, outside strings and comments
+ */
+function findNameReferences(content: string, name: string): { line: number; text: string }[] {
+  const word = new RegExp(`\\b${escapeRegExp(name)}\\b`);
+  if (!word.test(content)) return [];
+
+  const importPattern = new RegExp(`import.*\\b${escapeRegExp(name)}\\b.*from`);
+  const codePattern = makeCodePattern(name);
+  const references: { line: number; text: string }[] = [];
+  let inBlockComment = false;
+
+  content.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (inBlockComment || trimmed.startsWith('/*')) {
+      inBlockComment = !trimmed.includes('*/');
+      return;
+    }
+    if (trimmed.startsWith('//')) return;
+
+    const code = line.replace(/'[^']*'/g, "''").replace(/"[^"]*"/g, '""');
+    if (importPattern.test(line) || (word.test(code) && codePattern.test(code))) {
+      references.push({ line: index + 1, text: trimmed });
+    }
+  });
+  return references;
+}
+
+/**
+ * The `pruny-ignore` comment hiding an export's finding. Comments the scan
+ * reported as stale hid nothing: the export is used.
+ */
+function findExportSuppression(result: ScanResult, content: string, file: string, line: number | undefined): Suppression | undefined {
+  const found = findSuppression(parseSuppressions(content), line);
+  if (!found) return undefined;
+  const stale = result.suppressions?.stale.some(s => s.file === file && s.line === found.line);
+  return stale ? undefined : { file, ...found };
+}
+
+async function explainExports(config: Config, result: ScanResult, name: string, declaringFile?: string): Promise<ExportExplanation[]> {
+  const fileIndex = getFileIndex(config);
+  const candidateCwd = config.appSpecificScan ? config.appSpecificScan.appDir : config.dir;
+  const referenceCwd = config.appSpecificScan ? config.appSpecificScan.rootDir : config.dir;
+  const extGlob = `**/*{${config.extensions.join(',')}}`;
+  const absolute = (file: string) => isAbsolute(file) ? file : join(config.dir, file);
+
+  // Declarations: every unused export by that name, plus files exporting it
+  const declarations = new Map<string, number | undefined>();
+  for (const exp of result.unusedExports?.exports ?? []) {
+    if (exp.name === name) declarations.set(absolute(exp.file), exp.line);
+  }
+  const candidates = declaringFile
+    ? [declaringFile]
+    : await fileIndex.glob(extGlob, { cwd: candidateCwd, ignore: DEFAULT_IGNORE, absolute: true });
+  for (const file of candidates) {
+    if (declarations.has(file)) continue;
+    try {
+      const line = findExportLine(fileIndex.read(file), name);
+      if (line !== undefined) declarations.set(file, line);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  if (declaringFile) {
+    for (const file of declarations.keys()) {
+      if (file !== declaringFile) declarations.delete(file);
+    }
+  }
+  if (declarations.size === 0) return [];
+
+  const referenceFiles = await fileIndex.glob(extGlob, { cwd: referenceCwd, ignore: DEFAULT_IGNORE, absolute: true });
+  const explanations: ExportExplanation[] = [];
+  for (const [file, line] of declarations) {
+    const rel = relative(config.dir, file);
+    const unused = result.unusedExports?.exports.find(exp => exp.name === name && absolute(exp.file) === file);
+    const suppressedBy = unused ? undefined : findExportSuppression(result, fileIndex.read(file), rel, line);
+    const references: ExportReference[] = [];
+    if (!unused) {
+      for (const other of referenceFiles) {
+        if (other === file) continue;
+        try {
+          for (const ref of findNameReferences(fileIndex.read(other), name)) {
+            references.push({ file: relative(config.dir, other), ...ref });
+          }
+        } catch {
+          // Skip unreadable files
+        }
+      }
+    }
+
+    const notes: string[] = [];
+    if (suppressedBy) {
+      notes.push(`Suppressed by pruny-ignore at ${suppressedBy.file}:${suppressedBy.line}${suppressedBy.reason ? ` (${suppressedBy.reason})` : ''}`);
+    } else if (unused) {
+      notes.push(`No other file imports ${name} or uses it in code (calls, property access, types, JSX)`);
+      if (GENERIC_METHOD_NAMES.has(name)) notes.push('Generic method name: .prisma, .db and .database calls and files not mentioning its module don\'t count');
+      if (unused.usedInternally) notes.push('Only used inside its own file');
+    } else if (rel.endsWith('.controller.ts') || rel.endsWith('.controller.tsx')) {
+      notes.push('Controller methods are route handlers; see the route instead');
+    } else if (result.unusedServerActions?.actions.some(action => action.name === name && absolute(action.file) === file)) {
+      notes.push('Reported as an unused server action');
+    } else if (config.ignore.files.some(pattern => minimatch(relative(candidateCwd, file), pattern, { dot: true }))) {
+      notes.push('The file matches ignore.files, so its exports are not checked');
+    }
+
+    explanations.push({ kind: 'export', name, file: rel, line, used: !unused && !suppressedBy, references, unused, suppressedBy, notes });
+  }
+  return explanations;
+}
@@ -0,0 +1,259 @@
+/**
+ * Monorepo workspace discovery: the packages pnpm-workspace.yaml and
+ * package.json `workspaces` (npm, yarn, bun) list, plus Nx projects. Turbo
+ * and Nx repos without such a list fall back to the conventional apps/,
+ * packages/, services/ and tools/ folders, and repos with nothing but an
+ * apps/ folder keep working: each folder in it is a workspace.
+ *
+ * Also resolves imports of workspace packages by name (`@acme/ui/button`)
+ * through their package.json `exports`, `module`, `main` and `types`.
+ */
+
+import fg from 'fast-glob';
+import { existsSync, lstatSync, readFileSync, readdirSync } from 'node:fs';
+import { basename, dirname, join, relative, sep } from 'node:path';
+import { DEFAULT_IGNORE } from './constants.js';
+import { parseYaml } from './openapi.js';
+import { readPackageJson, type PackageJson } from './utils.js';
+
+export interface Workspace {
+  /** package.json (or Nx project.json) name; the directory relative to the root when unnamed */
+  name: string;
+  /** Absolute directory */
+  dir: string;
+}
+
+export interface WorkspacePackage {
+  /** Absolute directory */
+  dir: string;
+  manifest: PackageJson;
+}
+
+/** Where turbo.json and nx.json repos keep their packages when no manifest lists them */
+export const CONVENTIONAL_WORKSPACES = ['apps/*', 'packages/*', 'services/*', 'tools/*'];
+
+/** `exports` conditions tried first: the ones pointing at sources and types rather than bundles */
+const PREFERRED_CONDITIONS = ['source', 'types', 'typescript', 'import', 'module', 'default'];
+
+/** Build output folders, whose files usually come from src/ */
+const BUILD_DIR = /^(?:\.\/)?(?:dist|build|lib|out)\//;
+
+function readJson(file: string): Record<string, unknown> | undefined {
+  if (!existsSync(file)) return undefined;
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Workspace globs from pnpm-workspace.yaml `packages` and package.json `workspaces` */
+function listedPatterns(root: string): string[] {
+  const patterns: string[] = [];
+  const pnpmManifest = join(root, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmManifest)) {
+    try {
+      const manifest = parseYaml(readFileSync(pnpmManifest, 'utf-8')) as { packages?: unknown } | null;
+      if (Array.isArray(manifest?.packages)) patterns.push(...manifest.packages.filter(p => typeof p === 'string'));
+    } catch {
+      // Unreadable manifest
+    }
+  }
+
+  // npm, bun and yarn 1 take an array; yarn also takes { packages: [...] }
+  const workspaces = readPackageJson(root)?.workspaces;
+  const listed = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+  if (Array.isArray(listed)) patterns.push(...listed.filter(p => typeof p === 'string'));
+  return patterns;
+}
+
+/** Whether `dir` looks like a monorepo root, before globbing for its packages */
+function hasWorkspaceManifest(dir: string): boolean {
+  if (['pnpm-workspace.yaml', 'turbo.json', 'nx.json'].some(file => existsSync(join(dir, file)))) return true;
+  if (readPackageJson(dir)?.workspaces) return true;
+  const appsDir = join(dir, 'apps');
+  return existsSync(appsDir) && lstatSync(appsDir).isDirectory();
+}
+
+/**
+ * List the workspace packages of a monorepo root, sorted by directory.
+ * Globs match directories with a package.json (`!` globs exclude); Nx
+ * projects are the directories with a project.json. Empty when `root`
+ * is not a monorepo.
+ */
+export function discoverWorkspaces(root: string): Workspace[] {
+  const patterns = listedPatterns(root);
+  const nx = readJson(join(root, 'nx.json'));
+  if (patterns.length === 0 && (nx || existsSync(join(root, 'turbo.json')))) {
+    patterns.push(...CONVENTIONAL_WORKSPACES);
+    const layout = nx?.workspaceLayout as { appsDir?: string; libsDir?: string } | undefined;
+    patterns.push(`${layout?.appsDir ?? 'apps'}/*`, `${layout?.libsDir ?? 'libs'}/*`);
+  }
+
+  const manifests: string[] = [];
+  if (patterns.length > 0) {
+    const clean = (pattern: string) => pattern.replace(/^!/, '').replace(/^\.\//, '').replace(/\/+$/, '');
+    const include = patterns.filter(p => !p.startsWith('!')).map(p => `${clean(p)}/package.json`);
+    const exclude = patterns.filter(p => p.startsWith('!')).flatMap(p => [`${clean(p)}/package.json`, `${clean(p)}/**`]);
+    manifests.push(...fg.sync(include, { cwd: root, ignore: [...DEFAULT_IGNORE, ...exclude] }));
+  }
+  if (nx) {
+    manifests.push(...fg.sync('**/project.json', { cwd: root, ignore: DEFAULT_IGNORE }));
+  }
+
+  const workspaces = new Map<string, Workspace>();
+  for (const manifest of manifests) {
+    const dir = join(root, dirname(manifest));
+    if (dir === root || workspaces.has(dir)) continue;
+    const projectName = readJson(join(dir, 'project.json'))?.name;
+    const name = readPackageJson(dir)?.name ?? (typeof projectName === 'string' ? projectName : undefined);
+    workspaces.set(dir, { name: name ?? relative(root, dir), dir });
+  }
+
+  // Plain apps/ folder: every directory in it is an app, package.json or not
+  if (manifests.length === 0 && patterns.length === 0 && !nx) {
+    const appsDir = join(root, 'apps');
+    if (existsSync(appsDir) && lstatSync(appsDir).isDirectory()) {
+      for (const app of readdirSync(appsDir)) {
+        const dir = join(appsDir, app);
+        if (lstatSync(dir).isDirectory()) workspaces.set(dir, { name: app, dir });
+      }
+    }
+  }
+
+  return [...workspaces.values()].sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Find the monorepo root at or above `dir`: the nearest directory with a
+ * workspace manifest (or apps/ folder) that lists at least one workspace.
+ */
+export function detectWorkspaces(dir: string): { root: string; workspaces: Workspace[] } | undefined {
+  for (let current = dir; ; current = dirname(current)) {
+    if (hasWorkspaceManifest(current)) {
+      const workspaces = discoverWorkspaces(current);
+      if (workspaces.length > 0) return { root: current, workspaces };
+    }
+    if (current === dirname(current)) return undefined;
+  }
+}
+
+/** The workspace `dir` is in (the innermost one for nested workspaces) */
+export function workspaceAt(workspaces: Workspace[], dir: string): Workspace | undefined {
+  return workspaces
+    .filter(ws => dir === ws.dir || dir.startsWith(ws.dir + sep))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/**
+ * Find a workspace by how users name it on the command line: its name, its
+ * directory relative to the root, its folder name (`web` for apps/web), or
+ * its package name without the scope (`web` for @acme/web).
+ */
+export function findWorkspace(workspaces: Workspace[], root: string, query: string): Workspace | undefined {
+  const path = query.replace(/^\.\//, '').replace(/\/+$/, '');
+  const matchers: ((ws: Workspace) => boolean)[] = [
+    ws => ws.name === query,
+    ws => relative(root, ws.dir) === path,
+    ws => basename(ws.dir) === path,
+    ws => ws.name.replace(/^@[^/]+\//, '') === query,
+  ];
+  for (const matches of matchers) {
+    const found = workspaces.find(matches);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Workspace packages of a monorepo root by package.json name (workspaces
+ * without a package.json name can't be imported by name)
+ */
+export function readWorkspacePackages(root: string): Map<string, WorkspacePackage> {
+  const packages = new Map<string, WorkspacePackage>();
+  for (const workspace of discoverWorkspaces(root)) {
+    const manifest = readPackageJson(workspace.dir);
+    if (manifest?.name && !packages.has(manifest.name)) packages.set(manifest.name, { dir: workspace.dir, manifest });
+  }
+  return packages;
+}
+
+/** Split a bare specifier into its package name and subpath (`@acme/ui/button` -> `@acme/ui`, `./button`) */
+export function splitPackageSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  return { name: parts.slice(0, nameLength).join('/'), subpath: ['.', ...parts.slice(nameLength)].join('/') };
+}
+
+/** Targets of an `exports` value, preferred conditions first; null (a blocked subpath) has none */
+function exportTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(exportTargets);
+  if (!value || typeof value !== 'object') return [];
+  const rank = (condition: string) => {
+    const index = PREFERRED_CONDITIONS.indexOf(condition);
+    return index === -1 ? PREFERRED_CONDITIONS.length : index;
+  };
+  return Object.entries(value)
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .flatMap(([, target]) => exportTargets(target));
+}
+
+/**
+ * Paths (relative to the package) a package.json exposes at `subpath`
+ * ('.' or './button'). With `exports`, the entry for the subpath: exact, or
+ * the `*` pattern with the longest prefix. Without it, `module`, `main` and
+ * `types` for the package itself and the path as written for subpaths.
+ */
+export function packageEntryTargets(manifest: PackageJson, subpath: string): string[] {
+  const { exports } = manifest;
+  if (exports === undefined) {
+    if (subpath !== '.') return [subpath];
+    return [manifest.module, manifest.main, manifest.types, manifest.typings, './index'].filter((target): target is string => typeof target === 'string');
+  }
+
+  // A string, array or conditions object only exposes the package itself
+  const subpaths = exports && typeof exports === 'object' && !Array.isArray(exports)
+    ? exports as Record<string, unknown>
+    : undefined;
+  if (!subpaths || !Object.keys(subpaths).some(key => key.startsWith('.'))) {
+    return subpath === '.' ? exportTargets(exports) : [];
+  }
+
+  if (subpath in subpaths) return exportTargets(subpaths[subpath]);
+  let best: { key: string; prefix: string; match: string } | undefined;
+  for (const key of Object.keys(subpaths)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (subpath.length < prefix.length + suffix.length || !subpath.startsWith(prefix) || !subpath.endsWith(suffix)) continue;
+    if (!best || prefix.length > best.prefix.length) {
+      best = { key, prefix, match: subpath.slice(prefix.length, subpath.length - suffix.length) };
+    }
+  }
+  return best ? exportTargets(subpaths[best.key]).map(target => target.replaceAll('*', best.match)) : [];
+}
+
+/**
+ * Absolute paths an import of a workspace package may load, most likely
+ * first and without resolving extensions; undefined when no workspace has
+ * the specifier's package name. A target in a build folder
+ * (`./dist/button.js`) is followed by its source (`./src/button`), since
+ * build output is not scanned.
+ */
+export function workspaceImportTargets(packages: Map<string, WorkspacePackage>, specifier: string): string[] | undefined {
+  const { name, subpath } = splitPackageSpecifier(specifier);
+  const pkg = packages.get(name);
+  if (!pkg) return undefined;
+
+  const targets = new Set<string>();
+  for (const target of packageEntryTargets(pkg.manifest, subpath)) {
+    // Compiled and declaration extensions map back to the source file
+    const withoutExtension = target.replace(/\.d\.[cm]?ts$|\.[cm]?js$/, '');
+    for (const path of [target, withoutExtension, withoutExtension.replace(BUILD_DIR, './src/')]) {
+      targets.add(join(pkg.dir, path));
+    }
+  }
+  return [...targets];
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { parseAccessLog } from '../src/access-log.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+
+/**
+ * Tests for `--access-log`: requests in nginx/combined logs, Vercel JSON
+ * exports and CSV files mark the routes that served them as used and
+ * annotate every route with its hit count.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/access-log-test');
+
+const NGINX_LOG = `203.0.113.7 - - [10/Oct/2026:13:55:36 +0000] "GET /api/users?page=2 HTTP/1.1" 200 512 "-" "okhttp/4.12"
+203.0.113.7 - - [11/Oct/2026:08:01:02 +0000] "GET /api/users/42 HTTP/1.1" 200 128 "-" "okhttp/4.12"
+203.0.113.9 - - [12/Oct/2026:09:30:00 +0200] "HEAD /api/users HTTP/1.1" 200 0 "-" "curl/8.0"
+`;
+
+function makeConfig(accessLogs: string[]): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+    accessLogs: accessLogs.map(file => join(fixtureBase, file)),
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users/[id]'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/api/users/me'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/api/legacy'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'access-log-test' }));
+  writeFileSync(join(fixtureBase, 'access.log'), NGINX_LOG);
+
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }
+export async function POST() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/users/[id]/route.ts'), `export async function GET() { return Response.json({}); }
+export async function DELETE() { return new Response(null); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/users/me/route.ts'), `export async function GET() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/legacy/route.ts'), `export async function GET() { return Response.json({}); }
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('parseAccessLog', () => {
+  it('should read combined log lines without query strings', () => {
+    const traffic = parseAccessLog(NGINX_LOG);
+    expect(traffic).toContainEqual({ method: 'GET', path: '/api/users', count: 1, lastSeen: '2026-10-10T13:55:36.000Z' });
+    expect(traffic).toContainEqual({ method: 'HEAD', path: '/api/users', count: 1, lastSeen: '2026-10-12T07:30:00.000Z' });
+  });
+
+  it('should read Vercel JSON exports and sum repeated requests', () => {
+    const traffic = parseAccessLog(JSON.stringify([
+      { timestamp: 1791000000000, proxy: { method: 'get', path: '/api/legacy?x=1' } },
+      { timestamp: 1791000060000, proxy: { method: 'GET', path: '/api/legacy' } },
+      { requestMethod: 'POST', requestPath: 'https://example.com/api/users' },
+    ]));
+    expect(traffic).toContainEqual({ method: 'GET', path: '/api/legacy', count: 2, lastSeen: new Date(1791000060000).toISOString() });
+    expect(traffic).toContainEqual({ method: 'POST', path: '/api/users', count: 1, lastSeen: undefined });
+  });
+
+  it('should read CSV with or without a header row', () => {
+    expect(parseAccessLog('method,path,count\nGET,/api/users,120\ndelete,/api/users/7,3\n')).toEqual([
+      { method: 'GET', path: '/api/users', count: 120, lastSeen: undefined },
+      { method: 'DELETE', path: '/api/users/7', count: 3, lastSeen: undefined },
+    ]);
+    expect(parseAccessLog('GET,/api/legacy,5,2026-09-01T00:00:00Z')).toEqual([
+      { method: 'GET', path: '/api/legacy', count: 5, lastSeen: '2026-09-01T00:00:00.000Z' },
+    ]);
+    // A first row mentioning "path" is still data when it starts with a method
+    expect(parseAccessLog('GET,/api/path/x,3\n')).toEqual([
+      { method: 'GET', path: '/api/path/x', count: 3, lastSeen: undefined },
+    ]);
+    expect(parseAccessLog('path,method\n/api/users,post\n')).toEqual([
+      { method: 'POST', path: '/api/users', count: 1, lastSeen: undefined },
+    ]);
+  });
+});
+
+describe('scan with access logs', () => {
+  it('should mark methods with traffic as used and record hits', async () => {
+    const result = await scan(makeConfig(['access.log']));
+    const users = result.routes.find(r => r.path === '/api/users')!;
+    expect(users.used).toBe(true);
+    expect(users.references).toContain('(access log)');
+    // HEAD is served by the GET handler
+    expect(users.unusedMethods).toEqual(['POST']);
+    expect(users.hits).toBe(2);
+    expect(users.lastSeen).toBe('2026-10-12T07:30:00.000Z');
+
+    const user = result.routes.find(r => r.path === '/api/users/[id]')!;
+    expect(user.hits).toBe(1);
+    expect(user.unusedMethods).toEqual(['DELETE']);
+
+    const legacy = result.routes.find(r => r.path === '/api/legacy')!;
+    expect(legacy.used).toBe(false);
+    expect(legacy.hits).toBe(0);
+  });
+
+  it('should credit a request to the most specific route only', async () => {
+    writeFileSync(join(fixtureBase, 'me.csv'), 'GET,/api/users/me,4\n');
+    const result = await scan(makeConfig(['me.csv']));
+    expect(result.routes.find(r => r.path === '/api/users/me')!.hits).toBe(4);
+    expect(result.routes.find(r => r.path === '/api/users/[id]')!.hits).toBe(0);
+  });
+
+  it('should take --access-log once per file, before or after the routes command', () => {
+    writeFileSync(join(fixtureBase, 'legacy.csv'), 'GET,/api/legacy,2\n');
+    const listRoutes = (args: string[]) => {
+      const output = execFileSync(process.execPath, [join(import.meta.dir, '../src/index.ts'), '--dir', fixtureBase, '--json', '--no-cache', ...args], {
+        env: { ...process.env, CI: '1' },
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      });
+      const routes = JSON.parse(output) as { path: string; hits: number }[];
+      return Object.fromEntries(routes.map(r => [r.path, r.hits]));
+    };
+
+    const logs = ['--access-log', join(fixtureBase, 'access.log'), '--access-log', join(fixtureBase, 'legacy.csv')];
+    const before = listRoutes([...logs, 'routes']);
+    expect(before['/api/users']).toBe(2);
+    expect(before['/api/legacy']).toBe(2);
+    expect(listRoutes(['routes', ...logs])).toEqual(before);
+  });
+
+  it('should leave routes untouched without access logs', async () => {
+    const result = await scan(makeConfig([]));
+    const users = result.routes.find(r => r.path === '/api/users')!;
+    expect(users.used).toBe(false);
+    expect(users.hits).toBeUndefined();
+  });
+});
@@ -16,6 +16,7 @@ function makeConfig(overrides?: Partial<Config>): Config {
     dir: fixtureBase,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
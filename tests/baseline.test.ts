@@ -0,0 +1,92 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { collectFindings } from '../src/findings.js';
+import { applyBaseline, readBaseline, writeBaseline } from '../src/baseline.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for baselines (`pruny baseline` + `--baseline <file>`):
+ * Known findings are recorded under stable keys (no line numbers) and hidden
+ * on later runs, so only newly introduced dead code is reported and counted.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/baseline-test');
+const baselinePath = join(fixtureBase, '.pruny-baseline.json');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(async () => {
+  mkdirSync(join(fixtureBase, 'app/api/legacy'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/home'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'app/api/legacy/route.ts'),
+    `export async function GET() { return Response.json([]); }\n`
+  );
+  writeFileSync(join(fixtureBase, 'app/home/page.tsx'),
+    `import { used } from '../../src/utils';\nexport default function Home() { return <a href="/gone">{used()}</a>; }\n`
+  );
+  writeFileSync(join(fixtureBase, 'src/utils.ts'),
+    `export function used() { return 1; }\nexport function legacyHelper() { return 2; }\n`
+  );
+
+  // Record the legacy backlog
+  const config = makeConfig();
+  const result = await scan(config);
+  writeBaseline(baselinePath, collectFindings(result, config));
+
+  // Introduce new dead code, and shift existing lines with an unrelated edit
+  writeFileSync(join(fixtureBase, 'src/utils.ts'),
+    `// moved things around\n\nexport function used() { return 1; }\nexport function legacyHelper() { return 2; }\nexport function brandNewHelper() { return 3; }\n`
+  );
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Baseline', () => {
+  it('should store stable keys without line numbers', () => {
+    const keys = readBaseline(baselinePath);
+    expect(keys.has('unused-route:app/api/legacy/route.ts:/api/legacy:GET')).toBe(true);
+    expect(keys.has('unused-export:src/utils.ts:legacyHelper')).toBe(true);
+    expect(keys.has('broken-link:/gone:app/home/page.tsx')).toBe(true);
+  });
+
+  it('should hide known findings even after their lines moved', async () => {
+    const config = makeConfig();
+    const result = await scan(config);
+    const hidden = applyBaseline(result, config, readBaseline(baselinePath));
+
+    expect(hidden).toBeGreaterThanOrEqual(3);
+    expect(result.routes.find(r => r.path === '/api/legacy')).toBeUndefined();
+    expect(result.brokenLinks!.total).toBe(0);
+    expect(result.unusedExports!.exports.map(e => e.name)).toEqual(['brandNewHelper']);
+    expect(result.unusedExports!.unused).toBe(1);
+  });
+
+  it('should key routes by their file, so apps serving the same path stay apart', () => {
+    const route = (app: string) => ({
+      type: 'nextjs' as const, path: '/api/health', filePath: `apps/${app}/app/api/health/route.ts`,
+      used: false, references: [], methods: ['GET'], unusedMethods: [], methodLines: { GET: 1 },
+    });
+    const findings = collectFindings({ total: 2, used: 0, unused: 2, routes: [route('web'), route('admin')] }, makeConfig());
+    expect(findings.map(f => f.key)).toEqual([
+      'unused-route:apps/web/app/api/health/route.ts:/api/health:GET',
+      'unused-route:apps/admin/app/api/health/route.ts:/api/health:GET',
+    ]);
+  });
+
+  it('should throw a clear error for a missing baseline file', () => {
+    expect(() => readBaseline(join(fixtureBase, 'nope.json'))).toThrow('Baseline file not found');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { createFileIndex } from '../src/file-index.js';
+import { CACHE_DIR, EXTRACTOR_VERSIONS, openExtractionCache } from '../src/cache.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the persistent extraction cache (node_modules/.cache/pruny):
+ * per-file results are keyed by content hash, so a second run only
+ * re-parses files that changed, and `cache: false` (--no-cache) bypasses it.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/cache-test');
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    ...overrides,
+  };
+}
+
+/** Scan with an index we keep a handle on, to inspect cache stats afterwards */
+async function scanWithStats(config: Config) {
+  const fileIndex = createFileIndex(config);
+  const result = await scan({ ...config, fileIndex });
+  return { result, stats: fileIndex.cache?.stats() };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/home'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }\n`);
+  writeFileSync(join(fixtureBase, 'app/home/page.tsx'), `import { used } from '../../src/utils';
+export default function Home() { return <a href="/missing">{used()}</a>; }
+`);
+  writeFileSync(join(fixtureBase, 'src/utils.ts'), `export function used() { return 1; }\nexport function dead() { return 2; }\n`);
+  writeFileSync(join(fixtureBase, 'src/client.ts'), `export const load = () => fetch('/api/users');\n`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Extraction cache', () => {
+  it('should reuse every extraction on an unchanged second run', async () => {
+    const first = await scanWithStats(makeConfig());
+    expect(first.stats!.misses).toBeGreaterThan(0);
+    expect(existsSync(join(fixtureBase, CACHE_DIR, 'extractions.json'))).toBe(true);
+
+    const second = await scanWithStats(makeConfig());
+    expect(second.stats!.misses).toBe(0);
+    expect(second.stats!.hits).toBe(first.stats!.misses);
+    expect(second.result.unusedExports!.exports.map(e => e.name)).toEqual(first.result.unusedExports!.exports.map(e => e.name));
+    expect(second.result.routes[0].used).toBe(first.result.routes[0].used);
+  });
+
+  it('should only re-parse files whose content changed', async () => {
+    writeFileSync(join(fixtureBase, 'src/utils.ts'), `export function used() { return 1; }\nexport function dead() { return 2; }\nexport function deader() { return 3; }\n`);
+
+    const { result, stats } = await scanWithStats(makeConfig());
+    // utils.ts is extracted for API references, links, imports and exports — nothing else
+    expect(stats!.misses).toBeGreaterThan(0);
+    expect(stats!.misses).toBeLessThanOrEqual(4);
+    expect(result.unusedExports!.exports.map(e => e.name)).toContain('deader');
+  });
+
+  it('should bypass the cache when disabled', async () => {
+    const config = makeConfig({ cache: false });
+    expect(createFileIndex(config).cache).toBeUndefined();
+
+    const result = await scan(config);
+    expect(result.brokenLinks!.links.map(l => l.path)).toEqual(['/missing']);
+  });
+
+  it('should not serve entries written by another version of the same extractor', () => {
+    const dir = join(fixtureBase, 'old-extractor');
+    const cache = openExtractionCache(dir);
+    cache.set('links', 'content', ['/old']);
+    cache.set('exports:service', 'content', []);
+    cache.save();
+    expect(openExtractionCache(dir).get('links', 'content')).toEqual(['/old']);
+
+    const version = EXTRACTOR_VERSIONS.links;
+    EXTRACTOR_VERSIONS.links = version + 1;
+    try {
+      const reopened = openExtractionCache(dir);
+      expect(reopened.get('links', 'content')).toBeUndefined();
+      // Other kinds keep their entries
+      expect(reopened.get('exports:service', 'content')).toEqual([]);
+    } finally {
+      EXTRACTOR_VERSIONS.links = version;
+    }
+  });
+
+  it('should discard a cache written by another pruny version', () => {
+    const dir = join(fixtureBase, 'old-version');
+    mkdirSync(join(dir, CACHE_DIR), { recursive: true });
+    writeFileSync(join(dir, CACHE_DIR, 'extractions.json'), JSON.stringify({
+      version: '0.0.1-old',
+      entries: { 'api-refs:x': { t: Date.now(), v: [] } },
+    }));
+
+    const cache = openExtractionCache(dir);
+    expect(cache.get('api-refs', 'anything')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 0, misses: 1 });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { applyChangedFilter, getGitChanges } from '../src/changed.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for changed-files mode (`--changed-since <ref>` / `--staged`):
+ * the whole project is scanned, but only findings declared in or referenced
+ * from changed files — or named on a removed line — are reported.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/changed-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+function git(...args: string[]) {
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+    cwd: fixtureBase,
+    stdio: 'ignore',
+  });
+}
+
+async function exportNamesAfterFilter(changes: ReturnType<typeof getGitChanges>) {
+  const config = makeConfig();
+  const result = await scan(config);
+  applyChangedFilter(result, config, changes);
+  return result.unusedExports!.exports.map(e => e.name).sort();
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/home'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/api/[tenant]/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/api/orders/export'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'db'), { recursive: true });
+
+  // Own package.json so references aren't searched in the surrounding repo
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'changed-test' }));
+  writeFileSync(join(fixtureBase, 'src/helpers.ts'),
+    `export function keptHelper() { return 1; }\nexport function droppedHelper() { return 2; }\n`
+  );
+  writeFileSync(join(fixtureBase, 'src/legacy.ts'), `export function legacyBacklog() { return 3; }\n`);
+  // Same name as the dropped helper, but nothing changed imports this file
+  writeFileSync(join(fixtureBase, 'src/duplicate.ts'), `export function droppedHelper() { return 5; }\n`);
+  writeFileSync(join(fixtureBase, 'app/api/[tenant]/users/route.ts'), `export async function GET() { return Response.json([]); }\n`);
+  writeFileSync(join(fixtureBase, 'app/api/orders/export/route.ts'), `export async function GET() { return Response.json([]); }\n`);
+  writeFileSync(join(fixtureBase, 'app/home/page.tsx'), `import { keptHelper, droppedHelper } from '../../src/helpers';
+import '../../src/legacy';
+export const download = () => fetch('/api/orders/export');
+export default function Home() { return <div>{keptHelper()}{droppedHelper()}</div>; }
+`);
+
+  writeFileSync(join(fixtureBase, 'db/seed.sql'), `-- dropped note\nselect 1;\n-- kept note\n`);
+
+  git('init', '-q');
+  git('add', '-A');
+  git('commit', '-qm', 'initial');
+  git('tag', 'base');
+
+  // Stop using one helper (its declaring file stays untouched) and add a new file
+  writeFileSync(join(fixtureBase, 'app/home/page.tsx'), `import { keptHelper } from '../../src/helpers';
+import '../../src/legacy';
+export default function Home() { return <div>{keptHelper()}</div>; }
+`);
+  writeFileSync(join(fixtureBase, 'src/fresh.ts'), `export function freshHelper() { return 4; }\n`);
+  // A removed SQL comment shows up as `--- dropped note`, like a file header
+  writeFileSync(join(fixtureBase, 'db/seed.sql'), `select 1;\n-- kept note\n`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Changed-files mode', () => {
+  it('should list changed, untracked files and removed lines since a ref', () => {
+    const changes = getGitChanges(fixtureBase, { since: 'base' });
+    expect(changes.files.has(join(fixtureBase, 'app/home/page.tsx'))).toBe(true);
+    expect(changes.files.has(join(fixtureBase, 'src/fresh.ts'))).toBe(true);
+    expect(changes.files.has(join(fixtureBase, 'src/legacy.ts'))).toBe(false);
+    expect(changes.removed.get(join(fixtureBase, 'app/home/page.tsx'))).toContain('droppedHelper');
+    expect(changes.removed.has(join(fixtureBase, 'src/fresh.ts'))).toBe(false);
+  });
+
+  it('should read removed lines whatever the diff prefix settings, and tell them from file headers', () => {
+    for (const setting of ['diff.noprefix', 'diff.mnemonicPrefix']) {
+      git('config', setting, 'true');
+      try {
+        const changes = getGitChanges(fixtureBase, { since: 'base' });
+        expect(changes.removed.get(join(fixtureBase, 'app/home/page.tsx'))).toContain('droppedHelper');
+        expect(changes.removed.get(join(fixtureBase, 'db/seed.sql'))).toBe('-- dropped note');
+      } finally {
+        git('config', '--unset', setting);
+      }
+    }
+  });
+
+  it('should keep findings in changed files or named on removed lines, and hide the backlog', async () => {
+    const names = await exportNamesAfterFilter(getGitChanges(fixtureBase, { since: 'base' }));
+    expect(names).toEqual(['droppedHelper', 'freshHelper']);
+  });
+
+  it('should only match removed routes by their full path', async () => {
+    const config = makeConfig();
+    const result = await scan(config);
+    applyChangedFilter(result, config, getGitChanges(fixtureBase, { since: 'base' }));
+    expect(result.routes.filter(r => !r.used).map(r => r.path)).toEqual(['/api/orders/export']);
+  });
+
+  it('should only consider staged changes with --staged', async () => {
+    git('add', 'src/fresh.ts');
+    const changes = getGitChanges(fixtureBase, { staged: true });
+    expect([...changes.files]).toEqual([join(fixtureBase, 'src/fresh.ts')]);
+
+    const names = await exportNamesAfterFilter(changes);
+    expect(names).toEqual(['freshHelper']);
+  });
+
+  it('should fail clearly for an unknown ref', () => {
+    expect(() => getGitChanges(fixtureBase, { since: 'no-such-ref' })).toThrow('git merge-base');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scanCircularImports } from '../src/scanners/circular-imports.js';
+import { collectFindings } from '../src/findings.js';
+import type { Config, ScanResult } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for circular import detection: cycles on the unused-files import
+ * graph with the line of each import, type-only and lazy imports left out,
+ * and `ignore.cycles`.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/circular-imports-test');
+
+function makeConfig(cycles: string[] = []): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [], cycles },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  for (const dir of ['lib/orders', 'lib/types', 'lib/lazy', 'legacy']) {
+    mkdirSync(join(fixtureBase, dir), { recursive: true });
+  }
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'circular-imports-test' }));
+  writeFileSync(join(fixtureBase, 'tsconfig.json'), JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['lib/*'] } } }));
+
+  // Three files in a loop, one edge through a tsconfig alias
+  writeFileSync(join(fixtureBase, 'lib/orders/cart.ts'), `// Cart
+import { price } from './price';
+export const cart = () => price();
+`);
+  writeFileSync(join(fixtureBase, 'lib/orders/price.ts'), `import { tax } from '@lib/orders/tax';
+
+export const price = () => tax();
+`);
+  writeFileSync(join(fixtureBase, 'lib/orders/tax.ts'), `import {
+  cart,
+} from './cart';
+export const tax = () => 1;
+export const total = () => cart();
+`);
+
+  // Type-only imports are erased at compile time
+  writeFileSync(join(fixtureBase, 'lib/types/user.ts'), `import { formatRole } from './role';
+export interface User { role: string }
+export const label = (user: User) => formatRole(user.role);
+`);
+  writeFileSync(join(fixtureBase, 'lib/types/role.ts'), `import type { User } from './user';
+import { type User as U } from './user';
+export const formatRole = (role: string) => role;
+export type Owner = User | U;
+`);
+
+  // Lazy import() runs after both modules loaded
+  writeFileSync(join(fixtureBase, 'lib/lazy/a.ts'), `import { b } from './b';
+export const a = () => b;
+`);
+  writeFileSync(join(fixtureBase, 'lib/lazy/b.ts'), `export const b = () => import('./a');
+`);
+
+  writeFileSync(join(fixtureBase, 'legacy/x.ts'), `import { y } from './y';
+export const x = y;
+`);
+  writeFileSync(join(fixtureBase, 'legacy/y.ts'), `const { x } = require('./x');
+export const y = x;
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('scanCircularImports', () => {
+  it('should report each cycle with the line of every import', async () => {
+    const result = await scanCircularImports(makeConfig());
+    expect(result.total).toBe(2);
+    expect(result.cycles).toContainEqual({
+      files: ['lib/orders/cart.ts', 'lib/orders/price.ts', 'lib/orders/tax.ts'],
+      lines: [2, 1, 1],
+    });
+    expect(result.cycles).toContainEqual({ files: ['legacy/x.ts', 'legacy/y.ts'], lines: [1, 1] });
+  });
+
+  it('should leave out type-only and lazy imports', async () => {
+    const result = await scanCircularImports(makeConfig());
+    const files = result.cycles.flatMap(cycle => cycle.files);
+    expect(files.some(file => file.startsWith('lib/types/'))).toBe(false);
+    expect(files.some(file => file.startsWith('lib/lazy/'))).toBe(false);
+  });
+
+  it('should skip cycles with a file matching ignore.cycles', async () => {
+    const result = await scanCircularImports(makeConfig(['legacy/**']));
+    expect(result.cycles.map(cycle => cycle.files[0])).toEqual(['lib/orders/cart.ts']);
+  });
+
+  it('should turn each cycle into one circular-import finding', async () => {
+    const config = makeConfig(['legacy/**']);
+    const result: ScanResult = { total: 0, used: 0, unused: 0, routes: [], circularImports: await scanCircularImports(config) };
+    const [finding] = collectFindings(result, config);
+    expect(finding.rule).toBe('circular-import');
+    expect(finding.message).toBe('Circular import lib/orders/cart.ts → lib/orders/price.ts → lib/orders/tax.ts → lib/orders/cart.ts');
+    expect(finding.file).toBe(join(fixtureBase, 'lib/orders/cart.ts'));
+    expect(finding.line).toBe(2);
+    expect(finding.related).toEqual([join(fixtureBase, 'lib/orders/price.ts'), join(fixtureBase, 'lib/orders/tax.ts')]);
+  });
+});
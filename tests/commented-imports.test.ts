@@ -25,6 +25,7 @@ function makeConfig(dir: string = fixtureBase): Config {
     dir,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
   };
 }
 
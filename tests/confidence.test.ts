@@ -0,0 +1,169 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { collectFindings, filterFindings } from '../src/findings.js';
+import { CONFIDENCE_REASONS, meetsConfidence, scoreConfidence } from '../src/confidence.js';
+import type { Config, ScanResult } from '../src/types.js';
+import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for confidence scoring: findings start at high confidence and each
+ * doubt recorded by the scanners (first method kept, template-only
+ * references, generic names, dynamic imports, files kept alive by
+ * ignore.files) lowers it.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/confidence-test');
+const fixFixture = join(import.meta.dir, 'fixtures/confidence-fix-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: ['tools/**'], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+let result: ScanResult;
+
+beforeAll(async () => {
+  for (const dir of ['app/api/refresh', 'app/api/users', 'app/api/orders', 'lib/locales', 'tools']) {
+    mkdirSync(join(fixtureBase, dir), { recursive: true });
+  }
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'confidence-test' }));
+  writeFileSync(join(fixtureBase, 'app/api/refresh/route.ts'), `export async function GET() { return Response.json({}); }
+export async function POST() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/orders/route.ts'), `export async function GET() { return Response.json([]); }
+`);
+  writeFileSync(join(fixtureBase, 'app/page.tsx'), `import axios from 'axios';
+import { load } from '../lib/i18n';
+import { save } from '../lib/repo';
+
+export default function Page({ entity }: { entity: string }) {
+  axios.put('/api/refresh');
+  fetch(\`/api/\${entity}\`);
+  load('en');
+  save();
+  return null;
+}
+`);
+  writeFileSync(join(fixtureBase, 'lib/i18n.ts'), 'export const load = (lang: string) => import(`./locales/${lang}`);\n');
+  writeFileSync(join(fixtureBase, 'lib/locales/en.ts'), 'export default { hello: "Hello" };\n');
+  writeFileSync(join(fixtureBase, 'lib/orphan.ts'), 'export const orphan = 1;\n');
+  writeFileSync(join(fixtureBase, 'lib/repo.ts'), `export function save() { return 1; }
+export function update() { return 2; }
+export function archive() { return 3; }
+`);
+  writeFileSync(join(fixtureBase, 'tools/export-rows.ts'), `import { rows } from '../lib/seed-data';
+console.log(rows);
+`);
+  writeFileSync(join(fixtureBase, 'lib/seed-data.ts'), `export const rows = [1, 2];
+export const extra = [3];
+`);
+
+  result = await scan(makeConfig());
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+  rmSync(fixFixture, { recursive: true, force: true });
+});
+
+describe('scoreConfidence', () => {
+  it('should start high and move by each reason', () => {
+    expect(scoreConfidence()).toBe('high');
+    expect(scoreConfidence([CONFIDENCE_REASONS.genericName.text])).toBe('medium');
+    expect(scoreConfidence([CONFIDENCE_REASONS.genericName.text, CONFIDENCE_REASONS.neverRan.text])).toBe('high');
+    expect(scoreConfidence([CONFIDENCE_REASONS.firstMethodKept.text, CONFIDENCE_REASONS.genericName.text])).toBe('low');
+  });
+
+  it('should compare levels, letting unscored findings through', () => {
+    expect(meetsConfidence('medium', 'medium')).toBe(true);
+    expect(meetsConfidence('low', 'medium')).toBe(false);
+    expect(meetsConfidence(undefined, 'high')).toBe(true);
+  });
+});
+
+describe('scan confidence', () => {
+  it('should lower routes whose first method was kept', () => {
+    const route = result.routes.find(r => r.path === '/api/refresh')!;
+    expect(route.unusedMethods).toEqual(['POST']);
+    expect(route.confidence).toBe('low');
+    expect(route.confidenceReasons).toEqual([CONFIDENCE_REASONS.firstMethodKept.text]);
+  });
+
+  it('should lower routes only a dynamic template literal could reach', () => {
+    expect(result.routes.find(r => r.path === '/api/users')!.confidence).toBe('medium');
+    const orders = result.routes.find(r => r.path === '/api/orders')!;
+    expect(orders.confidence).toBe('medium');
+    expect(orders.confidenceReasons).toEqual([CONFIDENCE_REASONS.templateReference.text]);
+  });
+
+  it('should lower exports with generic names or kept alive by ignore.files', () => {
+    const exports = result.unusedExports!.exports;
+    expect(exports.find(e => e.name === 'update')!.confidence).toBe('medium');
+    expect(exports.find(e => e.name === 'archive')!.confidence).toBe('high');
+    expect(exports.find(e => e.name === 'extra')!.confidenceReasons).toEqual([CONFIDENCE_REASONS.keptByIgnoredFile.text]);
+  });
+
+  it('should lower files in a folder loaded by a dynamic import', () => {
+    const files = result.unusedFiles!.files;
+    expect(files.find(f => f.path === 'lib/locales/en.ts')!.confidence).toBe('low');
+    expect(files.find(f => f.path === 'lib/orphan.ts')!.confidence).toBe('high');
+  });
+
+  it('should carry confidence on findings so --min-confidence can filter them', async () => {
+    const config = makeConfig();
+    const filtered = await scan(config);
+    const before = collectFindings(filtered, config);
+    expect(before.find(f => f.symbol === 'update')!.confidence).toBe('medium');
+
+    filterFindings(filtered, config, finding => meetsConfidence(finding.confidence, 'high'));
+    const after = collectFindings(filtered, config);
+    expect(after.some(f => f.symbol === 'update')).toBe(false);
+    expect(after.some(f => f.symbol === 'archive')).toBe(true);
+    expect(filtered.unusedFiles!.files.map(f => f.path)).not.toContain('lib/locales/en.ts');
+  });
+
+  it('should only fix the handlers of an unused route that meet --min-confidence', () => {
+    const routeFile = join(fixFixture, 'app/api/items/route.ts');
+    mkdirSync(join(fixFixture, 'app/api/items'), { recursive: true });
+    writeFileSync(join(fixFixture, 'package.json'), JSON.stringify({ name: 'confidence-fix-test' }));
+    writeFileSync(join(fixFixture, 'app/page.tsx'), 'export default function Page() { return null; }\n');
+    writeFileSync(routeFile, `export async function GET() {
+  return Response.json([]);
+}
+
+export async function POST() {
+  return Response.json({});
+}
+`);
+    // GET ran in the tests (low confidence), POST never did (high)
+    writeFileSync(join(fixFixture, 'lcov.info'), `TN:
+SF:${routeFile}
+FN:1,GET
+FN:5,POST
+FNDA:1,GET
+FNDA:0,POST
+end_of_record
+`);
+    // --fix refuses to run unconfirmed outside a git repository
+    execFileSync('git', ['init', '-q'], { cwd: fixFixture });
+
+    execFileSync(process.execPath, [
+      join(import.meta.dir, '../src/index.ts'),
+      '--dir', fixFixture, '--no-cache', '--fix', '--cleanup', 'routes', '--min-confidence', 'high', '--coverage', join(fixFixture, 'lcov.info'),
+    ], { env: { ...process.env, CI: '1' }, stdio: 'ignore' });
+
+    expect(existsSync(routeFile)).toBe(true);
+    const content = readFileSync(routeFile, 'utf-8');
+    expect(content).toContain('function GET');
+    expect(content).not.toContain('function POST');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { collectFindings } from '../src/findings.js';
+import { parseCoverage, wasExecuted } from '../src/coverage.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for `--coverage`: lcov and Istanbul reports annotate unused exports
+ * and route handlers with whether they ran, which sets finding confidence,
+ * and `--unexecuted` reports imported exports that never ran.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/coverage-test');
+
+const LCOV = `TN:
+SF:lib/math.ts
+FN:1,add
+FN:5,sub
+FN:9,mul
+FNDA:0,add
+FNDA:3,sub
+FNDA:0,mul
+DA:2,0
+DA:6,3
+DA:10,0
+end_of_record
+SF:app/api/users/route.ts
+FN:1,GET
+FN:4,POST
+FNDA:2,GET
+FNDA:0,POST
+end_of_record
+`;
+
+function makeConfig(unexecuted = false): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+    coverage: { file: join(fixtureBase, 'coverage/lcov.info'), unexecuted },
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'lib'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'coverage'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'coverage-test' }));
+  writeFileSync(join(fixtureBase, 'coverage/lcov.info'), LCOV);
+  writeFileSync(join(fixtureBase, 'lib/math.ts'), `export function add(a: number, b: number) {
+  return a + b;
+}
+
+export function sub(a: number, b: number) {
+  return a - b;
+}
+
+export function mul(a: number, b: number) {
+  return a * b;
+}
+`);
+  writeFileSync(join(fixtureBase, 'app/page.tsx'), `import { add } from '../lib/math';
+
+export default function Page() {
+  return <div>{add(1, 2)}</div>;
+}
+`);
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() {
+  return Response.json([]);
+}
+export async function POST() {
+  return Response.json({});
+}
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('parseCoverage', () => {
+  it('should read lcov function and line counts', () => {
+    const file = parseCoverage(LCOV).get('lib/math.ts')!;
+    expect(file.functions).toContainEqual({ name: 'sub', line: 5, hits: 3 });
+    expect(file.lines[10]).toBe(0);
+  });
+
+  it('should read Istanbul coverage-final.json', () => {
+    const data = parseCoverage(JSON.stringify({
+      '/repo/src/util.ts': {
+        path: '/repo/src/util.ts',
+        fnMap: {
+          0: { name: 'format', decl: { start: { line: 3 } }, loc: { start: { line: 3 } } },
+          1: { name: '(anonymous_1)', decl: { start: { line: 8 } }, loc: { start: { line: 8 } } },
+        },
+        f: { 0: 5, 1: 0 },
+        statementMap: { 0: { start: { line: 12 } } },
+        s: { 0: 1 },
+      },
+    }));
+    const file = data.get('/repo/src/util.ts');
+    expect(wasExecuted(file, 'format', 3)).toBe(true);
+    // Anonymous functions are found by their line
+    expect(wasExecuted(file, 'handler', 8)).toBe(false);
+    expect(wasExecuted(file, 'VERSION', 12)).toBe(true);
+    expect(wasExecuted(file, 'other', 20)).toBeUndefined();
+  });
+});
+
+describe('scan with coverage', () => {
+  it('should annotate unused exports and route handlers', async () => {
+    const result = await scan(makeConfig());
+    const exports = result.unusedExports!.exports;
+    expect(exports.find(e => e.name === 'sub')!.covered).toBe(true);
+    expect(exports.find(e => e.name === 'mul')!.covered).toBe(false);
+
+    const route = result.routes.find(r => r.path === '/api/users')!;
+    expect(route.methodCoverage).toEqual({ GET: true, POST: false });
+    expect(result.unexecutedExports).toBeUndefined();
+  });
+
+  it('should rate findings that never ran as high confidence', async () => {
+    const config = makeConfig();
+    const findings = collectFindings(await scan(config), config);
+    expect(findings.find(f => f.symbol === 'mul')!.confidence).toBe('high');
+    expect(findings.find(f => f.symbol === 'sub')!.confidence).toBe('low');
+    expect(findings.find(f => f.message === 'Unused API route handler POST /api/users')!.confidence).toBe('high');
+  });
+
+  it('should report imported exports that never ran with unexecuted', async () => {
+    const result = await scan(makeConfig(true));
+    expect(result.unexecutedExports!.exports).toEqual([{ name: 'add', file: 'lib/math.ts', line: 1 }]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scanDependencies } from '../src/scanners/dependencies.js';
+import { collectFindings } from '../src/findings.js';
+import type { Config, ScanResult } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the dependency scanner: package.json dependencies nothing
+ * imports, names in config or runs from scripts, and imported packages
+ * missing from package.json.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/dependencies-test');
+const bareBase = join(import.meta.dir, 'fixtures/dependencies-test-bare');
+const toolsBase = join(import.meta.dir, 'fixtures/dependencies-test-tools');
+
+function makeConfig(dir = fixtureBase, dependencies: string[] = []): Config {
+  return {
+    dir,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [], dependencies },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  for (const dir of ['app', 'lib', 'styles', 'node_modules/some-cli', 'packages/inner']) {
+    mkdirSync(join(fixtureBase, dir), { recursive: true });
+  }
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({
+    name: 'dependencies-test',
+    scripts: { build: 'next build', seed: 'node -r dotenv/config lib/seed.js', gen: 'somecli generate' },
+    dependencies: {
+      'lodash': '^4.0.0',
+      'left-pad': '^1.0.0',
+      'next': '^15.0.0',
+      'react': '^19.0.0',
+      'autoprefixer': '^10.0.0',
+      '@tailwindcss/forms': '^0.5.0',
+      'tailwindcss': '^4.0.0',
+      'dotenv': '^16.0.0',
+      'some-cli': '^1.0.0',
+      'legacy-sdk': '^2.0.0',
+    },
+    devDependencies: {
+      '@types/lodash': '^4.0.0',
+      '@types/left-pad': '^1.0.0',
+      '@types/node': '^22.0.0',
+      'unused-dev': '^1.0.0',
+    },
+    peerDependencies: { '@acme/ui': '*' },
+  }, null, 2));
+  writeFileSync(join(fixtureBase, 'node_modules/some-cli/package.json'), JSON.stringify({ name: 'some-cli', bin: { somecli: 'cli.js' } }));
+
+  writeFileSync(join(fixtureBase, 'postcss.config.mjs'), 'export default { plugins: { autoprefixer: {} } };\n');
+  writeFileSync(join(fixtureBase, 'tailwind.config.js'), `module.exports = { plugins: [require('@tailwindcss/forms')] };\n`);
+  writeFileSync(join(fixtureBase, 'styles/globals.css'), '@import "tailwindcss";\n');
+
+  writeFileSync(join(fixtureBase, 'app/page.tsx'), `import merge from 'lodash/merge';
+import { readFileSync } from 'node:fs';
+import path from 'path';
+import { Button } from '@acme/ui/button';
+import { helper } from '@/lib/missing';
+import { z } from 'zod';
+
+export default function Page() { return <Button>{String(merge, readFileSync, path, helper, z)}</Button>; }
+`);
+  writeFileSync(join(fixtureBase, 'lib/schema.js'), `const { z } = require('zod');
+module.exports = z.object({});
+`);
+
+  // Imports of a nested package are checked against its own package.json
+  writeFileSync(join(fixtureBase, 'packages/inner/package.json'), JSON.stringify({ name: 'inner' }));
+  writeFileSync(join(fixtureBase, 'packages/inner/index.ts'), `import { z } from 'zod';\nexport const a = z;\n`);
+
+  mkdirSync(join(bareBase, 'src'), { recursive: true });
+  writeFileSync(join(bareBase, 'src/index.ts'), `import { z } from 'zod';\nexport const a = z;\n`);
+
+  mkdirSync(join(toolsBase, 'tests'), { recursive: true });
+  writeFileSync(join(toolsBase, 'package.json'), JSON.stringify({
+    name: 'tools-test',
+    prettier: '@acme/prettier-config',
+    devDependencies: {
+      'semantic-release': '^24.0.0',
+      '@semantic-release/git': '^10.0.0',
+      'eslint': '^9.0.0',
+      '@typescript-eslint/eslint-plugin': '^8.0.0',
+      '@typescript-eslint/parser': '^8.0.0',
+      'eslint-plugin-react': '^7.0.0',
+      'eslint-config-next': '^15.0.0',
+      'eslint-plugin-unused': '^1.0.0',
+      '@acme/prettier-config': '^1.0.0',
+      'vitest': '^2.0.0',
+    },
+  }, null, 2));
+  writeFileSync(join(toolsBase, '.releaserc'), JSON.stringify({ plugins: ['@semantic-release/git'] }));
+  writeFileSync(join(toolsBase, '.eslintrc.json'), JSON.stringify({
+    parser: '@typescript-eslint/parser',
+    plugins: ['@typescript-eslint'],
+    extends: ['next', 'plugin:react/recommended'],
+  }));
+  writeFileSync(join(toolsBase, 'vitest.config.ts'), 'export default {};\n');
+  writeFileSync(join(toolsBase, 'tests/scan.test.ts'), `import { test } from 'vitest';
+const fixture = \`import { z } from 'zod';
+export const schema = \${"require('yup')"};
+\`;
+const code = "import dayjs from 'dayjs'";
+test('scan', () => [fixture, code, require('chalk')]);
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+  rmSync(bareBase, { recursive: true, force: true });
+  rmSync(toolsBase, { recursive: true, force: true });
+});
+
+describe('scanDependencies', () => {
+  it('should report dependencies nothing imports, names or runs', async () => {
+    const { unusedDependencies } = await scanDependencies(makeConfig());
+    expect(unusedDependencies!.dependencies.map(d => d.name)).toEqual(['left-pad', 'legacy-sdk', '@types/left-pad', 'unused-dev']);
+    expect(unusedDependencies!.total).toBe(14);
+    expect(unusedDependencies!.used).toBe(10);
+
+    const leftPad = unusedDependencies!.dependencies[0];
+    expect(leftPad).toEqual({ name: 'left-pad', packageJson: 'package.json', line: 10, dev: false });
+    expect(unusedDependencies!.dependencies[3].dev).toBe(true);
+  });
+
+  it('should skip dependencies matching ignore.dependencies', async () => {
+    const { unusedDependencies } = await scanDependencies(makeConfig(fixtureBase, ['legacy-*', 'unused-dev']));
+    expect(unusedDependencies!.dependencies.map(d => d.name)).toEqual(['left-pad', '@types/left-pad']);
+  });
+
+  it('should report imported packages missing from package.json with each import', async () => {
+    const { unlistedDependencies } = await scanDependencies(makeConfig());
+    expect(unlistedDependencies!.dependencies).toEqual([
+      { name: 'zod', packageJson: 'package.json', references: ['app/page.tsx:6', 'lib/schema.js:1'] },
+    ]);
+  });
+
+  it('should read imports when the directory has a trailing slash, like the default --dir ./', async () => {
+    const { unusedDependencies, unlistedDependencies } = await scanDependencies(makeConfig(`${fixtureBase}/`));
+    expect(unusedDependencies!.dependencies.map(d => d.name)).toEqual(['left-pad', 'legacy-sdk', '@types/left-pad', 'unused-dev']);
+    expect(unlistedDependencies!.dependencies.map(d => d.name)).toEqual(['zod']);
+  });
+
+  it('should count tools named by rc files, ESLint shorthands and package.json tool sections', async () => {
+    const { unusedDependencies } = await scanDependencies(makeConfig(toolsBase));
+    expect(unusedDependencies!.dependencies.map(d => d.name)).toEqual(['eslint-plugin-unused']);
+  });
+
+  it('should only count imports in code, not in strings and template literals', async () => {
+    const { unlistedDependencies } = await scanDependencies(makeConfig(toolsBase));
+    expect(unlistedDependencies!.dependencies.map(d => d.name)).toEqual(['chalk']);
+  });
+
+  it('should skip apps without a package.json', async () => {
+    expect(await scanDependencies(makeConfig(bareBase))).toEqual({});
+  });
+
+  it('should turn results into unused-dependency and unlisted-dependency findings', async () => {
+    const config = makeConfig(fixtureBase, ['legacy-*', 'unused-dev', '@types/*']);
+    const result: ScanResult = { total: 0, used: 0, unused: 0, routes: [], ...await scanDependencies(config) };
+    const findings = collectFindings(result, config);
+    expect(findings.map(f => [f.rule, f.symbol, f.line])).toEqual([
+      ['unused-dependency', 'left-pad', 10],
+      ['unlisted-dependency', 'zod', 6],
+      ['unlisted-dependency', 'zod', 1],
+    ]);
+    expect(findings[1].related).toEqual([join(fixtureBase, 'package.json')]);
+  });
+});
@@ -20,6 +20,7 @@ function makeConfig(overrides?: Partial<Config>): Config {
     dir: fixtureBase,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
@@ -30,6 +30,7 @@ function makeConfig(): Config {
     dir: fixtureBase,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
   };
 }
 
@@ -112,7 +113,7 @@ describe('Issue #38: next/dynamic magic comment + "use server" chain reachabilit
     writeFileSync(join(edgeBase, 'components/Widget.tsx'), `import { helper } from '../lib/helper';\nexport default function Widget() { helper(); return null; }\n`);
     writeFileSync(join(edgeBase, 'lib/helper.ts'), `export function helper() { return 42; }\n`);
 
-    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'] };
+    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'], cache: false };
     const result = await scanUnusedFiles(cfg);
     const unusedPaths = result.files.map(f => f.path);
 
@@ -137,7 +138,7 @@ describe('Issue #38: next/dynamic magic comment + "use server" chain reachabilit
     writeFileSync(join(edgeBase, 'components/Widget.tsx'), `import { helper } from '../lib/helper';\nexport default function Widget() { helper(); return null; }\n`);
     writeFileSync(join(edgeBase, 'lib/helper.ts'), `export function helper() { return 42; }\n`);
 
-    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'] };
+    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'], cache: false };
     const result = await scanUnusedFiles(cfg);
     const unusedPaths = result.files.map(f => f.path);
 
@@ -162,7 +163,7 @@ describe('Issue #38: next/dynamic magic comment + "use server" chain reachabilit
     writeFileSync(join(edgeBase, 'components/Widget.tsx'), `import { helper } from '../lib/helper';\nexport default function Widget() { helper(); return null; }\n`);
     writeFileSync(join(edgeBase, 'lib/helper.ts'), `export function helper() { return 42; }\n`);
 
-    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'] };
+    const cfg: Config = { dir: edgeBase, ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] }, extensions: ['.ts', '.tsx', '.js', '.jsx'], cache: false };
     const result = await scanUnusedFiles(cfg);
     const unusedPaths = result.files.map(f => f.path);
 
@@ -28,6 +28,7 @@ function makeConfig(overrides: Partial<Config> = {}): Config {
       links: [],
     },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
@@ -0,0 +1,140 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { createFileIndex } from '../src/file-index.js';
+import { scanUnusedServices } from '../src/scanners/unused-services.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the shared file index used by all scanners in one scan() run:
+ * one glob per root filtered per scanner (patterns, ignores, dot files),
+ * and one read per file.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/file-index-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src/legacy'), { recursive: true });
+  mkdirSync(join(fixtureBase, '.storybook'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'node_modules/pkg'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() {}\n`);
+  writeFileSync(join(fixtureBase, 'src/legacy/old.ts'), `// old helper\nexport const old = 1;\n`);
+  writeFileSync(join(fixtureBase, 'src/index.ts'), `export const main = 1;\n`);
+  writeFileSync(join(fixtureBase, 'src/notes.md'), `# not source\n`);
+  writeFileSync(join(fixtureBase, '.storybook/main.ts'), `export default {};\n`);
+  writeFileSync(join(fixtureBase, 'node_modules/pkg/index.js'), `module.exports = {};\n`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('File index', () => {
+  it('should list source files, skipping ignore.folders and dot folders by default', async () => {
+    const index = createFileIndex(makeConfig());
+    const files = await index.glob('**/*.{ts,tsx,js,jsx}', { cwd: fixtureBase });
+    expect(files.sort()).toEqual(['app/api/users/route.ts', 'src/index.ts', 'src/legacy/old.ts']);
+  });
+
+  it('should include dot folders on request and return absolute paths', async () => {
+    const index = createFileIndex(makeConfig());
+    const files = await index.glob('**/*.ts', { cwd: fixtureBase, dot: true, absolute: true });
+    expect(files).toContain(join(fixtureBase, '.storybook/main.ts'));
+  });
+
+  it('should apply per-call patterns and ignores, including bare directory ignores', async () => {
+    const index = createFileIndex(makeConfig());
+    expect(await index.glob('app/api/**/route.ts', { cwd: fixtureBase })).toEqual(['app/api/users/route.ts']);
+
+    const files = await index.glob('**/*.ts', { cwd: fixtureBase, ignore: ['src/legacy', 'app/**'] });
+    expect(files).toEqual(['src/index.ts']);
+  });
+
+  it('should read each file once and cache comment-stripped content', () => {
+    const index = createFileIndex(makeConfig());
+    const file = join(fixtureBase, 'src/legacy/old.ts');
+
+    expect(index.read(file)).toContain('// old helper');
+    expect(index.readStripped(file)).not.toContain('old helper');
+
+    writeFileSync(file, `export const changed = 1;\n`);
+    expect(index.read(file)).toContain('export const old');
+    expect(index.cached(file)).toBe(index.read(file));
+  });
+
+  it('should throw like readFileSync for unreadable files', () => {
+    const index = createFileIndex(makeConfig());
+    expect(() => index.read(join(fixtureBase, 'missing.ts'))).toThrow();
+  });
+});
+
+describe('Service files through the file index', () => {
+  const servicesBase = join(import.meta.dir, 'fixtures/file-index-services-test');
+
+  beforeAll(() => {
+    mkdirSync(join(servicesBase, 'src/users'), { recursive: true });
+    mkdirSync(join(servicesBase, 'src/legacy'), { recursive: true });
+    mkdirSync(join(servicesBase, 'scripts'), { recursive: true });
+    writeFileSync(join(servicesBase, 'src/users/users.service.ts'), `export class UsersService {
+  findAll() { return []; }
+  purge() { return 0; }
+}
+`);
+    writeFileSync(join(servicesBase, 'src/users/users.controller.ts'), `import { UsersService } from './users.service';
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+  list() { return this.usersService.findAll(); }
+}
+`);
+    writeFileSync(join(servicesBase, 'src/legacy/old.service.ts'), `export class OldService {
+  migrate() { return 1; }
+}
+`);
+    writeFileSync(join(servicesBase, 'scripts/seed.ts'), `import { UsersService } from '../src/users/users.service';
+class Seeder {
+  constructor(private readonly usersService: UsersService) {}
+  run() { return this.usersService.purge(); }
+}
+`);
+  });
+
+  afterAll(() => {
+    rmSync(servicesBase, { recursive: true, force: true });
+  });
+
+  const servicesConfig = (extensions: string[]): Config => ({
+    ...makeConfig(),
+    dir: servicesBase,
+    ignore: { routes: [], folders: ['**/node_modules/**', '**/scripts/**', '**/legacy/**'], files: [], links: [] },
+    extensions,
+  });
+
+  it('should apply ignore.folders to service files and their callers', async () => {
+    const config = servicesConfig(['.ts', '.tsx', '.js', '.jsx']);
+    config.fileIndex = createFileIndex(config);
+    const result = await scanUnusedServices(config);
+    expect(result.methods.map(m => `${m.file}:${m.name}`)).toEqual(['src/users/users.service.ts:purge']);
+  });
+
+  it('should list service files even when config.extensions leaves .ts out', async () => {
+    const config = servicesConfig(['.js']);
+    const index = createFileIndex(config);
+    expect(await index.glob('**/*', { cwd: servicesBase })).toEqual([]);
+    expect((await index.glob('**/*.service.ts', { cwd: servicesBase, extensions: ['.ts'] })).sort()).toEqual(['src/users/users.service.ts']);
+
+    config.fileIndex = index;
+    const result = await scanUnusedServices(config);
+    expect(result.methods.map(m => m.name)).toEqual(['purge']);
+  });
+});
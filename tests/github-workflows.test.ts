@@ -11,6 +11,7 @@ function makeConfig(overrides?: Partial<Config>): Config {
     dir: fixtureDir,
     ignore: { routes: [], folders: ['node_modules'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
@@ -0,0 +1,88 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { createModuleGraph, toDot, toMermaid } from '../src/graph.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for `pruny graph`: the import graph with tsconfig aliases resolved,
+ * reachability from entry points, folder filtering and DOT/Mermaid output.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/graph-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  for (const dir of ['app', 'lib/billing', 'lib/legacy']) {
+    mkdirSync(join(fixtureBase, dir), { recursive: true });
+  }
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'graph-test' }));
+  writeFileSync(join(fixtureBase, 'tsconfig.json'), JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['lib/*'] } } }));
+  writeFileSync(join(fixtureBase, 'app/page.tsx'), `import { total } from '@lib/billing/total';
+export default function Page() { return total(); }
+`);
+  writeFileSync(join(fixtureBase, 'lib/billing/total.ts'), `import { round } from './round';
+export const total = () => round(1);
+`);
+  writeFileSync(join(fixtureBase, 'lib/billing/round.ts'), 'export const round = (n: number) => Math.round(n);\n');
+  writeFileSync(join(fixtureBase, 'lib/legacy/report.ts'), `import { format } from './format';
+import { round } from '../billing/round';
+export const report = () => format(round(2));
+`);
+  writeFileSync(join(fixtureBase, 'lib/legacy/format.ts'), 'export const format = (n: number) => String(n);\n');
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('createModuleGraph', () => {
+  it('should include alias and relative import edges with reachability', async () => {
+    const graph = await createModuleGraph(makeConfig());
+    expect(graph.edges).toContainEqual({ from: 'app/page.tsx', to: 'lib/billing/total.ts' });
+    expect(graph.edges).toContainEqual({ from: 'lib/legacy/report.ts', to: 'lib/billing/round.ts' });
+
+    const byId = new Map(graph.nodes.map(node => [node.id, node]));
+    expect(byId.get('app/page.tsx')!.entry).toBe('**/page.{ts,tsx,js,jsx}');
+    expect(byId.get('lib/billing/round.ts')!.reachable).toBe(true);
+    expect(byId.get('lib/legacy/report.ts')!.reachable).toBe(false);
+    expect(byId.get('lib/legacy/format.ts')!.reachable).toBe(false);
+  });
+
+  it('should keep only files and edges inside the folder', async () => {
+    const graph = await createModuleGraph(makeConfig(), { folder: './lib/legacy/' });
+    expect(graph.nodes.map(node => node.id).sort()).toEqual(['lib/legacy/format.ts', 'lib/legacy/report.ts']);
+    expect(graph.edges).toEqual([{ from: 'lib/legacy/report.ts', to: 'lib/legacy/format.ts' }]);
+  });
+});
+
+describe('graph output', () => {
+  it('should render DOT clusters per folder and highlight unreachable files', async () => {
+    const dot = toDot(await createModuleGraph(makeConfig()), true);
+    expect(dot).toStartWith('digraph pruny {');
+    expect(dot).toContain('label="lib/legacy";');
+    expect(dot).toContain('"lib/legacy/format.ts" [label="format.ts", fillcolor="#fdd", color="#c00", style="rounded,filled"];');
+    expect(dot).toContain('"app/page.tsx" -> "lib/billing/total.ts";');
+  });
+
+  it('should render a Mermaid flowchart with an unreachable class', async () => {
+    const graph = await createModuleGraph(makeConfig());
+    const mermaid = toMermaid(graph, true);
+    const id = (file: string) => `n${graph.nodes.findIndex(node => node.id === file)}`;
+
+    expect(mermaid).toStartWith('flowchart LR');
+    expect(mermaid).toContain(`${id('app/page.tsx')}[["page.tsx"]]`);
+    expect(mermaid).toContain(`${id('lib/legacy/report.ts')} --> ${id('lib/legacy/format.ts')}`);
+    expect(mermaid).toContain(`class ${id('lib/legacy/format.ts')},${id('lib/legacy/report.ts')} unreachable`);
+    expect(toMermaid(graph)).not.toContain('classDef');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { loadConfig } from '../src/config.js';
+import { buildHttpClientPatterns, extractApiReferences } from '../src/patterns.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the `httpClients` config: project-specific wrappers
+ * (`backend.get()`, `$fetch()`, `request({ url, method })`) become
+ * http-client references with the method taken from where the config says.
+ */
+
+describe('buildHttpClientPatterns', () => {
+  it('should take the method from the member name of a receiver', () => {
+    const patterns = buildHttpClientPatterns([{ receivers: ['backend'] }]);
+    const code = `await backend.delete('/users/1'); this.backend.get(\`/users/\${id}\`);`;
+    const refs = extractApiReferences(code, patterns);
+    expect(refs).toContainEqual({ path: '/users/1', method: 'DELETE', source: 'http-client', offset: code.indexOf('/users/1') });
+    expect(refs).toContainEqual({ path: '/users/${id}', method: 'GET', source: 'http-client', offset: code.indexOf('/users/${id}') });
+  });
+
+  it('should read the method from an options object of a function call', () => {
+    const patterns = buildHttpClientPatterns([{ functions: ['$fetch', 'ofetch'], method: { option: 'method' } }]);
+    const code = `$fetch('/users', { method: 'post' }); ofetch('/health');`;
+    const refs = extractApiReferences(code, patterns);
+    expect(refs).toContainEqual({ path: '/users', method: 'POST', source: 'http-client', offset: code.indexOf('/users') });
+    expect(refs).toContainEqual({ path: '/health', method: undefined, source: 'http-client', offset: code.indexOf('/health') });
+  });
+
+  it('should read the URL from an option key or argument index', () => {
+    const patterns = buildHttpClientPatterns([
+      { functions: ['request'], url: { option: 'url' }, method: { option: 'method' } },
+      { functions: ['call'], url: 1, method: 'PUT' },
+    ]);
+    const code = `request({ method: 'PATCH', url: '/users/1' }); call(ctx, '/settings');`;
+    const refs = extractApiReferences(code, patterns);
+    expect(refs).toContainEqual({ path: '/users/1', method: 'PATCH', source: 'http-client', offset: code.indexOf('/users/1') });
+    expect(refs).toContainEqual({ path: '/settings', method: 'PUT', source: 'http-client', offset: code.indexOf('/settings') });
+  });
+
+  it('should not match other identifiers ending in a configured name', () => {
+    const patterns = buildHttpClientPatterns([{ receivers: ['backend'], functions: ['request'] }]);
+    const refs = extractApiReferences(`mybackend.get('/users'); sendrequest('/users');`, patterns);
+    expect(refs.some(r => r.path === '/users')).toBe(false);
+  });
+});
+
+describe('httpClients config in a NestJS scan', () => {
+  const fixtureBase = join(import.meta.dir, 'fixtures/http-clients-test');
+
+  function makeConfig(): Config {
+    return { ...loadConfig({ dir: fixtureBase }), cache: false };
+  }
+
+  beforeAll(() => {
+    mkdirSync(join(fixtureBase, 'src/users'), { recursive: true });
+    mkdirSync(join(fixtureBase, 'web'), { recursive: true });
+
+    writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({
+      dependencies: { '@nestjs/common': '^10.0.0' },
+    }));
+    writeFileSync(join(fixtureBase, 'pruny.config.json'), JSON.stringify({
+      httpClients: [
+        { receivers: ['backend'] },
+        { functions: ['request'], url: { option: 'url' }, method: { option: 'method' } },
+      ],
+    }));
+
+    writeFileSync(join(fixtureBase, 'src/users/users.controller.ts'), `import { Controller, Get, Post, Delete } from '@nestjs/common';
+
+@Controller('users')
+export class UsersController {
+  @Get()
+  findAll() { return []; }
+
+  @Post()
+  create() { return {}; }
+
+  @Delete(':id')
+  remove() { return {}; }
+}
+`);
+    writeFileSync(join(fixtureBase, 'web/users.ts'), `export const listUsers = () => backend.get('/users');
+export const createUser = (body: unknown) => request({ url: '/users', method: 'POST', body });
+`);
+  });
+
+  afterAll(() => {
+    rmSync(fixtureBase, { recursive: true, force: true });
+  });
+
+  it('should load httpClients from the config file', () => {
+    expect(makeConfig().httpClients).toHaveLength(2);
+  });
+
+  it('should mark only the methods called through the configured clients as used', async () => {
+    const result = await scan(makeConfig());
+    const route = result.routes.find(r => r.type === 'nestjs' && r.path === '/users');
+    expect(route?.used).toBe(true);
+    expect(route?.unusedMethods).toEqual([]);
+
+    const remove = result.routes.find(r => r.type === 'nestjs' && r.path === '/users/:id');
+    expect(remove?.used).toBe(false);
+  });
+});
@@ -24,6 +24,7 @@ function makeConfig(dir: string, ignoreFiles: string[]): Config {
     dir,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: ignoreFiles, links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
   };
 }
 
@@ -0,0 +1,70 @@
+import { describe, expect, it, beforeAll, afterAll, spyOn } from 'bun:test';
+import { scan, loadConfig, collectFindings } from '../src/lib.js';
+import type { Config } from '../src/lib.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the programmatic API: scanning through the library entry point
+ * returns the result without writing anything to the console, and progress
+ * only reaches a reporter the caller passes in.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/lib-test');
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return { ...loadConfig({ dir: fixtureBase }), cache: false, ...overrides };
+}
+
+/** Run `fn` and return everything written to stdout, stderr and console meanwhile */
+async function captureOutput(fn: () => Promise<unknown>): Promise<string[]> {
+  const written: string[] = [];
+  const spies = [
+    spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array) => { written.push(String(chunk)); return true; }),
+    spyOn(process.stderr, 'write').mockImplementation((chunk: string | Uint8Array) => { written.push(String(chunk)); return true; }),
+    spyOn(console, 'log').mockImplementation((...args: unknown[]) => { written.push(args.join(' ')); }),
+    spyOn(console, 'error').mockImplementation((...args: unknown[]) => { written.push(args.join(' ')); }),
+  ];
+  try {
+    await fn();
+  } finally {
+    spies.forEach(spy => spy.mockRestore());
+  }
+  return written;
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'lib-test' }));
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }\n`);
+  writeFileSync(join(fixtureBase, 'src/utils.ts'), `export function orphanHelper() { return 1; }\n`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Programmatic API', () => {
+  it('should return the scan result without printing anything', async () => {
+    const config = makeConfig();
+    let findings: ReturnType<typeof collectFindings> = [];
+
+    const written = await captureOutput(async () => {
+      findings = collectFindings(await scan(config), config);
+    });
+
+    expect(written).toEqual([]);
+    expect(findings.map(f => f.rule)).toContain('unused-route');
+    expect(findings.some(f => f.rule === 'unused-export' && f.message.includes('orphanHelper'))).toBe(true);
+  });
+
+  it('should send progress to a provided reporter', async () => {
+    const progress: string[] = [];
+    const written = await captureOutput(() => scan(makeConfig({ reporter: { write: text => progress.push(text) } })));
+
+    expect(written).toEqual([]);
+    expect(progress.join('')).toContain('Scanning source files');
+  });
+});
@@ -10,6 +10,7 @@ function makeConfig(overrides?: Partial<Config>): Config {
     dir: FIXTURE_DIR,
     ignore: { routes: [], folders: [], files: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
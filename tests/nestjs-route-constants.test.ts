@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { resolveStringConstant } from '../src/scanners/broken-links.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for NestJS decorator paths given as arrays, constants and enum members:
+ * arrays expand into one route per path and constants are resolved through
+ * imports, so centralized route strings don't collapse into empty paths.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/nestjs-route-constants-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'src/common'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src/users'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({
+    dependencies: { '@nestjs/common': '^10.0.0' },
+  }));
+  writeFileSync(join(fixtureBase, 'tsconfig.json'), JSON.stringify({
+    compilerOptions: { baseUrl: '.', paths: { '@common/*': ['src/common/*'] } },
+  }));
+
+  writeFileSync(join(fixtureBase, 'src/common/routes.ts'), `export const BASE = 'accounts';
+
+export const ROUTES = {
+  USERS: {
+    PROFILE: 'profile',
+    SETTINGS: \`\${BASE}/settings\`,
+  },
+} as const;
+
+export enum AuditRoute {
+  List = 'audit',
+  Export = 'audit/export',
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/users/users.controller.ts'), `import { Controller, Get, Post, Delete } from '@nestjs/common';
+import { ROUTES } from '../common/routes';
+import { AuditRoute } from '@common/routes';
+import * as paths from '../common/routes';
+
+const LOCAL = 'local';
+
+@Controller(['v1/users', 'users'])
+export class UsersController {
+  @Get(ROUTES.USERS.PROFILE)
+  profile() { return {}; }
+
+  @Get(['me', 'self'])
+  me() { return {}; }
+
+  @Post(ROUTES.USERS.SETTINGS)
+  settings() { return {}; }
+
+  @Get(AuditRoute.Export)
+  exportAudit() { return []; }
+
+  @Get(paths.BASE)
+  accounts() { return []; }
+
+  @Delete(LOCAL)
+  local() { return null; }
+
+  @Get(UNKNOWN_ROUTE)
+  unknown() { return null; }
+}
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('NestJS array and constant route paths', () => {
+  it('should expand controller and handler arrays into separate routes', async () => {
+    const result = await scan(makeConfig());
+    const paths = result.routes.map(r => r.path);
+
+    for (const prefix of ['/v1/users', '/users']) {
+      expect(paths).toContain(`${prefix}/me`);
+      expect(paths).toContain(`${prefix}/self`);
+    }
+  });
+
+  it('should resolve imported constants, enums, namespaces and local consts', async () => {
+    const result = await scan(makeConfig());
+    const routes = result.routes.filter(r => r.path.startsWith('/users/')).map(r => `${r.methods.join(',')} ${r.path}`).sort();
+
+    expect(routes).toEqual([
+      'DELETE /users/local',
+      'GET /users/accounts',
+      'GET /users/audit/export',
+      'GET /users/me',
+      'GET /users/profile',
+      'GET /users/self',
+      'POST /users/accounts/settings',
+    ]);
+  });
+
+  it('should skip handlers whose path cannot be resolved', async () => {
+    const result = await scan(makeConfig());
+    const unknown = result.routes.filter(r => Object.values(r.methodNames ?? {}).includes('unknown'));
+
+    expect(unknown).toEqual([]);
+  });
+
+  it('should return null for unresolvable expressions', () => {
+    expect(resolveStringConstant('MISSING.VALUE', '', join(fixtureBase, 'src/x.ts'), fixtureBase, new Map())).toBeNull();
+    expect(resolveStringConstant("['a', `b`]", '', join(fixtureBase, 'src/x.ts'), fixtureBase, new Map())).toEqual(['a', 'b']);
+  });
+});
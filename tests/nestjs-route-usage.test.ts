@@ -24,6 +24,7 @@ function makeFixture(name: string) {
         dir,
         ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
         extensions: ['.ts', '.tsx', '.js', '.jsx'],
+        cache: false,
         ...overrides,
       };
     },
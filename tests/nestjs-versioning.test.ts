@@ -0,0 +1,171 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for NestJS effective route paths: URI versioning from main.ts,
+ * @Controller({ path, version }), @Version() on handlers and RouterModule
+ * prefixes all become part of the path clients must call.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/nestjs-versioning-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'src/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src/admin/reports'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'web'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({
+    dependencies: { '@nestjs/common': '^10.0.0', '@nestjs/core': '^10.0.0' },
+  }));
+
+  writeFileSync(join(fixtureBase, 'src/main.ts'), `import { NestFactory } from '@nestjs/core';
+import { VersioningType } from '@nestjs/common';
+import { AppModule } from './app.module';
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  app.setGlobalPrefix('api');
+  app.enableVersioning({
+    type: VersioningType.URI,
+    defaultVersion: '1',
+  });
+  await app.listen(3000);
+}
+bootstrap();
+`);
+
+  writeFileSync(join(fixtureBase, 'src/app.module.ts'), `import { Module } from '@nestjs/common';
+import { RouterModule, Routes } from '@nestjs/core';
+import { UsersModule } from './users/users.module';
+import { AdminModule } from './admin/admin.module';
+import { ReportsModule } from './admin/reports/reports.module';
+
+const routes: Routes = [
+  {
+    path: 'admin',
+    module: AdminModule,
+    children: [{ path: 'reports', module: ReportsModule }],
+  },
+];
+
+@Module({
+  imports: [UsersModule, AdminModule, ReportsModule, RouterModule.register(routes)],
+})
+export class AppModule {}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/users/users.module.ts'), `import { Module } from '@nestjs/common';
+import { UsersController } from './users.controller';
+
+@Module({ controllers: [UsersController] })
+export class UsersModule {}
+`);
+  writeFileSync(join(fixtureBase, 'src/users/users.controller.ts'), `import { Controller, Get, Post, Version, VERSION_NEUTRAL } from '@nestjs/common';
+
+@Controller({ path: 'users', version: ['1', '2'] })
+export class UsersController {
+  @Get()
+  findAll() { return []; }
+
+  @Version('3')
+  @Post()
+  create() { return {}; }
+
+  @Get('health')
+  @Version(VERSION_NEUTRAL)
+  health() { return 'ok'; }
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/admin/admin.module.ts'), `import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+
+@Module({ controllers: [AdminController] })
+export class AdminModule {}
+`);
+  writeFileSync(join(fixtureBase, 'src/admin/admin.controller.ts'), `import { Controller, Get } from '@nestjs/common';
+
+@Controller('settings')
+export class AdminController {
+  @Get()
+  get() { return {}; }
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/admin/reports/reports.module.ts'), `import { Module } from '@nestjs/common';
+import { ReportsController } from './reports.controller';
+
+@Module({ controllers: [ReportsController] })
+export class ReportsModule {}
+`);
+  writeFileSync(join(fixtureBase, 'src/admin/reports/reports.controller.ts'), `import { Controller, Get, Delete, Param } from '@nestjs/common';
+
+@Controller()
+export class ReportsController {
+  @Get(':id')
+  findOne(@Param('id') id: string) { return id; }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) { return id; }
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'web/client.ts'), `import axios from 'axios';
+
+export const listUsers = () => axios.get('/api/v2/users');
+export const createUser = () => axios.post('/api/v3/users', {});
+export const getReport = (id: string) => axios.get(\`/api/v1/admin/reports/\${id}\`);
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('NestJS versioning and RouterModule prefixes', () => {
+  it('should expand controller and handler versions into URI segments', async () => {
+    const result = await scan(makeConfig());
+    const userRoutes = result.routes
+      .filter(r => r.filePath.endsWith('users.controller.ts'))
+      .map(r => `${r.methods.join(',')} ${r.path}`)
+      .sort();
+
+    expect(userRoutes).toEqual([
+      'GET /api/users/health',
+      'GET /api/v1/users',
+      'GET /api/v2/users',
+      'POST /api/v3/users',
+    ]);
+  });
+
+  it('should apply the default version and nested RouterModule paths', async () => {
+    const result = await scan(makeConfig());
+    const paths = result.routes.map(r => r.path);
+
+    expect(paths).toContain('/api/v1/admin/settings');
+    expect(paths).toContain('/api/v1/admin/reports/:id');
+  });
+
+  it('should match client calls against the versioned paths', async () => {
+    const result = await scan(makeConfig());
+    const byPath = Object.fromEntries(result.routes.map(r => [r.path, r]));
+
+    expect(byPath['/api/v2/users'].used).toBe(true);
+    expect(byPath['/api/v1/users'].used).toBe(false);
+    expect(byPath['/api/v3/users'].used).toBe(true);
+    expect(byPath['/api/v1/admin/reports/:id'].unusedMethods).toEqual(['DELETE']);
+    expect(byPath['/api/v1/admin/settings'].used).toBe(false);
+  });
+});
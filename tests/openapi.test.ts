@@ -0,0 +1,145 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { loadConfig } from '../src/config.js';
+import { collectFindings } from '../src/findings.js';
+import { parseOpenApiSpec, parseYaml } from '../src/openapi.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the `openapi` config: spec operations either mark matching
+ * routes as used (consumer mode) or are diffed against the route handlers
+ * (contract mode). Specs may be JSON or YAML.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/openapi-test');
+
+const SPEC_YAML = `openapi: 3.0.3
+info:
+  title: Partner API # published to partners
+  description: |
+    Endpoints called by partner integrations.
+servers:
+  - url: https://api.example.com/api
+paths:
+  /users:
+    get:
+      summary: List users
+      tags: [users, "public"]
+  '/users/{id}':
+    parameters:
+      - name: id
+        in: path
+        required: true
+    get:
+      operationId: getUser
+  /reports:
+    post:
+      summary: Create a report
+`;
+
+function makeConfig(mode?: 'consumer' | 'contract'): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+    openapi: { specs: ['openapi.yaml'], mode },
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/api/users/[id]'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/api/internal'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'openapi-test' }));
+  writeFileSync(join(fixtureBase, 'openapi.yaml'), SPEC_YAML);
+
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }
+export async function POST() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/users/[id]/route.ts'), `export async function GET() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/internal/route.ts'), `export async function GET() { return Response.json({}); }
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('parseYaml', () => {
+  it('should parse mappings, sequences, flow collections and block scalars', () => {
+    const doc = parseYaml(SPEC_YAML) as {
+      info: { title: string; description: string };
+      servers: unknown[];
+      paths: Record<string, { get: { tags?: string[] }; parameters?: unknown[] }>;
+    };
+    expect(doc.info.title).toBe('Partner API');
+    expect(doc.info.description).toBe('Endpoints called by partner integrations.');
+    expect(doc.servers).toEqual([{ url: 'https://api.example.com/api' }]);
+    expect(doc.paths['/users'].get.tags).toEqual(['users', 'public']);
+    expect(doc.paths['/users/{id}'].parameters?.[0]).toEqual({ name: 'id', in: 'path', required: true });
+  });
+});
+
+describe('parseOpenApiSpec', () => {
+  it('should list operations with base paths and spec lines', () => {
+    const operations = parseOpenApiSpec(SPEC_YAML, 'openapi.yaml');
+    expect(operations.map(op => `${op.method} ${op.path}`)).toEqual(['GET /users', 'GET /users/{id}', 'POST /reports']);
+    expect(operations[0].basePaths).toEqual(['/api']);
+    expect(operations[2].line).toBe(SPEC_YAML.split('\n').indexOf('    post:') + 1);
+  });
+
+  it('should read JSON specs and Swagger 2 basePath', () => {
+    const operations = parseOpenApiSpec(JSON.stringify({
+      swagger: '2.0',
+      basePath: '/v1',
+      paths: { '/health': { get: {}, head: {} } },
+    }, null, 2), 'swagger.json');
+    expect(operations.map(op => `${op.method} ${op.path}`)).toEqual(['GET /health', 'HEAD /health']);
+    expect(operations[0].basePaths).toEqual(['/v1']);
+  });
+});
+
+describe('openapi consumer mode', () => {
+  it('should mark the methods listed in the spec as used', async () => {
+    const result = await scan(makeConfig());
+    const users = result.routes.find(r => r.path === '/api/users');
+    expect(users?.used).toBe(true);
+    expect(users?.references).toContain('(openapi)');
+    expect(users?.unusedMethods).toEqual(['POST']);
+
+    expect(result.routes.find(r => r.path === '/api/users/[id]')?.used).toBe(true);
+    expect(result.routes.find(r => r.path === '/api/internal')?.used).toBe(false);
+    expect(result.openapi).toBeUndefined();
+  });
+
+  it('should resolve spec paths against the config file folder', () => {
+    writeFileSync(join(fixtureBase, 'pruny.config.json'), JSON.stringify({ openapi: { specs: ['openapi.yaml'], mode: 'contract' } }));
+    try {
+      const config = loadConfig({ dir: fixtureBase });
+      expect(config.openapi).toEqual({ specs: [join(fixtureBase, 'openapi.yaml')], mode: 'contract' });
+    } finally {
+      rmSync(join(fixtureBase, 'pruny.config.json'));
+    }
+  });
+});
+
+describe('openapi contract mode', () => {
+  it('should report operations without a handler and handlers missing from the spec', async () => {
+    const config = makeConfig('contract');
+    const result = await scan(config);
+
+    expect(result.openapi?.operations).toBe(3);
+    expect(result.openapi?.missingHandlers.map(op => `${op.method} ${op.path}`)).toEqual(['POST /reports']);
+    expect(result.openapi?.undocumentedRoutes.map(r => `${r.method} ${r.path}`).sort()).toEqual(['GET /api/internal', 'POST /api/users']);
+    // The spec is a contract here, not a list of consumers
+    expect(result.routes.find(r => r.path === '/api/users')?.references).not.toContain('(openapi)');
+
+    const rules = collectFindings(result, config).map(f => f.rule);
+    expect(rules.filter(r => r === 'openapi-missing-handler')).toHaveLength(1);
+    expect(rules.filter(r => r === 'undocumented-route')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for Next.js Pages Router API routes (pages/api/**): file paths map to
+ * routes with dynamic segments, and methods are inferred from req.method checks.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/pages-router-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'pages/api/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'pages/api/reports'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'pages-router-test' }));
+
+  // Method-agnostic handler
+  writeFileSync(join(fixtureBase, 'pages/api/health.ts'),
+    `export default function handler(req, res) { res.status(200).json({ ok: true }); }\n`
+  );
+  // Methods from if-branches
+  writeFileSync(join(fixtureBase, 'pages/api/users/[id].ts'), `export default async function handler(req, res) {
+  if (req.method === 'GET') {
+    return res.json({});
+  }
+  if (req.method === 'DELETE') {
+    return res.status(204).end();
+  }
+  res.status(405).end();
+}
+`);
+  // Methods from a switch, index file
+  writeFileSync(join(fixtureBase, 'pages/api/reports/index.ts'), `export default function handler(req, res) {
+  switch (req.method) {
+    case 'GET':
+      return res.json([]);
+    case "POST":
+      return res.status(201).json({});
+  }
+}
+`);
+  // Not a route
+  writeFileSync(join(fixtureBase, 'pages/api/_helpers.ts'), `export const noop = () => {};\n`);
+
+  writeFileSync(join(fixtureBase, 'src/client.ts'), `import axios from 'axios';
+export const loadUser = (id: string) => axios.get(\`/api/users/\${id}\`);
+export const listReports = () => fetch('/api/reports');
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Pages Router API routes', () => {
+  it('should map pages/api files to routes', async () => {
+    const result = await scan(makeConfig());
+    const paths = result.routes.map(r => r.path).sort();
+
+    expect(paths).toEqual(['/api/health', '/api/reports', '/api/users/[id]']);
+    expect(result.routes.every(r => r.type === 'nextjs' && r.router === 'pages')).toBe(true);
+  });
+
+  it('should treat handlers without method checks as method-agnostic', async () => {
+    const result = await scan(makeConfig());
+    const health = result.routes.find(r => r.path === '/api/health')!;
+
+    expect(health.methods).toEqual([]);
+    expect(health.used).toBe(false);
+  });
+
+  it('should infer methods from req.method checks and switch cases', async () => {
+    const result = await scan(makeConfig());
+    const user = result.routes.find(r => r.path === '/api/users/[id]')!;
+    const reports = result.routes.find(r => r.path === '/api/reports')!;
+
+    expect(user.methods).toEqual(['GET', 'DELETE']);
+    expect(user.methodLines).toEqual({ GET: 2, DELETE: 5 });
+    expect(user.used).toBe(true);
+    expect(user.unusedMethods).toEqual(['DELETE']);
+
+    expect(reports.methods).toEqual(['GET', 'POST']);
+    expect(reports.used).toBe(true);
+    expect(reports.unusedMethods).toEqual([]);
+  });
+
+  it('should not report pages/api files as unused files', async () => {
+    const result = await scan(makeConfig());
+    const unusedPaths = result.unusedFiles!.files.map(f => f.path);
+
+    expect(unusedPaths.some(p => p.includes('pages/api/'))).toBe(false);
+  });
+});
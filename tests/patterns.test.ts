@@ -239,3 +239,41 @@ const b = async () => {
     expect(refs.some((r) => r.path === '/api/billing/create')).toBe(true);
   });
 });
+
+describe('extractApiReferences - method from request options', () => {
+  const methodsOf = (content: string, path: string) =>
+    extractApiReferences(content).filter((r) => r.path === path).map((r) => r.method);
+
+  it('should read the method of fetch() from an inline options object', () => {
+    expect(methodsOf(`fetch('/api/users/1', { method: 'delete', headers })`, '/api/users/1')).toEqual(['DELETE']);
+    expect(methodsOf(`fetch(\`/api/users/\${id}\`, {\n  method: "PATCH",\n  body: JSON.stringify(data),\n})`, '/api/users/${id}')).toEqual(['PATCH']);
+  });
+
+  it('should keep fetch() without a method option method-agnostic', () => {
+    expect(methodsOf(`fetch('/api/users')`, '/api/users')).toEqual([undefined]);
+    expect(methodsOf(`fetch('/api/users', { cache: 'no-store' })`, '/api/users')).toEqual([undefined]);
+  });
+
+  it('should resolve the method and options object from consts in the same file', () => {
+    const content = `
+const METHOD = 'PUT';
+const init: RequestInit = { method: 'POST', body };
+fetch('/api/a', { method: METHOD });
+fetch('/api/b', init);
+`;
+    expect(methodsOf(content, '/api/a')).toEqual(['PUT']);
+    expect(methodsOf(content, '/api/b')).toEqual(['POST']);
+  });
+
+  it('should leave the method unknown when it cannot be resolved', () => {
+    expect(methodsOf(`fetch('/api/users', { method: props.method })`, '/api/users')).toEqual([undefined]);
+    expect(methodsOf(`fetch('/api/users', { ...init })`, '/api/users')).toEqual([undefined]);
+    expect(methodsOf(`fetch('/api/users', options)`, '/api/users')).toEqual([undefined]);
+  });
+
+  it('should read new Request() and axios() options', () => {
+    expect(methodsOf(`new Request('/api/users', { method: 'POST' })`, '/api/users')).toEqual(['POST']);
+    expect(methodsOf(`axios({ url: '/api/users', method: 'delete' })`, '/api/users')).toEqual(['DELETE']);
+    expect(methodsOf(`axios('/api/users', { method: 'put' })`, '/api/users')).toEqual(['PUT']);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { collectFindings, parseReference } from '../src/findings.js';
+import { toSarif } from '../src/sarif.js';
+import type { Config, ScanResult } from '../src/types.js';
+import { join } from 'node:path';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+
+/**
+ * Tests for `--format sarif`:
+ * The whole ScanResult is converted into a SARIF 2.1.0 log with one rule per
+ * scanner and file/line locations relative to the scanned root.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/sarif-output');
+
+function makeConfig(overrides?: Partial<Config>): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+    ...overrides,
+  };
+}
+
+let result: ScanResult;
+
+beforeAll(async () => {
+  mkdirSync(join(fixtureBase, 'app/api/orders'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/about'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'app/api/orders/route.ts'),
+    `export async function GET() { return Response.json([]); }\n\nexport async function DELETE() { return Response.json({}); }\n`
+  );
+
+  writeFileSync(join(fixtureBase, 'app/about/page.tsx'), `
+import Link from 'next/link';
+import { formatDate } from '../../src/format';
+export default function About() {
+  axios.get('/api/orders');
+  return <Link href="/missing-page">{formatDate()}</Link>;
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/format.ts'),
+    `export function formatDate() { return ''; }\n\nexport function formatMoney() { return ''; }\n`
+  );
+
+  result = await scan(makeConfig());
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('SARIF output', () => {
+  it('should produce a valid SARIF 2.1.0 envelope with one rule per scanner', () => {
+    const log = toSarif(collectFindings(result, makeConfig()), fixtureBase);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    const ruleIds = log.runs[0].tool.driver.rules.map(r => r.id);
+    expect(ruleIds).toEqual([
+      'unused-route', 'unused-public-asset', 'unused-file', 'unused-export', 'circular-import',
+      'unused-dependency', 'unlisted-dependency',
+      'unused-service-method', 'unused-server-action', 'missing-asset', 'broken-link',
+      'openapi-missing-handler', 'undocumented-route', 'unexecuted-export',
+    ]);
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri.endsWith('/')).toBe(true);
+  });
+
+  it('should point informationUri at the repository from package.json', () => {
+    const log = toSarif(collectFindings(result, makeConfig()), fixtureBase);
+    expect(log.runs[0].tool.driver.informationUri).toBe('https://github.com/Navibyte-Innovations-Pvt-Ltd/pruny');
+  });
+
+  it('should report a partially unused route at the handler line', () => {
+    const log = toSarif(collectFindings(result, makeConfig()), fixtureBase);
+    const routeResult = log.runs[0].results.find(r => r.ruleId === 'unused-route');
+
+    expect(routeResult).toBeDefined();
+    expect(routeResult!.message.text).toContain('DELETE /api/orders');
+    const location = routeResult!.locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe('app/api/orders/route.ts');
+    expect(location.region?.startLine).toBe(3);
+  });
+
+  it('should report unused exports with their declaration line', () => {
+    const log = toSarif(collectFindings(result, makeConfig()), fixtureBase);
+    const exportResult = log.runs[0].results.find(r => r.ruleId === 'unused-export' && r.message.text.includes('formatMoney'));
+
+    expect(exportResult).toBeDefined();
+    expect(exportResult!.locations[0].physicalLocation.artifactLocation.uri).toBe('src/format.ts');
+    expect(exportResult!.locations[0].physicalLocation.region?.startLine).toBe(3);
+  });
+
+  it('should report broken links at the referencing file and line', () => {
+    const log = toSarif(collectFindings(result, makeConfig()), fixtureBase);
+    const linkResult = log.runs[0].results.find(r => r.ruleId === 'broken-link');
+
+    expect(linkResult).toBeDefined();
+    expect(linkResult!.level).toBe('error');
+    expect(linkResult!.locations[0].physicalLocation.artifactLocation.uri).toBe('app/about/page.tsx');
+    expect(linkResult!.locations[0].physicalLocation.region?.startLine).toBe(6);
+  });
+});
+
+describe('SARIF output with --fix', () => {
+  it('should be rejected without touching any file', () => {
+    const run = spawnSync(process.execPath, [join(import.meta.dir, '../src/index.ts'), '--dir', fixtureBase, '--format', 'sarif', '--fix'], {
+      env: { ...process.env, CI: '1' },
+      encoding: 'utf-8',
+    });
+    expect(run.status).toBe(1);
+    expect(run.stderr).toContain('--fix can\'t be combined with --format sarif');
+    expect(run.stdout).toBe('');
+    expect(existsSync(join(fixtureBase, 'app/api/orders/route.ts'))).toBe(true);
+  });
+});
+
+describe('parseReference', () => {
+  it('should split file:line references', () => {
+    expect(parseReference('/repo/src/a.tsx:14')).toEqual({ file: '/repo/src/a.tsx', line: 14 });
+  });
+
+  it('should keep references without a line number intact', () => {
+    expect(parseReference('vercel.json')).toEqual({ file: 'vercel.json' });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { scanUnusedServerActions } from '../src/scanners/unused-server-actions.js';
+import { collectFindings } from '../src/findings.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the unused Server Actions scanner: exports of 'use server' modules
+ * and inline 'use server' functions count as used only when something binds
+ * them to a form, passes them on or calls them — not when merely re-exported.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/server-actions-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'app/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/actions'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'lib'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'server-actions-test' }));
+
+  writeFileSync(join(fixtureBase, 'app/actions/users.ts'), `// Mutations for the users page
+'use server';
+
+export async function createUser(formData: FormData) {}
+export async function renameUser(id: string, name: string) {}
+export const deleteUser = async (id: string) => {};
+export async function archiveUser(id: string) {}
+export async function legacyImport() {}
+`);
+  // Not imported anywhere: reported once, as a server action
+  writeFileSync(join(fixtureBase, 'app/actions/orphan.ts'), `"use server";\nexport async function orphanAction() {}\n`);
+  // Re-exporting alone is not a use
+  writeFileSync(join(fixtureBase, 'app/actions/index.ts'), `export { createUser, renameUser, deleteUser, archiveUser, legacyImport } from './users';\n`);
+
+  // Same name as an action, from another module
+  writeFileSync(join(fixtureBase, 'lib/importer.ts'), `export function orphanAction() {}\n`);
+
+  writeFileSync(join(fixtureBase, 'app/users/page.tsx'), `import { createUser, deleteUser as removeUser } from '../actions';
+import * as userActions from '../actions/users';
+import { archiveUser } from '../actions/users';
+import { orphanAction } from '../../lib/importer';
+
+async function inlineSave(formData: FormData) {
+  'use server';
+}
+
+async function inlineDraft(formData: FormData) {
+  'use server';
+}
+
+export default function Users() {
+  return (
+    <form action={createUser}>
+      <button formAction={removeUser.bind(null, '1')}>Delete</button>
+      <button formAction={inlineSave}>Save</button>
+      <button onClick={() => userActions.renameUser('1', 'x')}>Rename</button>
+      <button onClick={() => orphanAction()}>Import</button>
+    </form>
+  );
+}
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Unused server actions', () => {
+  it('should report actions that are only re-exported, imported without being used, or shadowed by a same-named import', async () => {
+    const result = await scanUnusedServerActions(makeConfig());
+    const names = result.actions.map(a => a.name).sort();
+
+    expect(names).toEqual(['archiveUser', 'inlineDraft', 'legacyImport', 'orphanAction']);
+    expect(result.total).toBe(8);
+    expect(result.used).toBe(4);
+  });
+
+  it('should record line and kind for module and inline actions', async () => {
+    const result = await scanUnusedServerActions(makeConfig());
+    const legacy = result.actions.find(a => a.name === 'legacyImport')!;
+    const draft = result.actions.find(a => a.name === 'inlineDraft')!;
+
+    expect(legacy).toEqual({ name: 'legacyImport', file: 'app/actions/users.ts', line: 8, kind: 'module' });
+    expect(draft.kind).toBe('inline');
+    expect(draft.file).toBe('app/users/page.tsx');
+  });
+
+  it('should report them as server-action findings rather than unused exports', async () => {
+    const config = makeConfig();
+    const result = await scan(config);
+    const findings = collectFindings(result, config);
+
+    expect(findings.filter(f => f.rule === 'unused-server-action').map(f => f.symbol).sort())
+      .toEqual(['archiveUser', 'inlineDraft', 'legacyImport', 'orphanAction']);
+    // The barrel's re-export is still an unused export of its own
+    expect(result.unusedExports!.exports.map(e => `${e.file}:${e.name}`)).toEqual(['app/actions/index.ts:legacyImport']);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { scanServerRoutes } from '../src/scanners/server-routes.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for Express / Fastify / Hono routes: registrations become routes with
+ * the prefixes of every mount leading to them (across files), and their usage
+ * is checked against HTTP client calls like any other route.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/server-routes-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'src/routes'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'web'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'server-routes-test' }));
+
+  // Express: app → /api router → /users router, all in different files
+  writeFileSync(join(fixtureBase, 'src/server.ts'), `import express from 'express';
+import apiRouter from './routes';
+
+const app = express();
+app.use('/api', apiRouter);
+app.get('/health', (_req, res) => res.send('ok'));
+app.listen(3000);
+`);
+  writeFileSync(join(fixtureBase, 'src/routes/index.ts'), `import { Router } from 'express';
+import { usersRouter } from './users';
+
+const router = Router();
+router.use('/users', requireAuth, usersRouter);
+
+export default router;
+`);
+  writeFileSync(join(fixtureBase, 'src/routes/users.ts'), `import express from 'express';
+
+export const usersRouter = express.Router();
+
+usersRouter.get('/', (_req, res) => res.json([]));
+usersRouter.get('/:id', (req, res) => res.json({ id: req.params.id }));
+usersRouter.delete('/:id', (_req, res) => res.status(204).end());
+`);
+
+  // Hono: basePath plus a sub-app mounted with route()
+  writeFileSync(join(fixtureBase, 'src/hono.ts'), `import { Hono } from 'hono';
+
+const posts = new Hono();
+posts.get('/', (c) => c.json([]));
+posts.post('/', (c) => c.json({}, 201));
+
+const app = new Hono().basePath('/v2');
+app.route('/posts', posts);
+
+export default app;
+`);
+
+  // Fastify: a plugin registered with a prefix, and a route() object
+  writeFileSync(join(fixtureBase, 'src/fastify.ts'), `import Fastify from 'fastify';
+import orderRoutes from './orders';
+
+const server = Fastify({ logger: true });
+server.register(orderRoutes, { prefix: '/orders' });
+server.route({
+  method: ['GET', 'POST'],
+  url: '/items',
+  handler: async () => [],
+});
+`);
+  writeFileSync(join(fixtureBase, 'src/orders.ts'), `import type { FastifyInstance } from 'fastify';
+
+export default async function orderRoutes(app: FastifyInstance) {
+  app.get('/', async () => []);
+  app.patch('/:id', async () => ({}));
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'web/client.ts'), `import axios from 'axios';
+import { useRouter } from 'next/navigation';
+
+export const listUsers = () => axios.get('/api/users');
+export const getUser = (id: string) => axios.get(\`/api/users/\${id}\`);
+export const listPosts = () => axios.get('/v2/posts');
+export const listOrders = () => fetch('/orders');
+export const addItem = () => axios.post('/items', {});
+export function useGoHome() {
+  const router = useRouter();
+  // Page navigation, not an API call
+  return () => router.push('/health');
+}
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('Express / Fastify / Hono routes', () => {
+  it('should resolve full paths through mounts across files', async () => {
+    const routes = await scanServerRoutes(makeConfig());
+    const summary = routes.map(r => `${r.type} ${r.path} ${r.methods.join(',')}`).sort();
+
+    expect(summary).toEqual([
+      'express /api/users GET',
+      'express /api/users/:id GET,DELETE',
+      'express /health GET',
+      'fastify /items GET,POST',
+      'fastify /orders GET',
+      'fastify /orders/:id PATCH',
+      'hono /v2/posts GET,POST',
+    ]);
+  });
+
+  it('should record the file and line of each handler', async () => {
+    const routes = await scanServerRoutes(makeConfig());
+    const user = routes.find(r => r.path === '/api/users/:id')!;
+
+    expect(user.filePath).toBe('src/routes/users.ts');
+    expect(user.methodLines).toEqual({ GET: 6, DELETE: 7 });
+  });
+
+  it('should match HTTP client calls like other routes', async () => {
+    const result = await scan(makeConfig());
+    const byPath = Object.fromEntries(result.routes.map(r => [r.path, r]));
+
+    expect(byPath['/api/users'].used).toBe(true);
+    expect(byPath['/api/users/:id'].unusedMethods).toEqual(['DELETE']);
+    expect(byPath['/v2/posts'].unusedMethods).toEqual(['POST']);
+    expect(byPath['/orders'].used).toBe(true);
+    expect(byPath['/orders/:id'].used).toBe(false);
+    expect(byPath['/items'].unusedMethods).toEqual(['GET']);
+  });
+
+  it('should not count page navigation as a call', async () => {
+    const result = await scan(makeConfig());
+    const health = result.routes.find(r => r.path === '/health')!;
+
+    expect(health.used).toBe(false);
+  });
+});
@@ -20,6 +20,7 @@ function makeConfig(overrides?: Partial<Config>): Config {
     dir: fixtureBase,
     ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
     extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
     ...overrides,
   };
 }
@@ -207,6 +208,7 @@ export const F = () => <>
       dir: base,
       ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
       extensions: ['.ts', '.tsx', '.js', '.jsx'],
+      cache: false,
     };
     const result = await scanBrokenLinks(cfg);
     const paths = result.links.map(l => l.path);
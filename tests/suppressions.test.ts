@@ -0,0 +1,165 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { parseSuppressions } from '../src/suppressions.js';
+import type { Config, ScanResult } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for inline suppression comments:
+ * `// pruny-ignore-next-line [reason]` hides the finding on the next line and
+ * `/* pruny-ignore-file [reason] *\/` hides every finding in the file.
+ * Comments that no longer hide anything are reported as stale.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/suppressions-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+let result: ScanResult;
+
+beforeAll(async () => {
+  mkdirSync(join(fixtureBase, 'src/users'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src/lib'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'app/home'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({
+    dependencies: { '@nestjs/common': '^10.0.0', next: '^14.0.0' },
+  }));
+
+  writeFileSync(join(fixtureBase, 'src/users/users.controller.ts'), `import { Controller, Get, Post } from '@nestjs/common';
+import { UsersService } from './users.service';
+
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  // pruny-ignore-next-line -- called by the mobile app
+  @Get('export')
+  exportAll() { return this.usersService.findAll(); }
+
+  @Post('import')
+  importAll() { return this.usersService.findAll(); }
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/users/users.service.ts'), `import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class UsersService {
+  findAll() { return []; }
+
+  // pruny-ignore-next-line used by a cron job outside this repo
+  async purgeInactive() { return 0; }
+
+  async archiveOld() { return 0; }
+}
+`);
+
+  writeFileSync(join(fixtureBase, 'src/lib/helpers.ts'), `// pruny-ignore-next-line: public SDK surface
+export function sdkHelper() { return 1; }
+
+export function deadHelper() { return 2; }
+
+// pruny-ignore-next-line -- nothing to suppress here anymore
+export function usedHelper() { return 3; }
+`);
+
+  writeFileSync(join(fixtureBase, 'src/lib/generated.ts'), `/* pruny-ignore-file generated client */
+export function generatedA() { return 1; }
+export function generatedB() { return 2; }
+`);
+
+  writeFileSync(join(fixtureBase, 'app/home/page.tsx'), `import Link from 'next/link';
+import { usedHelper } from '../../src/lib/helpers';
+import '../../src/lib/generated';
+export default function Home() {
+  return (
+    <div>
+      {usedHelper()}
+      {/* pruny-ignore-next-line legacy redirect handled by nginx */}
+      <Link href="/legacy-page">Legacy</Link>
+      <Link href="/really-broken">Broken</Link>
+    </div>
+  );
+}
+`);
+
+  result = await scan(makeConfig());
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('parseSuppressions', () => {
+  it('should parse next-line and file directives with optional reasons', () => {
+    const parsed = parseSuppressions([
+      '// pruny-ignore-next-line',
+      'const a = 1;',
+      '// pruny-ignore-next-line -- kept for partners',
+      '{/* pruny-ignore-next-line legacy link */}',
+      '/* pruny-ignore-file: generated */',
+    ].join('\n'));
+
+    expect(parsed).toEqual([
+      { kind: 'next-line', line: 1 },
+      { kind: 'next-line', line: 3, reason: 'kept for partners' },
+      { kind: 'next-line', line: 4, reason: 'legacy link' },
+      { kind: 'file', line: 5, reason: 'generated' },
+    ]);
+  });
+
+  it('should return nothing for files without directives', () => {
+    expect(parseSuppressions('export const x = 1;')).toEqual([]);
+  });
+});
+
+describe('Inline suppressions', () => {
+  it('should hide a suppressed unused export but keep others', () => {
+    const names = result.unusedExports!.exports.map(e => e.name);
+    expect(names).not.toContain('sdkHelper');
+    expect(names).toContain('deadHelper');
+  });
+
+  it('should hide every export in a file with pruny-ignore-file', () => {
+    const names = result.unusedExports!.exports.map(e => e.name);
+    expect(names).not.toContain('generatedA');
+    expect(names).not.toContain('generatedB');
+  });
+
+  it('should treat a suppressed NestJS handler as used', () => {
+    const exportRoute = result.routes.find(r => r.path.includes('/users/export'));
+    const importRoute = result.routes.find(r => r.path.includes('/users/import'));
+    expect(exportRoute!.used).toBe(true);
+    expect(exportRoute!.references).toContain('(suppressed)');
+    expect(exportRoute!.unusedMethods).toEqual([]);
+    expect(importRoute!.used).toBe(false);
+  });
+
+  it('should hide a suppressed service method', () => {
+    const names = result.unusedServices!.methods.map(m => m.name);
+    expect(names).not.toContain('purgeInactive');
+    expect(names).toContain('archiveOld');
+  });
+
+  it('should hide a suppressed broken link', () => {
+    const paths = result.brokenLinks!.links.map(l => l.path);
+    expect(paths).not.toContain('/legacy-page');
+    expect(paths).toContain('/really-broken');
+  });
+
+  it('should report suppressions that no longer match any finding', () => {
+    expect(result.suppressions!.total).toBe(6);
+    expect(result.suppressions!.stale).toEqual([
+      { file: 'src/lib/helpers.ts', line: 6, kind: 'next-line', reason: 'nothing to suppress here anymore' },
+    ]);
+  });
+});
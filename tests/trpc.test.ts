@@ -0,0 +1,183 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { scan } from '../src/scanner.js';
+import { scanTrpcRoutes } from '../src/scanners/trpc-routes.js';
+import { collectFindings } from '../src/findings.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for the tRPC scanner: router definitions (including sub-router keys,
+ * inline routers and spreads) become routes whose methods are procedures,
+ * used when a client chain such as api.user.getById.useQuery() reaches them.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/trpc-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  mkdirSync(join(fixtureBase, 'src/server/routers'), { recursive: true });
+  mkdirSync(join(fixtureBase, 'src/app'), { recursive: true });
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'trpc-test' }));
+
+  writeFileSync(join(fixtureBase, 'src/server/routers/user.ts'), `import { z } from 'zod';
+import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+
+export const userRouter = createTRPCRouter({
+  getById: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .query(({ input }) => ({ id: input.id })),
+  // Nobody calls this one
+  remove: protectedProcedure.mutation(() => null),
+  settings: createTRPCRouter({
+    get: protectedProcedure.query(() => ({})),
+    update: protectedProcedure.mutation(() => ({})),
+  }),
+});
+`);
+  writeFileSync(join(fixtureBase, 'src/server/routers/post.ts'), `import { router, publicProcedure } from '../trpc';
+
+export const postRouter = router({
+  list: publicProcedure.query(() => []),
+  create: publicProcedure.mutation(() => ({})),
+});
+`);
+  writeFileSync(join(fixtureBase, 'src/server/routers/health.ts'), `import { t } from '../trpc';
+
+export const healthRouter = t.router({
+  ping: t.procedure.query(() => 'pong'),
+});
+`);
+  writeFileSync(join(fixtureBase, 'src/server/root.ts'), `import { createTRPCRouter } from './trpc';
+import { userRouter } from './routers/user';
+import { postRouter } from './routers/post';
+import { healthRouter } from './routers/health';
+
+export const appRouter = createTRPCRouter({
+  user: userRouter,
+  post: postRouter,
+  ...healthRouter._def.procedures,
+});
+
+export type AppRouter = typeof appRouter;
+export const warmUp = (trpc: Client) => trpc.ping.query();
+`);
+  writeFileSync(join(fixtureBase, 'src/server/merged.ts'), `import { mergeRouters, router, publicProcedure } from './trpc';
+import { healthRouter } from './routers/health';
+
+const adminRouter = router({
+  stats: publicProcedure.query(() => ({})),
+});
+
+export const legacyRouter = mergeRouters(healthRouter, adminRouter);
+`);
+
+  mkdirSync(join(fixtureBase, 'src/trpc'), { recursive: true });
+  writeFileSync(join(fixtureBase, 'src/trpc/legacy.ts'), `import { createTRPCProxyClient } from '@trpc/client';
+export const legacy = createTRPCProxyClient<LegacyRouter>({ links: [] });
+`);
+
+  // Chains through a procedure path on something other than a client
+  mkdirSync(join(fixtureBase, 'src/lib'), { recursive: true });
+  writeFileSync(join(fixtureBase, 'src/lib/cleanup.ts'), `import { db } from './db';
+export const purge = () => db.user.remove({ id: '1' });
+export const fetchPing = () => axios.ping();
+`);
+
+  writeFileSync(join(fixtureBase, 'src/app/page.tsx'), `import { api } from '../trpc/react';
+import { legacy } from '../trpc/legacy';
+
+export default function Page() {
+  const user = api.user.getById.useQuery({ id: '1' });
+  const utils = api.useUtils();
+  const create = api.post.create.useMutation({
+    onSuccess: () => utils.post.list.invalidate(),
+  });
+  const settings = api.user.settings?.get.useQuery();
+  const stats = legacy.stats.useQuery();
+  return null;
+}
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('tRPC procedures', () => {
+  it('should build one route per router with procedures as methods', async () => {
+    const routes = await scanTrpcRoutes(makeConfig());
+    const byPath = Object.fromEntries(routes.map(r => [`${r.path}@${r.filePath}`, r.methods]));
+
+    expect(byPath).toEqual({
+      'appRouter.user@src/server/routers/user.ts': ['getById', 'remove'],
+      'appRouter.user.settings@src/server/routers/user.ts': ['get', 'update'],
+      'appRouter.post@src/server/routers/post.ts': ['list', 'create'],
+      'appRouter@src/server/routers/health.ts': ['ping'],
+      'legacyRouter@src/server/routers/health.ts': ['ping'],
+      'legacyRouter@src/server/merged.ts': ['stats'],
+    });
+    expect(routes.every(r => r.type === 'trpc')).toBe(true);
+  });
+
+  it('should mark procedures reached through client chains as used', async () => {
+    const routes = await scanTrpcRoutes(makeConfig());
+    const user = routes.find(r => r.path === 'appRouter.user')!;
+    const settings = routes.find(r => r.path === 'appRouter.user.settings')!;
+    const post = routes.find(r => r.path === 'appRouter.post')!;
+
+    expect(user.used).toBe(true);
+    expect(user.unusedMethods).toEqual(['remove']);
+    expect(user.methodLines).toEqual({ getById: 5, remove: 9 });
+    expect(user.references).toEqual(['src/app/page.tsx']);
+    expect(settings.unusedMethods).toEqual(['update']);
+    expect(post.unusedMethods).toEqual([]);
+  });
+
+  it('should report routers with no called procedures as unused', async () => {
+    const routes = await scanTrpcRoutes(makeConfig());
+    const legacyHealth = routes.find(r => r.path === 'legacyRouter' && r.filePath.endsWith('health.ts'))!;
+
+    const legacyAdmin = routes.find(r => r.path === 'legacyRouter' && r.filePath.endsWith('merged.ts'))!;
+
+    expect(legacyHealth.used).toBe(false);
+    expect(legacyHealth.unusedMethods).toEqual(['ping']);
+    expect(legacyAdmin.used).toBe(true);
+  });
+
+  it('should only count chains rooted at a client, outside router files', async () => {
+    const routes = await scanTrpcRoutes(makeConfig());
+    const user = routes.find(r => r.path === 'appRouter.user')!;
+    const health = routes.find(r => r.path === 'appRouter')!;
+
+    // db.user.remove() and axios.ping() are not tRPC calls, and trpc.ping in root.ts is in a router file
+    expect(user.unusedMethods).toEqual(['remove']);
+    expect(user.references).toEqual(['src/app/page.tsx']);
+    expect(health.unusedMethods).toEqual(['ping']);
+  });
+
+  it('should report unused procedures as route findings', async () => {
+    const config = makeConfig();
+    const result = await scan(config);
+    const messages = collectFindings(result, config)
+      .filter(f => f.rule === 'unused-route')
+      .map(f => f.message)
+      .sort();
+
+    expect(messages).toEqual([
+      'Unused tRPC procedure appRouter.ping',
+      'Unused tRPC procedure appRouter.user.remove',
+      'Unused tRPC procedure appRouter.user.settings.update',
+      'Unused tRPC procedure legacyRouter.ping',
+    ]);
+  });
+});
@@ -6,6 +6,7 @@ import {
   makeCodePattern,
   escapeRegExp,
   matchesFilter,
+  nonCodeRanges,
 } from '../src/utils.js';
 import type { Config } from '../src/types.js';
 
@@ -75,6 +76,11 @@ describe('getAppName', () => {
     expect(getAppName('packages/shared/src/utils.ts')).toBe('packages/shared');
   });
 
+  it('should extract workspace name from services/ and tools/ paths', () => {
+    expect(getAppName('services/billing/src/main.ts')).toBe('services/billing');
+    expect(getAppName('tools/codegen/index.ts')).toBe('tools/codegen');
+  });
+
   it('should return Root for non-monorepo paths', () => {
     expect(getAppName('src/index.ts')).toBe('Root');
   });
@@ -93,6 +99,22 @@ describe('escapeRegExp', () => {
   });
 });
 
+describe('nonCodeRanges', () => {
+  const nonCode = (content: string) => nonCodeRanges(content).map(([start, end]) => content.slice(start, end));
+
+  it('should cover comments and quoted strings', () => {
+    expect(nonCode(`a('x'); // note\nb("y") /* c */`)).toEqual([`'x'`, '// note', '"y"', '/* c */']);
+  });
+
+  it('should leave template expressions as code, nested templates included', () => {
+    expect(nonCode('`a${b(`c${d}`)}e` + f')).toEqual(['`a', '`c', '}`', '}e`']);
+  });
+
+  it('should end an unterminated quoted string at the line', () => {
+    expect(nonCode(`x = /'/;\nimport a from 'b';`)).toEqual([`'/;`, `'b'`]);
+  });
+});
+
 describe('makeCodePattern', () => {
   it('should match function calls', () => {
     const pattern = makeCodePattern('myFunction');
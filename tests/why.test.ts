@@ -0,0 +1,150 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { explain, type ExportExplanation, type FileExplanation, type RouteExplanation } from '../src/why.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for `pruny why`: used files are explained by their import chain,
+ * used routes and exports by the references that matched, and unused items
+ * by what was tried.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/why-test');
+
+function makeConfig(): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+  };
+}
+
+beforeAll(() => {
+  for (const dir of ['app/api/users', 'app/api/orders', 'app/api/items', 'app/items', 'components', 'lib']) {
+    mkdirSync(join(fixtureBase, dir), { recursive: true });
+  }
+
+  writeFileSync(join(fixtureBase, 'package.json'), JSON.stringify({ name: 'why-test' }));
+  writeFileSync(join(fixtureBase, 'app/api/users/route.ts'), `export async function GET() { return Response.json([]); }
+export async function POST() { return Response.json({}); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/orders/route.ts'), `export async function GET() { return Response.json([]); }
+`);
+  writeFileSync(join(fixtureBase, 'app/api/items/route.ts'), `export async function GET() { return Response.json([]); }
+export async function DELETE() { return new Response(null); }
+`);
+  writeFileSync(join(fixtureBase, 'app/items/page.tsx'), `export default function Items() {
+  fetch('/api/items');
+  fetch('/api/items', { method: 'DELETE' });
+  return null;
+}
+`);
+  writeFileSync(join(fixtureBase, 'app/page.tsx'), `import { Card } from '../components/card';
+
+export default function Page() {
+  fetch('/api/users', { method: 'POST' });
+  return <Card />;
+}
+`);
+  writeFileSync(join(fixtureBase, 'components/card.tsx'), `import { formatName } from '../lib/format';
+
+export function Card() {
+  return <span>{formatName('a')}</span>;
+}
+import { shownFlag } from '../lib/flags';
+export const flag = shownFlag;
+`);
+  writeFileSync(join(fixtureBase, 'lib/flags.ts'), `// pruny-ignore-next-line -- read by the mobile app
+export const hiddenFlag = true;
+// pruny-ignore-next-line
+export const shownFlag = true;
+`);
+  writeFileSync(join(fixtureBase, 'lib/format.ts'), `export function formatName(name: string) { return name.trim(); }
+export function formatPrice(price: number) { return price.toFixed(2); }
+`);
+  writeFileSync(join(fixtureBase, 'lib/legacy.ts'), `import { formatName } from './format';
+export const legacy = formatName('b');
+`);
+  writeFileSync(join(fixtureBase, 'lib/dead.ts'), `import { legacy } from './legacy';
+export const dead = legacy;
+`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('pruny why', () => {
+  it('should show the import chain of a used file', async () => {
+    const [explanation] = await explain(makeConfig(), 'lib/format.ts') as FileExplanation[];
+    expect(explanation.used).toBe(true);
+    expect(explanation.chain).toEqual(['app/page.tsx', 'components/card.tsx', 'lib/format.ts']);
+    expect(explanation.chainEntryPattern).toBe('**/page.{ts,tsx,js,jsx}');
+  });
+
+  it('should list unreachable importers and the entry patterns tried for an unused file', async () => {
+    const [explanation] = await explain(makeConfig(), join(fixtureBase, 'lib/legacy.ts')) as FileExplanation[];
+    expect(explanation.used).toBe(false);
+    expect(explanation.chain).toEqual([]);
+    expect(explanation.importedBy).toEqual(['lib/dead.ts']);
+    expect(explanation.entryPatterns).toContain('**/page.{ts,tsx,js,jsx}');
+  });
+
+  it('should show the matching references of a used route with file, line and source', async () => {
+    const [explanation] = await explain(makeConfig(), '/api/users/') as RouteExplanation[];
+    expect(explanation.route.unusedMethods).toEqual(['GET']);
+    expect(explanation.references).toEqual([
+      { file: 'app/page.tsx', line: 4, path: '/api/users', method: 'POST', source: 'http-client' },
+    ]);
+    expect(explanation.marks).toEqual([]);
+  });
+
+  it('should give each reference to the same path its own line', async () => {
+    const [explanation] = await explain(makeConfig(), '/api/items') as RouteExplanation[];
+    expect(explanation.references.map(ref => [ref.line, ref.method])).toEqual([[3, 'DELETE'], [2, undefined]]);
+  });
+
+  it('should show the path forms compared for an unused route', async () => {
+    const [explanation] = await explain(makeConfig(), '/api/orders') as RouteExplanation[];
+    expect(explanation.route.used).toBe(false);
+    expect(explanation.references).toEqual([]);
+    expect(explanation.pathForms).toEqual(['/api/orders']);
+    expect(explanation.httpClientOnly).toBe(false);
+  });
+
+  it('should list the lines using an export', async () => {
+    const [explanation] = await explain(makeConfig(), 'formatName') as ExportExplanation[];
+    expect(explanation.used).toBe(true);
+    expect(explanation.file).toBe('lib/format.ts');
+    expect(explanation.references.map(ref => `${ref.file}:${ref.line}`)).toEqual([
+      'components/card.tsx:1', 'components/card.tsx:4', 'lib/legacy.ts:1', 'lib/legacy.ts:2',
+    ]);
+  });
+
+  it('should explain an unused export addressed as file:name', async () => {
+    const [explanation] = await explain(makeConfig(), 'lib/format.ts:formatPrice') as ExportExplanation[];
+    expect(explanation.used).toBe(false);
+    expect(explanation.line).toBe(2);
+    expect(explanation.unused?.name).toBe('formatPrice');
+    expect(explanation.notes.length).toBeGreaterThan(0);
+  });
+
+  it('should name the pruny-ignore comment hiding an unused export', async () => {
+    const [hidden] = await explain(makeConfig(), 'hiddenFlag') as ExportExplanation[];
+    expect(hidden.used).toBe(false);
+    expect(hidden.suppressedBy).toEqual({ file: 'lib/flags.ts', line: 1, kind: 'next-line', reason: 'read by the mobile app' });
+    expect(hidden.notes).toEqual(['Suppressed by pruny-ignore at lib/flags.ts:1 (read by the mobile app)']);
+
+    // A comment above an export that is used anyway hides nothing
+    const [shown] = await explain(makeConfig(), 'shownFlag') as ExportExplanation[];
+    expect(shown.used).toBe(true);
+    expect(shown.suppressedBy).toBeUndefined();
+  });
+
+  it('should return nothing for unknown targets', async () => {
+    expect(await explain(makeConfig(), '/api/missing')).toEqual([]);
+    expect(await explain(makeConfig(), 'noSuchExport')).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { packageEntryTargets, readWorkspacePackages, workspaceImportTargets } from '../src/workspaces.js';
+import { buildImportGraph, scanUnusedFiles } from '../src/scanners/unused-files.js';
+import type { Config } from '../src/types.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+
+/**
+ * Tests for imports of workspace packages by name: package.json `exports`
+ * (conditions, subpath maps and `*` patterns), `main`/`module`/`types`,
+ * build output mapped back to src/, and file reachability across packages.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/workspace-imports-test');
+
+function makeConfig(appDir?: string): Config {
+  return {
+    dir: fixtureBase,
+    ignore: { routes: [], folders: ['**/node_modules/**', '**/dist/**'], files: [], links: [] },
+    extensions: ['.ts', '.tsx', '.js', '.jsx'],
+    cache: false,
+    ...(appDir && { appSpecificScan: { appDir: join(fixtureBase, appDir), rootDir: fixtureBase } }),
+  };
+}
+
+function write(path: string, content: string) {
+  mkdirSync(join(fixtureBase, path, '..'), { recursive: true });
+  writeFileSync(join(fixtureBase, path), content);
+}
+
+beforeAll(() => {
+  write('package.json', JSON.stringify({ name: 'root', workspaces: ['apps/*', 'packages/*'] }));
+
+  write('apps/web/package.json', JSON.stringify({ name: '@acme/web' }));
+  write('apps/web/app/page.tsx', `import { Button } from '@acme/ui/button';
+import { Card } from '@acme/ui/card';
+import { format } from '@acme/utils';
+export default function Page() { return <Button><Card>{format()}</Card></Button>; }
+`);
+
+  write('packages/ui/package.json', JSON.stringify({
+    name: '@acme/ui',
+    exports: {
+      './button': './src/button.tsx',
+      './*': { types: './dist/*.d.ts', import: './dist/*.js' },
+    },
+  }));
+  write('packages/ui/src/button.tsx', `import { Icon } from './icon';\nexport const Button = () => <Icon />;\n`);
+  write('packages/ui/src/icon.tsx', `export const Icon = () => null;\n`);
+  write('packages/ui/src/card.tsx', `export const Card = () => null;\n`);
+  write('packages/ui/src/unused.tsx', `export const Unused = () => null;\n`);
+
+  write('packages/utils/package.json', JSON.stringify({ name: '@acme/utils', main: './dist/index.js', types: './dist/index.d.ts' }));
+  write('packages/utils/src/index.ts', `export const format = () => '';\n`);
+  write('packages/utils/dist/index.js', `exports.format = () => '';\n`);
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('packageEntryTargets', () => {
+  it('should read main, module and types without exports', () => {
+    expect(packageEntryTargets({ main: './dist/index.cjs', module: './dist/index.mjs' }, '.')).toEqual(['./dist/index.mjs', './dist/index.cjs', './index']);
+    expect(packageEntryTargets({ main: './index.js' }, './lib/util')).toEqual(['./lib/util']);
+  });
+
+  it('should read string and condition exports for the package itself only', () => {
+    expect(packageEntryTargets({ exports: './src/index.ts' }, '.')).toEqual(['./src/index.ts']);
+    expect(packageEntryTargets({ exports: { require: './dist/index.cjs', types: './src/index.ts' } }, '.')).toEqual(['./src/index.ts', './dist/index.cjs']);
+    expect(packageEntryTargets({ exports: './src/index.ts' }, './button')).toEqual([]);
+  });
+
+  it('should match exact subpaths, the longest * pattern, and honour null', () => {
+    const exports = {
+      '.': './src/index.ts',
+      './forms/*': './src/forms/*/index.ts',
+      './*': './src/*.ts',
+      './private/*': null,
+    };
+    expect(packageEntryTargets({ exports }, '.')).toEqual(['./src/index.ts']);
+    expect(packageEntryTargets({ exports }, './forms/input')).toEqual(['./src/forms/input/index.ts']);
+    expect(packageEntryTargets({ exports }, './theme')).toEqual(['./src/theme.ts']);
+    expect(packageEntryTargets({ exports }, './private/secret')).toEqual([]);
+  });
+});
+
+describe('workspaceImportTargets', () => {
+  it('should follow build output with its source path', () => {
+    const packages = readWorkspacePackages(fixtureBase);
+    const utils = join(fixtureBase, 'packages/utils');
+    expect(workspaceImportTargets(packages, '@acme/utils')).toEqual([
+      join(utils, 'dist/index.js'), join(utils, 'dist/index'), join(utils, 'src/index'),
+      join(utils, 'dist/index.d.ts'),
+      join(utils, 'index'),
+    ]);
+    expect(workspaceImportTargets(packages, 'react')).toBeUndefined();
+  });
+});
+
+describe('Cross-package imports', () => {
+  it('should link files across workspaces when the whole repo is scanned', async () => {
+    const graph = await buildImportGraph(makeConfig());
+    expect(graph.imports.get(join(fixtureBase, 'apps/web/app/page.tsx'))).toEqual([
+      join(fixtureBase, 'packages/ui/src/button.tsx'),
+      join(fixtureBase, 'packages/ui/src/card.tsx'),
+      join(fixtureBase, 'packages/utils/src/index.ts'),
+    ]);
+    // Still package imports for the dependency check
+    expect(graph.packages.get(join(fixtureBase, 'apps/web/app/page.tsx'))).toEqual(['@acme/ui/button', '@acme/ui/card', '@acme/utils']);
+  });
+
+  it('should treat files other workspaces import by package name as entry points', async () => {
+    const config = makeConfig('packages/ui');
+    const graph = await buildImportGraph(config);
+    expect(graph.entries.get(join(fixtureBase, 'packages/ui/src/button.tsx'))).toBe('@acme/ui/button');
+    expect(graph.entries.get(join(fixtureBase, 'packages/ui/src/card.tsx'))).toBe('@acme/ui/card');
+
+    const result = await scanUnusedFiles(config, graph);
+    expect(result.files.map(f => f.path)).toEqual(['packages/ui/src/unused.tsx']);
+  });
+
+  it('should resolve main pointing at build output to the source file', async () => {
+    const result = await scanUnusedFiles(makeConfig('packages/utils'));
+    expect(result.files).toEqual([]);
+  });
+});
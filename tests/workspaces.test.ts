@@ -0,0 +1,165 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { detectWorkspaces, discoverWorkspaces, findWorkspace, workspaceAt } from '../src/workspaces.js';
+import { join } from 'node:path';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+
+/**
+ * Tests for workspace discovery: pnpm-workspace.yaml, package.json
+ * `workspaces`, turbo.json and nx.json repos, the plain apps/ layout,
+ * finding workspaces by the names --app accepts, and --dir pointing into a
+ * monorepo outside its workspaces.
+ */
+
+const fixtureBase = join(import.meta.dir, 'fixtures/workspaces-test');
+
+function writeDir(dir: string): string {
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function writePackage(dir: string, pkg: Record<string, unknown>) {
+  writeDir(dir);
+  writeFileSync(join(dir, 'package.json'), JSON.stringify(pkg));
+}
+
+/** Workspaces as [name, directory relative to the root] */
+function listed(root: string) {
+  return discoverWorkspaces(root).map(ws => [ws.name, ws.dir.slice(root.length + 1)]);
+}
+
+beforeAll(() => {
+  const pnpm = join(fixtureBase, 'pnpm');
+  writePackage(pnpm, { name: 'pnpm-root' });
+  writeFileSync(join(pnpm, 'pnpm-workspace.yaml'), `packages:
+  # Deployables
+  - 'apps/*'
+  - "services/**"
+  - '!services/legacy'
+`);
+  writePackage(join(pnpm, 'apps/web'), { name: '@acme/web' });
+  writePackage(join(pnpm, 'services/billing'), { name: '@acme/billing' });
+  writePackage(join(pnpm, 'services/billing/node_modules/dep'), { name: 'dep' });
+  writePackage(join(pnpm, 'services/jobs/worker'), {});
+  writePackage(join(pnpm, 'services/legacy'), { name: 'legacy' });
+  writePackage(join(pnpm, 'tools/cli'), { name: 'cli' });
+
+  const npm = join(fixtureBase, 'npm');
+  writePackage(npm, { name: 'npm-root', workspaces: ['packages/*', 'tools/*'] });
+  writePackage(join(npm, 'packages/ui'), { name: '@acme/ui' });
+  writePackage(join(npm, 'tools/scripts'), { name: 'scripts' });
+  mkdirSync(join(npm, 'packages/empty'), { recursive: true });
+
+  const yarn = join(fixtureBase, 'yarn');
+  writePackage(yarn, { name: 'yarn-root', workspaces: { packages: ['services/*'] } });
+  writePackage(join(yarn, 'services/api'), { name: 'api' });
+
+  const turbo = join(fixtureBase, 'turbo');
+  writePackage(turbo, { name: 'turbo-root' });
+  writeFileSync(join(turbo, 'turbo.json'), '{}');
+  writePackage(join(turbo, 'packages/config'), { name: '@acme/config' });
+  writePackage(join(turbo, 'services/mailer'), { name: 'mailer' });
+  writePackage(join(turbo, 'tools/codegen'), { name: 'codegen' });
+
+  const nx = join(fixtureBase, 'nx');
+  writeFileSync(join(writeDir(nx), 'nx.json'), JSON.stringify({ workspaceLayout: { appsDir: 'projects', libsDir: 'shared' } }));
+  writeFileSync(join(writeDir(join(nx, 'projects/admin')), 'project.json'), JSON.stringify({ name: 'admin' }));
+  writeFileSync(join(writeDir(join(nx, 'services/deep/gateway')), 'project.json'), JSON.stringify({}));
+  writePackage(join(nx, 'shared/utils'), { name: '@acme/utils' });
+
+  const plain = join(fixtureBase, 'plain');
+  mkdirSync(join(plain, 'apps/web/app'), { recursive: true });
+  mkdirSync(join(plain, 'apps/api'), { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(fixtureBase, { recursive: true, force: true });
+});
+
+describe('discoverWorkspaces', () => {
+  it('should list pnpm-workspace.yaml packages, honouring ! exclusions', () => {
+    expect(listed(join(fixtureBase, 'pnpm'))).toEqual([
+      ['@acme/web', 'apps/web'],
+      ['@acme/billing', 'services/billing'],
+      ['services/jobs/worker', 'services/jobs/worker'],
+    ]);
+  });
+
+  it('should list package.json workspaces in array and object form', () => {
+    expect(listed(join(fixtureBase, 'npm'))).toEqual([['@acme/ui', 'packages/ui'], ['scripts', 'tools/scripts']]);
+    expect(listed(join(fixtureBase, 'yarn'))).toEqual([['api', 'services/api']]);
+  });
+
+  it('should fall back to conventional folders for turbo.json repos', () => {
+    expect(listed(join(fixtureBase, 'turbo'))).toEqual([
+      ['@acme/config', 'packages/config'],
+      ['mailer', 'services/mailer'],
+      ['codegen', 'tools/codegen'],
+    ]);
+  });
+
+  it('should list Nx projects and the workspaceLayout folders', () => {
+    expect(listed(join(fixtureBase, 'nx'))).toEqual([
+      ['admin', 'projects/admin'],
+      ['services/deep/gateway', 'services/deep/gateway'],
+      ['@acme/utils', 'shared/utils'],
+    ]);
+  });
+
+  it('should treat every folder in a plain apps/ folder as a workspace', () => {
+    expect(listed(join(fixtureBase, 'plain'))).toEqual([['api', 'apps/api'], ['web', 'apps/web']]);
+  });
+
+  it('should return nothing outside a monorepo', () => {
+    expect(discoverWorkspaces(join(fixtureBase, 'pnpm/apps/web'))).toEqual([]);
+  });
+});
+
+describe('detectWorkspaces', () => {
+  it('should find the monorepo root above an app', () => {
+    const root = join(fixtureBase, 'pnpm');
+    const detected = detectWorkspaces(join(root, 'apps/web'));
+    expect(detected?.root).toBe(root);
+    expect(workspaceAt(detected!.workspaces, join(root, 'services/billing/src'))?.name).toBe('@acme/billing');
+    expect(workspaceAt(detected!.workspaces, join(root, 'tools'))).toBeUndefined();
+  });
+
+  it('should find the plain apps/ layout from inside an app', () => {
+    expect(detectWorkspaces(join(fixtureBase, 'plain/apps/web/app'))?.root).toBe(join(fixtureBase, 'plain'));
+  });
+});
+
+describe('findWorkspace', () => {
+  const root = join(fixtureBase, 'pnpm');
+
+  it('should match the name, the directory, the folder and the unscoped name', () => {
+    const workspaces = discoverWorkspaces(root);
+    expect(findWorkspace(workspaces, root, '@acme/billing')?.dir).toBe(join(root, 'services/billing'));
+    expect(findWorkspace(workspaces, root, 'services/jobs/worker/')?.dir).toBe(join(root, 'services/jobs/worker'));
+    expect(findWorkspace(workspaces, root, 'web')?.name).toBe('@acme/web');
+    expect(findWorkspace(workspaces, root, 'billing')?.name).toBe('@acme/billing');
+    expect(findWorkspace(workspaces, root, 'legacy')).toBeUndefined();
+  });
+});
+
+describe('--dir inside a monorepo but outside its workspaces', () => {
+  const root = join(fixtureBase, 'pnpm');
+  const run = (...args: string[]) => spawnSync(process.execPath, [join(import.meta.dir, '../src/index.ts'), ...args, '--no-cache'], {
+    env: { ...process.env, CI: '1' },
+    encoding: 'utf-8',
+  });
+
+  it('should exit with an error instead of scanning every workspace', () => {
+    for (const args of [['--dir', join(root, 'tools/cli'), '--json'], ['routes', '--dir', join(root, 'tools/cli')]]) {
+      const result = run(...args);
+      expect(result.status).toBe(1);
+      expect(result.stdout).toContain('tools/cli is not in any workspace of');
+    }
+  });
+
+  it('should still scan a workspace picked with --app', () => {
+    const result = run('routes', '--dir', join(root, 'tools/cli'), '--app', 'web', '--json');
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual([]);
+  });
+});